@@ -29,3 +29,20 @@ jest.useRealTimers();
 // Obsidian API provides a global sleep(ms): Promise<void> helper.
 // Provide it for tests running outside of Obsidian.
 global.sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+// Obsidian runs in a browser context with WebCrypto and TextEncoder available.
+// jsdom does not provide them, so expose Node's implementations.
+const { webcrypto } = require("crypto");
+const { TextEncoder, TextDecoder } = require("util");
+Object.defineProperty(global, "crypto", {
+	value: webcrypto,
+	configurable: true,
+});
+global.TextEncoder = TextEncoder;
+global.TextDecoder = TextDecoder;
+
+// Obsidian also provides structuredClone, which IndexedDB needs to store values.
+// jsdom does not expose it, so clone through Node's serializer.
+const v8 = require("v8");
+global.structuredClone =
+	global.structuredClone ?? (value => v8.deserialize(v8.serialize(value)));
@@ -1,25 +1,306 @@
 import {
 	App,
+	Modal,
 	Plugin,
+	normalizePath,
 	PluginSettingTab,
 	Setting,
 	MarkdownView,
 	TAbstractFile,
+	TFile,
 	Editor,
 	debounce,
 	Notice,
 	setTooltip,
+	Platform,
 } from "obsidian";
 
-import type { ViewState, Debouncer } from "obsidian";
+import type {
+	ViewState,
+	Debouncer,
+	DataAdapter,
+	EventRef,
+	TextComponent,
+} from "obsidian";
+
+// Available storage backends for persisted note states
+type StorageBackend = "per-file" | "single-file" | "memory" | "indexeddb";
+// What happens to entries in the old directory when dbDir changes
+type DbDirMigrationMode = "move" | "copy";
+// Which cursor/scroll to restore: this device's own, or the most recent from any device
+type PositionRestoreMode = "device" | "latest";
+// What to do when another device changes the position of the open note
+type RemoteChangePolicy = "ignore" | "notify" | "follow";
+// Where lock status and view mode are kept: in the database with positions, or in the note itself
+type SharedStateLocation = "database" | "frontmatter";
+
+/** Frontmatter property names used when lock status and view mode are kept in the note */
+interface FrontmatterProperties {
+	protected: string;
+	timestamp: string;
+	viewMode: string;
+}
 
 interface PluginSettings {
 	dbDir: string;
 	// Whether Lock Mode UI and behavior is enabled
 	lockModeEnabled?: boolean; // default true
+	// Where state entries are persisted; the default for devices that made no choice of their own
+	storageBackend?: StorageBackend; // default "per-file"
+	// Set once all legacy (pre SHA-256) entry keys were rewritten
+	legacyKeysMigrated?: boolean;
+	positionRestore?: PositionRestoreMode; // default "device"
+	remoteChangePolicy?: RemoteChangePolicy; // default "notify"
+	// Encrypt entries on write; the passphrase is never stored, each device keeps the derived key
+	encryptionEnabled?: boolean; // default false
+	// Base64 PBKDF2 salt shared by all encrypted entries; replaced only by encryptDatabase
+	encryptionSalt?: string;
+	// ENCRYPTION_VERIFIER_TOKEN encrypted with the database key, to check a passphrase on any device
+	encryptionVerifier?: EncryptedEntry;
+	sharedStateLocation?: SharedStateLocation; // default "database"
+	frontmatterProperties?: Partial<FrontmatterProperties>; // see DEFAULT_FRONTMATTER_PROPERTIES
+	// Stale state collection (see collectStaleStates); 0 disables the rule
+	retentionDays?: number; // default 0: drop positions of notes not opened for this many days
+	maxEntries?: number; // default 0: forget the least recently used states above this count
+	quarantineDays?: number; // default 30: purge entries quarantined by validation after this many days, 0 keeps them
+	autoValidationHours?: number; // default 0: validate after startup and sync at most once per this many hours
+}
+
+/**
+ * Storage backend for serialized state entries.
+ * Keys are note hashes (see getFileHash), values are raw JSON strings.
+ * Implementations must not interpret entry contents beyond checking that they parse.
+ */
+interface StateStore {
+	get(key: string): Promise<string | null>;
+	put(key: string, data: string): Promise<void>;
+	delete(key: string): Promise<void>;
+	list(): Promise<string[]>;
+	move(fromKey: string, toKey: string): Promise<void>;
+	// Optional batched writes for stores that rewrite a whole file per change (see putEntries)
+	putMany?(entries: Map<string, string>): Promise<void>;
+	deleteMany?(keys: string[]): Promise<void>;
+	// Optional for file-based stores: sync conflict copies found next to the database files
+	listConflicts?(): Promise<ConflictCopy[]>;
+	removeConflict?(name: string): Promise<void>;
+}
+
+/** A conflict copy left by a sync tool, with the serialized values it holds per key */
+interface ConflictCopy {
+	name: string; // file name inside dbDir
+	entries: Map<string, string>; // empty when the copy does not parse
+}
+
+// What happens to notes that already have a state when an archive is imported
+type ArchiveImportMode = "merge" | "overwrite" | "skip";
+
+/** Portable copy of the database: states keyed by note path instead of entry key */
+interface StateArchive {
+	format: typeof ARCHIVE_FORMAT;
+	pluginVersion: string;
+	schemaVersion: number;
+	exportedAt: number;
+	// States with their fieldUpdatedAt, so a merging import keeps the newest parts
+	states: Record<string, TemporaryState>;
+}
+
+/** Note path prefix replaced on import, e.g. "Projects/" -> "Archive/2026/" */
+interface PathRemap {
+	from: string;
+	to: string;
+}
+
+/** Outcome of importArchive */
+interface ArchiveImport {
+	imported: number;
+	skipped: number; // kept the existing state (mode "skip") or not a state
+	missing: number; // the note does not exist in this vault
+}
+
+/** Reads the positions another position-memory plugin saved, so they can be imported */
+interface StateImporter {
+	id: string;
+	name: string;
+	// Where the plugin keeps its data by default
+	defaultPath(configDir: string): string;
+	// Note path -> state; entries it cannot read are null. Throws when the data is not in its format
+	parse(data: string): Map<string, TemporaryState | null>;
+}
+
+/** What an import would do, worked out before anything is written (see planImport) */
+interface ImportPlan {
+	create: Map<string, TemporaryState>; // notes without a stored position
+	conflict: Map<string, TemporaryState>; // notes that already have a stored position
+	skipped: number; // unreadable entries and notes missing from the vault
+}
+
+/** Outcome of collectStaleStates */
+interface StaleStateCollection {
+	examined: number; // stored note states
+	trimmed: number; // states whose cursor and scroll were dropped
+	removed: number; // states removed to stay within maxEntries
+}
+
+/** Outcome of resolveConflictCopies */
+interface ConflictResolution {
+	merged: number; // copies merged and removed
+	lockConflicts: string[]; // notes whose copies disagreed on Lock Mode
+}
+
+// Why validation proposes an action for an entry
+type ValidationProblem =
+	| "unreadable" // not JSON, or not a state entry
+	| "no-note" // names no note
+	| "missing-note" // its note no longer exists
+	| "moved-note" // its note no longer exists, but was probably moved to `target`
+	| "repair" // outdated schema, wrong viewState.file or missing owner
+	| "position" // cursor or scroll outside the note's current content
+	| "conflict-copy" // sync conflict copy waiting to be merged
+	| "newer" // written by a newer plugin version
+	| "collision" // several notes share the key
+	| "locked"; // encrypted with a passphrase not entered on this device
+
+// Repairs validation applies to an entry that is kept
+type EntryRepair = "schema" | "viewStateFile" | "path";
+
+/** One change validation proposes (see planValidation); "keep" entries are only reported */
+interface ValidationAction {
+	kind: "fix" | "remove" | "keep";
+	problem: ValidationProblem;
+	key: string; // entry key, or the file name of a conflict copy
+	path?: string; // owning note, when known
+	target?: string; // note a "moved-note" entry is re-associated with
+	repairs?: EntryRepair[];
+	detail: string;
+}
+
+/** Dry run of validation: what would change, nothing written yet */
+interface ValidationReport {
+	createdAt: number;
+	total: number; // stored keys examined
+	actions: ValidationAction[];
+	errors: number; // keys that could not be examined
+}
+
+/** Why an entry was quarantined, written next to it as `<name>.reason.json` (encrypted like the entry) */
+interface QuarantineReason {
+	key: string;
+	quarantinedAt: string; // ISO time
+	reasons: Array<{
+		path?: string;
+		problem: ValidationProblem;
+		detail: string;
+	}>;
+}
+
+/** Outcome of restoreQuarantine */
+interface QuarantineRestore {
+	restored: number; // entries written back to the database
+	kept: number; // entries still failing validation, left in quarantine
+}
+
+/** Outcome of applyValidation */
+interface ValidationOutcome {
+	fixed: number; // entries repaired
+	removed: number; // entries and unreadable keys moved to quarantine
+	adopted: number; // entries re-associated with the note they were moved to
+	clamped: number; // cursor and scroll positions clamped or dropped
+	mergedConflicts: number;
+	lockConflicts: number;
+	errors: number;
+	cancelled: boolean; // stopped before every selected action was applied
 }
 
+// Stage of a validation run: checking entries (planValidation) or applying changes (applyValidation)
+type ValidationPhase = "check" | "apply";
+
 const DELAY_WRITING_DB = 500;
+// Object store holding the entries of the IndexedDB backend
+const IDB_STORE_NAME = "states";
+// Object store and record of the database key kept on this device (see DatabaseKeyStore)
+const IDB_KEY_STORE_NAME = "keys";
+const DATABASE_KEY_ID = "database";
+// File name of the consolidated database inside dbDir (not *.json so per-file listing ignores it)
+const CONSOLIDATED_DB_FILE = "states.db";
+// Sibling files used by crash-safe database writes (see writeFileAtomic)
+const TEMP_FILE_SUFFIX = ".tmp";
+const BACKUP_FILE_SUFFIX = ".bak";
+// Entry keys produced by getFileHash (hex SHA-256); anything else is a legacy key
+const ENTRY_KEY_PATTERN = /^[0-9a-f]{64}$/;
+// Layout version of persisted entries; bump together with a new SCHEMA_MIGRATIONS step
+const SCHEMA_VERSION = 2;
+// Conflict copies of database files: "<base> (conflict ...)" / "(... conflicted copy ...)" from Obsidian Sync
+// and Dropbox, "<base>.sync-conflict-<stamp>" from Syncthing; group 1 is the original base name
+const CONFLICT_COPY_PATTERN =
+	/^(.+?)(?: \([^()]*conflict[^()]*\)|\.sync-conflict-[^.]+)(?:\.json|\.db)$/i;
+// Let a sync burst settle before merging the conflict copies it produced
+const DELAY_RESOLVING_CONFLICTS = 2000;
+// Description of each entry repair in validation reports
+const ENTRY_REPAIRS: Record<EntryRepair, string> = {
+	schema: "Upgrade to the current layout",
+	viewStateFile: "Point viewState.file at the note",
+	path: "Record the owning note",
+};
+// Folder inside dbDir that validation moves removed entries to, one subfolder per day
+const QUARANTINE_DIR = ".quarantine";
+const QUARANTINE_REASON_SUFFIX = ".reason.json";
+const DEFAULT_QUARANTINE_DAYS = 30;
+// Local storage key of this device's id (local storage is per vault and never synced)
+const DEVICE_ID_STORAGE_KEY = "anti-ephemeral-state-device-id";
+// Local storage key of a device-local backend chosen on this device (see getStorageBackend)
+const BACKEND_STORAGE_KEY = "anti-ephemeral-state-storage-backend";
+// How long the "continue from another device" notice stays up
+const HANDOFF_NOTICE_DURATION = 10000;
+// Database file watching for the open note: mtime polling where raw vault events are unavailable,
+// and a short delay so the several events of one atomic write are handled once
+const REMOTE_POLL_INTERVAL = 5000;
+const DELAY_CHECKING_REMOTE = 300;
+const DEFAULT_FRONTMATTER_PROPERTIES: FrontmatterProperties = {
+	protected: "aes-locked",
+	timestamp: "aes-lock-timestamp",
+	viewMode: "aes-view-mode",
+};
+// Marks a file as a state archive (see exportArchive)
+const ARCHIVE_FORMAT = "anti-ephemeral-state-archive";
+// A note's last-open time is stamped at most this often, so opening notes rarely writes the database
+const OPEN_STAMP_INTERVAL = 60 * 60 * 1000;
+// Stale state collection on startup: at most once a day per device, in batches with a pause in between
+const COLLECTION_STORAGE_KEY = "anti-ephemeral-state-last-collection";
+const COLLECTION_INTERVAL = 24 * 60 * 60 * 1000;
+const COLLECTION_BATCH_SIZE = 50;
+const COLLECTION_BATCH_PAUSE = 50;
+// Validation checks this many keys at once and pauses between batches. Automatic runs happen at most
+// once per autoValidationHours per device, once a burst of database changes has settled
+const VALIDATION_BATCH_SIZE = 20;
+const VALIDATION_BATCH_PAUSE = 20;
+const VALIDATION_STORAGE_KEY = "anti-ephemeral-state-last-validation";
+const DELAY_AUTO_VALIDATION = 30000;
+// What automatic runs fix on their own (besides merging conflict copies); entries to remove or to
+// re-associate with a moved note are left for the review
+const AUTOMATIC_VALIDATION_FIXES: ReadonlySet<ValidationProblem> = new Set([
+	"repair",
+	"position",
+]);
+// PBKDF2-SHA256 rounds for new database keys; each entry records the count it was encrypted with
+const KEY_DERIVATION_ITERATIONS = 600000;
+// Known plaintext of settings.encryptionVerifier
+const ENCRYPTION_VERIFIER_TOKEN = "anti-ephemeral-state";
+
+/** Serialized form of an encrypted entry; binary fields are base64 */
+interface EncryptedEntry {
+	encrypted: "AES-GCM"; // key derived with PBKDF2-SHA256 from the passphrase
+	iterations: number;
+	salt: string;
+	iv: string;
+	data: string; // ciphertext of the serialized entry
+}
+
+/** Database key as kept in IndexedDB on each device (see DatabaseKeyStore) */
+interface StoredDatabaseKey {
+	key: CryptoKey; // non-extractable
+	salt: string;
+	iterations: number;
+}
 
 interface TemporaryState {
 	cursor?: {
@@ -38,6 +319,55 @@ interface TemporaryState {
 	// When missing, defaults are applied during read/write: protected=false, timestamp=null
 	protected?: boolean; // whether note is protected from edits
 	timestamp?: number | null; // file mtime in ms; null when unknown
+	// Per-device positions keyed by device id (see getDeviceId); top-level cursor/scroll hold the
+	// most recent position from any device, viewState and Lock Mode fields are shared
+	devices?: Record<string, DevicePosition>;
+	// Set by writers on the fields they changed (see mergeEntryFields); never present on read states
+	fieldUpdatedAt?: FieldTimestamps;
+	// Note mtime right after the plugin last wrote its frontmatter properties (frontmatter mode);
+	// the plugin's own writes are not integrity violations
+	frontmatterMtime?: number;
+}
+
+// Independently merged parts of a state; `lock` covers protected and timestamp together
+type StateField = "cursor" | "scroll" | "viewState" | "lock";
+type FieldTimestamps = Partial<Record<StateField, number>>;
+const STATE_FIELDS: Record<StateField, string[]> = {
+	cursor: ["cursor"],
+	scroll: ["scroll"],
+	viewState: ["viewState"],
+	lock: ["protected", "timestamp"],
+};
+
+type StoredCursor = NonNullable<TemporaryState["cursor"]>;
+
+interface DevicePosition {
+	cursor?: TemporaryState["cursor"];
+	scroll?: number;
+	updatedAt?: number; // ms of this device's last position write
+}
+
+// The most recently written device position, i.e. the device that last moved in the note
+function newestDevicePosition(
+	state: TemporaryState
+): (DevicePosition & { deviceId: string }) | null {
+	let newest: (DevicePosition & { deviceId: string }) | null = null;
+	for (const [deviceId, position] of Object.entries(state.devices ?? {})) {
+		if (!newest || (position.updatedAt ?? 0) > (newest.updatedAt ?? 0)) {
+			newest = { ...position, deviceId };
+		}
+	}
+	return newest;
+}
+
+// Undocumented: id identifying the vault on this device
+interface VaultIdentity {
+	appId?: string;
+}
+
+/** Vault event not covered by the public typings */
+interface RawChangeEvents {
+	on(name: "raw", callback: (path: string) => void): EventRef;
 }
 
 /** Minimal shape we rely on from persisted JSON */
@@ -59,6 +389,552 @@ function isParsedStateMinimal(v: unknown): v is ParsedStateMinimal {
 	return file === undefined || typeof file === "string";
 }
 
+/** Notes whose keys collide share one database entry as a bucket of entries */
+interface CollisionBucket {
+	bucket: unknown[];
+}
+function isCollisionBucket(v: unknown): v is CollisionBucket {
+	return isObject(v) && Array.isArray(v.bucket);
+}
+// Entries stored under one key: the members of a bucket or the single entry itself
+function unpackEntries(v: Record<string, unknown>): Record<string, unknown>[] {
+	return isCollisionBucket(v) ? v.bucket.filter(isObject) : [v];
+}
+function packEntries(entries: unknown[]): unknown {
+	return entries.length === 1 ? entries[0] : { bucket: entries };
+}
+// Entries without an explicit path predate collision tracking and belong to the key owner
+function ownsEntry(entry: Record<string, unknown>, filePath: string): boolean {
+	return typeof entry.path !== "string" || entry.path === filePath;
+}
+// Persisted entries are note states plus bookkeeping: the owning note `path`, `schemaVersion`
+// (missing on entries written before versioning, i.e. version 1), `updatedAt` (ms of the last
+// write), `fieldUpdatedAt` (ms of the last change per StateField) and `openedAt` (ms the note was
+// last opened, see recordOpen). Strip it before handing a state to capture/restore code
+function toTemporaryState(entry: Record<string, unknown>): TemporaryState {
+	const state = { ...entry };
+	delete state.path;
+	delete state.schemaVersion;
+	delete state.updatedAt;
+	delete state.fieldUpdatedAt;
+	delete state.openedAt;
+	return state as TemporaryState;
+}
+function entryUpdatedAt(entry: Record<string, unknown>): number {
+	return typeof entry.updatedAt === "number" ? entry.updatedAt : 0;
+}
+// When the note was last used: opened, or its state written
+function entryLastUsed(entry: Record<string, unknown>): number {
+	const opened = typeof entry.openedAt === "number" ? entry.openedAt : 0;
+	return Math.max(opened, entryUpdatedAt(entry));
+}
+// Modification time of every field an entry holds (see storedFieldTime)
+function entryFieldTimes(entry: Record<string, unknown>): FieldTimestamps {
+	const times: FieldTimestamps = {};
+	for (const field of Object.keys(STATE_FIELDS) as StateField[]) {
+		const time = storedFieldTime(entry, field);
+		if (time !== undefined) times[field] = time;
+	}
+	return times;
+}
+// Apply the first remap whose prefix matches the note path
+function remapPath(path: string, remaps: PathRemap[]): string {
+	const remap = remaps.find(r => path.startsWith(r.from));
+	return remap ? remap.to + path.slice(remap.from.length) : path;
+}
+// obsidian-remember-cursor-position keeps one JSON object: note path -> {cursor: {from, to}, scroll},
+// with CodeMirror positions ({ch, line}) for the selection anchor and head
+const REMEMBER_CURSOR_POSITION_IMPORTER: StateImporter = {
+	id: "remember-cursor-position",
+	name: "Remember cursor position",
+	defaultPath: configDir =>
+		`${configDir}/plugins/remember-cursor-position/cursor-positions.json`,
+	parse(data) {
+		const parsed = JSON.parse(data) as unknown;
+		if (!isObject(parsed) || Array.isArray(parsed)) {
+			throw new Error("Not a cursor-positions.json file");
+		}
+		const isPosition = (v: unknown): v is { ch: number; line: number } =>
+			isObject(v) &&
+			Number.isInteger(v.ch) &&
+			Number.isInteger(v.line) &&
+			(v.ch as number) >= 0 &&
+			(v.line as number) >= 0;
+		const states = new Map<string, TemporaryState | null>();
+		for (const [path, saved] of Object.entries(parsed)) {
+			const state: TemporaryState = {};
+			if (isObject(saved)) {
+				const cursor = saved.cursor;
+				if (
+					isObject(cursor) &&
+					isPosition(cursor.from) &&
+					isPosition(cursor.to)
+				) {
+					state.cursor = {
+						start: { col: cursor.from.ch, line: cursor.from.line },
+						end: { col: cursor.to.ch, line: cursor.to.line },
+					};
+				}
+				if (
+					typeof saved.scroll === "number" &&
+					Number.isFinite(saved.scroll) &&
+					saved.scroll >= 0
+				) {
+					state.scroll = saved.scroll;
+				}
+			}
+			const readable =
+				state.cursor !== undefined || state.scroll !== undefined;
+			states.set(path, readable ? state : null);
+		}
+		return states;
+	},
+};
+// Importers offered in the import dialog
+const STATE_IMPORTERS: StateImporter[] = [REMEMBER_CURSOR_POSITION_IMPORTER];
+
+// Remove cursor and scroll (shared and per device) from an entry; returns whether it held any
+function dropPositions(entry: Record<string, unknown>): boolean {
+	const held = ["cursor", "scroll", "devices"].some(
+		k => entry[k] !== undefined
+	);
+	delete entry.cursor;
+	delete entry.scroll;
+	delete entry.devices;
+	if (isObject(entry.fieldUpdatedAt)) {
+		delete entry.fieldUpdatedAt.cursor;
+		delete entry.fieldUpdatedAt.scroll;
+	}
+	return held;
+}
+// Merge two serialized values of one key, keeping the newest entry per owning note
+function mergeSerializedEntries(existing: string, incoming: string): string {
+	let current: unknown;
+	let next: unknown;
+	try {
+		current = JSON.parse(existing);
+	} catch {
+		return incoming;
+	}
+	try {
+		next = JSON.parse(incoming);
+	} catch {
+		return existing;
+	}
+	if (!isObject(current)) return incoming;
+	if (!isObject(next)) return existing;
+	const byOwner = new Map<string, Record<string, unknown>>();
+	for (const entry of [...unpackEntries(current), ...unpackEntries(next)]) {
+		const owner = typeof entry.path === "string" ? entry.path : "";
+		const kept = byOwner.get(owner);
+		// Ties go to the incoming entry
+		if (!kept || entryUpdatedAt(entry) >= entryUpdatedAt(kept)) {
+			byOwner.set(owner, entry);
+		}
+	}
+	return JSON.stringify(packEntries(Array.from(byOwner.values())));
+}
+
+// Combine two versions of one note's entry: positions and view from the newer write, per-device
+// positions from both, and the most protective Lock Mode state (a lock on either side wins, keeping the timestamp recorded with it)
+function mergeConflictingEntry(
+	a: Record<string, unknown>,
+	b: Record<string, unknown>
+): { entry: Record<string, unknown>; lockConflict: boolean } {
+	const [older, newer] =
+		entryUpdatedAt(b) >= entryUpdatedAt(a) ? [a, b] : [b, a];
+	const entry = { ...older, ...newer };
+	// Each device wrote its own position record; keep them all
+	if (isObject(older.devices) || isObject(newer.devices)) {
+		entry.devices = {
+			...(isObject(older.devices) ? older.devices : {}),
+			...(isObject(newer.devices) ? newer.devices : {}),
+		};
+	}
+	const lockConflict = (a.protected === true) !== (b.protected === true);
+	if (older.protected === true || newer.protected === true) {
+		const locked = newer.protected === true ? newer : older;
+		entry.protected = true;
+		entry.timestamp = locked.timestamp ?? null;
+	}
+	return { entry, lockConflict };
+}
+// Merge a conflict copy into the canonical value of its key. Returns the value to store (null when
+// there is nothing to write) and the notes with a Lock Mode conflict, or null when either side holds
+// an entry from a newer plugin version and must be left alone
+function mergeConflictCopy(
+	canonical: string | null,
+	copy: string
+): { data: string | null; lockConflicts: string[] } | null {
+	let incoming: unknown;
+	try {
+		incoming = JSON.parse(copy);
+	} catch {
+		return { data: null, lockConflicts: [] };
+	}
+	if (!isObject(incoming)) return { data: null, lockConflicts: [] };
+	let current: unknown = null;
+	try {
+		current = canonical === null ? null : JSON.parse(canonical);
+	} catch {
+		current = null;
+	}
+	const copyEntries = unpackEntries(incoming);
+	const entries = isObject(current) ? unpackEntries(current) : [];
+	if ([...entries, ...copyEntries].some(isNewerSchema)) return null;
+
+	const lockConflicts: string[] = [];
+	for (const entry of copyEntries) {
+		const owner = typeof entry.path === "string" ? entry.path : "";
+		const index = entries.findIndex(
+			e => (typeof e.path === "string" ? e.path : "") === owner
+		);
+		if (index === -1) {
+			entries.push(entry);
+			continue;
+		}
+		const merged = mergeConflictingEntry(entries[index], entry);
+		entries[index] = merged.entry;
+		if (merged.lockConflict) lockConflicts.push(owner);
+	}
+	return { data: JSON.stringify(packEntries(entries)), lockConflicts };
+}
+
+// Modification time of a field in a stored entry; entries from before field timestamps use their
+// write time. Undefined when the entry does not hold the field or only holds its default
+function storedFieldTime(
+	entry: Record<string, unknown>,
+	field: StateField
+): number | undefined {
+	if (!STATE_FIELDS[field].some(k => entry[k] !== undefined))
+		return undefined;
+	if (!isObject(entry.fieldUpdatedAt)) return entryUpdatedAt(entry);
+	const time = entry.fieldUpdatedAt[field];
+	return typeof time === "number" ? time : undefined;
+}
+// Field-level last-writer-wins merge of an incoming entry into the stored one. Fields the writer
+// stamped in fieldUpdatedAt (every field it holds when it stamped none) compete by modification time,
+// ties broken by value so all devices converge on the same result; unstamped fields keep the stored
+// value. Device positions are merged per device by their own updatedAt
+function mergeEntryFields(
+	stored: Record<string, unknown> | undefined,
+	incoming: Record<string, unknown>,
+	now: number
+): Record<string, unknown> {
+	const base = stored ?? {};
+	const stamped = isObject(incoming.fieldUpdatedAt)
+		? incoming.fieldUpdatedAt
+		: null;
+	const merged: Record<string, unknown> = { ...base, ...incoming };
+	const times: FieldTimestamps = {};
+	for (const field of Object.keys(STATE_FIELDS) as StateField[]) {
+		const keys = STATE_FIELDS[field];
+		const holds = keys.some(k => incoming[k] !== undefined);
+		const stamp = stamped?.[field];
+		const incomingTime = stamped
+			? typeof stamp === "number"
+				? stamp
+				: undefined
+			: holds
+				? now
+				: undefined;
+		const storedTime = storedFieldTime(base, field);
+		const value = (entry: Record<string, unknown>) =>
+			JSON.stringify(keys.map(k => entry[k] ?? null));
+		let useIncoming: boolean;
+		if (incomingTime === undefined) {
+			// Not changed by this writer: keep what is stored, if anything
+			useIncoming = storedTime === undefined && holds;
+		} else {
+			useIncoming =
+				storedTime === undefined ||
+				incomingTime > storedTime ||
+				(incomingTime === storedTime && value(incoming) >= value(base));
+		}
+		const source = useIncoming ? incoming : base;
+		for (const k of keys) {
+			if (source[k] === undefined) {
+				delete merged[k];
+			} else {
+				merged[k] = source[k];
+			}
+		}
+		const time = useIncoming ? (incomingTime ?? now) : storedTime;
+		if (time !== undefined) times[field] = time;
+	}
+	merged.fieldUpdatedAt = times;
+
+	if (isObject(base.devices) || isObject(incoming.devices)) {
+		const devices: Record<string, unknown> = {
+			...(isObject(base.devices) ? base.devices : {}),
+		};
+		for (const [id, position] of Object.entries(
+			isObject(incoming.devices) ? incoming.devices : {}
+		)) {
+			const kept = devices[id];
+			if (
+				!isObject(kept) ||
+				!isObject(position) ||
+				entryUpdatedAt(position) >= entryUpdatedAt(kept)
+			) {
+				devices[id] = position;
+			}
+		}
+		merged.devices = devices;
+	}
+	return merged;
+}
+
+// States are plain JSON; copies keep cached states safe from callers mutating them
+function cloneState(state: TemporaryState): TemporaryState {
+	return JSON.parse(JSON.stringify(state)) as TemporaryState;
+}
+
+/** Upgrades an entry in place from version `to - 1` to version `to` */
+interface SchemaMigration {
+	to: number;
+	migrate(entry: Record<string, unknown>): void;
+}
+// Lock Mode fields: protected=false, timestamp=null when missing or malformed
+function applyLockDefaults(entry: Record<string, unknown>): void {
+	if (typeof entry.protected !== "boolean") {
+		entry.protected = false;
+	}
+	const ts = entry.timestamp;
+	if (ts === undefined || (typeof ts !== "number" && ts !== null)) {
+		entry.timestamp = null;
+	}
+}
+// Ordered upgrade steps, applied on read and during validation
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+	{ to: 2, migrate: applyLockDefaults },
+];
+function entrySchemaVersion(entry: Record<string, unknown>): number {
+	return typeof entry.schemaVersion === "number" ? entry.schemaVersion : 1;
+}
+// Entries written by a newer plugin version (e.g. on another synced device) must never be rewritten
+function isNewerSchema(entry: Record<string, unknown>): boolean {
+	return entrySchemaVersion(entry) > SCHEMA_VERSION;
+}
+// Bring an entry up to SCHEMA_VERSION in place; returns whether anything was upgraded
+function migrateEntry(entry: Record<string, unknown>): boolean {
+	const version = entrySchemaVersion(entry);
+	if (version >= SCHEMA_VERSION) return false;
+	for (const step of SCHEMA_MIGRATIONS) {
+		if (step.to > version) step.migrate(entry);
+	}
+	entry.schemaVersion = SCHEMA_VERSION;
+	return true;
+}
+// Note an entry belongs to: explicit owner first, then viewState.file
+function entryNotePath(entry: Record<string, unknown>): string | undefined {
+	if (typeof entry.path === "string") return entry.path;
+	const viewState = entry.viewState;
+	return isObject(viewState) && typeof viewState.file === "string"
+		? viewState.file
+		: undefined;
+}
+// Repairs an entry of the given note needs, without changing it
+function entryRepairs(
+	entry: Record<string, unknown>,
+	notePath: string
+): EntryRepair[] {
+	const repairs: EntryRepair[] = [];
+	if (entrySchemaVersion(entry) < SCHEMA_VERSION) repairs.push("schema");
+	const viewState = entry.viewState;
+	if (
+		viewState === undefined ||
+		(isObject(viewState) && viewState.file !== notePath)
+	) {
+		repairs.push("viewStateFile");
+	}
+	// Entries written before collision tracking do not record their owner
+	if (entry.path !== notePath) repairs.push("path");
+	return repairs;
+}
+// Apply entryRepairs in place; returns whether anything changed
+function repairEntry(
+	entry: Record<string, unknown>,
+	notePath: string
+): boolean {
+	const repairs = entryRepairs(entry, notePath);
+	migrateEntry(entry);
+	if (repairs.includes("viewStateFile")) {
+		entry.viewState = {
+			...(isObject(entry.viewState) ? entry.viewState : {}),
+			file: notePath,
+		};
+	}
+	entry.path = notePath;
+	return repairs.length > 0;
+}
+// How many trailing segments (file name, then folders) two paths have in common
+function sharedTrailingSegments(a: string, b: string): number {
+	const x = a.split("/").reverse();
+	const y = b.split("/").reverse();
+	let n = 0;
+	while (n < x.length && n < y.length && x[n] === y[n]) n++;
+	return n;
+}
+// File name without the case, spacing and punctuation that renames typically change
+function looseFileName(path: string): string {
+	const name = path.slice(path.lastIndexOf("/") + 1);
+	return name.toLowerCase().replace(/[^\p{L}\p{N}.]+/gu, "");
+}
+function parentFolder(path: string): string {
+	return path.slice(0, Math.max(path.lastIndexOf("/"), 0));
+}
+function fileExtension(path: string): string {
+	const name = path.slice(path.lastIndexOf("/") + 1);
+	const dot = name.lastIndexOf(".");
+	return dot > 0 ? name.slice(dot + 1) : "";
+}
+// The candidate scoring highest, or null when none scores above 0 or the best score is shared
+function uniqueBest(
+	candidates: string[],
+	score: (path: string) => number
+): string | null {
+	let best: string | null = null;
+	let bestScore = 0;
+	let tied = false;
+	for (const candidate of candidates) {
+		const value = score(candidate);
+		if (value > bestScore) {
+			best = candidate;
+			bestScore = value;
+			tied = false;
+		} else if (value === bestScore && value > 0) {
+			tied = true;
+		}
+	}
+	return tied ? null : best;
+}
+// A stored cursor moved inside the document: lines past the end go to the end of the last line,
+// columns past the end of their line to its end. Null when the cursor is malformed
+function clampCursor(
+	cursor: unknown,
+	lineCount: number,
+	lineLength: (line: number) => number
+): StoredCursor | null {
+	const isPosition = (v: unknown): v is { col: number; line: number } =>
+		isObject(v) &&
+		Number.isInteger(v.col) &&
+		Number.isInteger(v.line) &&
+		(v.col as number) >= 0 &&
+		(v.line as number) >= 0;
+	if (
+		!isObject(cursor) ||
+		!isPosition(cursor.start) ||
+		!isPosition(cursor.end)
+	) {
+		return null;
+	}
+	const clamp = ({ col, line }: { col: number; line: number }) => {
+		if (line >= lineCount) {
+			const last = Math.max(lineCount - 1, 0);
+			return { col: lineLength(last), line: last };
+		}
+		return { col: Math.min(col, lineLength(line)), line };
+	};
+	return { start: clamp(cursor.start), end: clamp(cursor.end) };
+}
+// A stored scroll position (top line) kept within the document. Null when it is not a position
+function clampScroll(scroll: unknown, lineCount: number): number | null {
+	if (typeof scroll !== "number" || !Number.isFinite(scroll) || scroll < 0) {
+		return null;
+	}
+	return Math.min(scroll, Math.max(lineCount - 1, 0));
+}
+// Whether an entry stores a cursor or scroll position, shared or per device
+function hasPositions(entry: Record<string, unknown>): boolean {
+	return (
+		entry.cursor !== undefined ||
+		entry.scroll !== undefined ||
+		(isObject(entry.devices) && Object.keys(entry.devices).length > 0)
+	);
+}
+// Clamp the positions of an entry (shared and per device) against the note's line lengths, dropping
+// malformed ones; returns how many positions changed
+function clampEntryPositions(
+	entry: Record<string, unknown>,
+	lines: number[]
+): number {
+	let adjusted = 0;
+	const clampIn = (holder: Record<string, unknown>) => {
+		if (holder.cursor !== undefined) {
+			const cursor = clampCursor(
+				holder.cursor,
+				lines.length,
+				l => lines[l]
+			);
+			if (!cursor) {
+				delete holder.cursor;
+				adjusted++;
+			} else if (
+				JSON.stringify(cursor) !== JSON.stringify(holder.cursor)
+			) {
+				holder.cursor = cursor;
+				adjusted++;
+			}
+		}
+		if (holder.scroll !== undefined) {
+			const scroll = clampScroll(holder.scroll, lines.length);
+			if (scroll === null) {
+				delete holder.scroll;
+				adjusted++;
+			} else if (scroll !== holder.scroll) {
+				holder.scroll = scroll;
+				adjusted++;
+			}
+		}
+	};
+	clampIn(entry);
+	if (isObject(entry.devices)) {
+		for (const position of Object.values(entry.devices)) {
+			if (isObject(position)) clampIn(position);
+		}
+	}
+	return adjusted;
+}
+// Markdown version of a validation report; selected actions are checked
+function validationReportMarkdown(
+	report: ValidationReport,
+	selected: Set<ValidationAction>
+): string {
+	const lines = [
+		"# Anti-Ephemeral State validation report",
+		"",
+		`Checked ${report.total} stored entries on ${new Date(report.createdAt).toLocaleString()}.`,
+	];
+	if (report.errors > 0) {
+		lines.push(`${report.errors} entries could not be checked.`);
+	}
+	const sections: [ValidationAction["kind"], string][] = [
+		["fix", "Fix"],
+		["remove", "Remove"],
+		["keep", "Keep"],
+	];
+	for (const [kind, heading] of sections) {
+		const actions = report.actions.filter(a => a.kind === kind);
+		if (actions.length === 0) continue;
+		lines.push("", `## ${heading}`, "");
+		for (const action of actions) {
+			const box =
+				kind === "keep"
+					? "-"
+					: selected.has(action)
+						? "- [x]"
+						: "- [ ]";
+			const subject = action.path ?? action.key;
+			lines.push(`${box} \`${subject}\`: ${action.detail}`);
+		}
+	}
+	if (report.actions.length === 0) {
+		lines.push("", "Nothing to change.");
+	}
+	return lines.join("\n") + "\n";
+}
+
 export default class AntiEphemeralState extends Plugin {
 	settings: PluginSettings;
 	DEFAULT_SETTINGS: PluginSettings; // declare as public class property
@@ -66,7 +942,7 @@ export default class AntiEphemeralState extends Plugin {
 	lastLoadedFileName: string;
 	loadingFile = false;
 	lastEventTime = 0;
-	debouncedSave: Debouncer<[string, TemporaryState], void>;
+	saveQueue: SaveQueue; // per-note debounced writes
 	scrollListenersAttached = false; // Track if scroll listeners are already attached
 	restorationPromise: Promise<void> | null = null; // Promise to track restoration completion
 	private lockStatusBar?: LockStatusBar; // status bar controller when Lock Mode enabled
@@ -75,10 +951,45 @@ export default class AntiEphemeralState extends Plugin {
 	// Command registration state for Lock Mode toggle
 	private lockCommandId = "lock-unlock";
 	private lockCommandRegistered = false;
+	// Active state store and the backend it was created for
+	private stateStore?: StateStore;
+	private stateStoreBackend?: StorageBackend;
+	// Note path -> state, keeps hot paths (scroll, cursor, lock checks) off the adapter
+	private stateCache?: StateCache;
+	private conflictResolver?: Debouncer<[], void>;
+	private autoValidation?: Debouncer<[], void>;
+	// The validation run in progress, and its progress in the status bar
+	private validationTask: ValidationTask | null = null;
+	private validationStatusBar?: ValidationStatusBar;
+	private deviceId?: string;
+	private deviceBackend?: StorageBackend | null; // undefined until read from local storage
+	private lastHandoffOffer?: string; // note, device and time of the last offered handoff
+	// Newest device position of the open note already restored or handled (see checkRemoteChange)
+	private remoteBaseline?: string;
+	private remoteCheck?: Debouncer<[], void>;
+	private polledDbFile?: { path: string; mtime: number | null };
+	private stateCipher: StateCipher | null = null; // see loadStateCipher
+	private databaseKeyStore?: DatabaseKeyStore;
+	// Note path -> when this session last stamped its open (see recordOpen)
+	private openStamps = new Map<string, number>();
+	// Note path -> entry key, avoids re-hashing on every scroll/cursor event
+	private fileHashCache = new Map<string, string>();
+
+	// Entry key for a note: hex SHA-256 digest of the normalized note path (memoized, it runs on hot paths)
+	async getFileHash(filePath: string): Promise<string> {
+		const cached = this.fileHashCache.get(filePath);
+		if (cached) return cached;
+		const bytes = new TextEncoder().encode(normalizePath(filePath));
+		const digest = await crypto.subtle.digest("SHA-256", bytes);
+		const hash = Array.from(new Uint8Array(digest))
+			.map(b => b.toString(16).padStart(2, "0"))
+			.join("");
+		this.fileHashCache.set(filePath, hash);
+		return hash;
+	}
 
-	// Improved hash function for file names with better collision resistance
-	getFileHash(filePath: string): string {
-		// Use a more robust hashing approach with multiple hash values
+	// Previous entry key (two 31-bit polynomial hashes plus path length); used only to find unmigrated entries
+	getLegacyFileHash(filePath: string): string {
 		let hash1 = 0;
 		let hash2 = 0;
 		const prime1 = 31;
@@ -90,1444 +1001,5573 @@ export default class AntiEphemeralState extends Plugin {
 			hash2 = (hash2 * prime2 + char) & 0x7fffffff; // Keep positive
 		}
 
-		// Combine both hashes and add file length for extra uniqueness
-		const combined =
+		return (
 			hash1.toString(36) +
 			hash2.toString(36) +
-			filePath.length.toString(36);
-		return combined;
+			filePath.length.toString(36)
+		);
 	}
 
 	// Resolve per-file state storage path (database file) for a specific note
-	getDbFilePath(filePath: string): string {
-		const hash = this.getFileHash(filePath);
+	async getDbFilePath(filePath: string): Promise<string> {
+		const hash = await this.getFileHash(filePath);
 		return `${this.settings.dbDir}/${hash}.json`;
 	}
 
-	// Read state from the per-file database (state store)
-	async readFileState(filePath: string): Promise<TemporaryState | null> {
+	// Fallback lookup: move a not-yet-migrated legacy entry to its SHA-256 key and return it. Legacy keys
+	// collide, so an entry recording another note (or none) is left alone
+	private async adoptLegacyEntry(
+		filePath: string,
+		key: string
+	): Promise<string | null> {
+		const store = this.getStateStore();
+		const legacyKey = this.getLegacyFileHash(filePath);
+		const data = await store.get(legacyKey);
+		if (data === null) return null;
+		let parsed: unknown;
 		try {
-			const dbFilePath = this.getDbFilePath(filePath);
-			if (await this.app.vault.adapter.exists(dbFilePath)) {
-				let data = await this.app.vault.adapter.read(dbFilePath);
-
-				// Private validation function for viewState.file field
-				const validateViewStateFile = (
-					parsedData: unknown,
-					expectedFilePath: string
-				): boolean => {
-					if (!isParsedStateMinimal(parsedData)) return true; // if structure unknown, don't invalidate
-					const fileVal = parsedData.viewState?.file;
-					if (
-						typeof fileVal === "string" &&
-						fileVal !== expectedFilePath
-					) {
-						return false;
-					}
-					return true;
-				};
-
-				const parsedData = JSON.parse(data) as unknown;
-				if (!isObject(parsedData)) {
-					return null;
-				}
-
-				// Ensure Lock Mode fields have defaults for backward compatibility
-				const ensureLockDefaults = (obj: unknown): boolean => {
-					if (!isObject(obj)) return false;
-					let changed = false;
-					const rec = obj;
-					if (typeof rec.protected !== "boolean") {
-						rec.protected = false;
-						changed = true;
-					}
-					const ts = rec.timestamp;
-					if (
-						ts === undefined ||
-						(typeof ts !== "number" && ts !== null)
-					) {
-						rec.timestamp = null;
-						changed = true;
-					}
-					return changed;
-				};
+			parsed = JSON.parse(data);
+		} catch {
+			// Unreadable entries are left for validateDatabase
+			return null;
+		}
+		if (
+			!isParsedStateMinimal(parsed) ||
+			parsed.viewState?.file !== filePath
+		) {
+			return null;
+		}
+		await store.move(legacyKey, key);
+		console.debug("[AES] Migrated legacy entry on read:", filePath);
+		return data;
+	}
 
-				let changedDefaults = ensureLockDefaults(parsedData);
+	// Rewrite legacy entry keys to SHA-256 keys; safe to interrupt, every entry is migrated independently
+	async migrateLegacyKeys(): Promise<number> {
+		if (this.settings.legacyKeysMigrated) return 0;
+		const store = this.getStateStore();
+		let migrated = 0;
+		let pending = 0;
 
-				// Validate viewState.file field
-				if (!validateViewStateFile(parsedData, filePath)) {
-					// Update the invalid viewState.file field immediately
-					if (
-						isParsedStateMinimal(parsedData) &&
-						parsedData.viewState
-					) {
-						(parsedData.viewState as MinimalViewState).file =
-							filePath;
-					}
-					// Save the corrected data back to the file (also persists defaults)
-					await this.app.vault.adapter.write(
-						dbFilePath,
-						JSON.stringify(parsedData)
-					);
-					// Return the corrected data
-					return parsedData as TemporaryState;
+		for (const key of await store.list()) {
+			if (ENTRY_KEY_PATTERN.test(key)) continue;
+			try {
+				const raw = await store.get(key);
+				if (raw === null) continue;
+				let parsed: unknown;
+				try {
+					parsed = JSON.parse(raw);
+				} catch {
+					// Unreadable entries are left for validateDatabase
+					continue;
 				}
-
-				let containsFlashingSpan =
-					this.app.workspace.containerEl.querySelector(
-						"span.is-flashing"
-					);
-				if (!containsFlashingSpan) {
-					// Persist defaults if they were added and file path was valid
-					if (changedDefaults) {
-						await this.app.vault.adapter.write(
-							dbFilePath,
-							JSON.stringify(parsedData)
-						);
-					}
-					return parsedData as TemporaryState;
+				const notePath = isParsedStateMinimal(parsed)
+					? parsed.viewState?.file
+					: undefined;
+				if (typeof notePath !== "string") continue;
+
+				const newKey = await this.getFileHash(notePath);
+				if ((await store.get(newKey)) !== null) {
+					// Entry already written under the new key is newer
+					await store.delete(key);
 				} else {
-					return null;
+					await store.move(key, newKey);
 				}
+				migrated++;
+			} catch (e) {
+				pending++;
+				console.warn("[AES] Legacy key migration failed for", key, e);
 			}
-		} catch (e) {
-			console.error("[AES] Error reading file state:", e);
 		}
-		return null;
-	}
-
-	// Write state to the per-file database (state store)
-	async writeFileState(
-		filePath: string,
-		state: TemporaryState
-	): Promise<void> {
-		try {
-			const dbFilePath = this.getDbFilePath(filePath);
-
-			// Ensure database directory exists (state persistence root)
-			if (!(await this.app.vault.adapter.exists(this.settings.dbDir))) {
-				await this.app.vault.adapter.mkdir(this.settings.dbDir);
-			}
 
-			// Apply defaults for new fields before saving (non-destructive merge)
-			const stateToSave: TemporaryState = { ...state };
-			if (typeof stateToSave.protected !== "boolean") {
-				stateToSave.protected = false;
-			}
-			const ts = stateToSave.timestamp;
-			if (ts === undefined || (typeof ts !== "number" && ts !== null)) {
-				stateToSave.timestamp = null;
-			}
+		if (pending === 0) {
+			this.settings.legacyKeysMigrated = true;
+			await this.saveSettings();
+		}
+		console.debug("[AES] Legacy key migration", { migrated, pending });
+		return migrated;
+	}
 
-			await this.app.vault.adapter.write(
-				dbFilePath,
-				JSON.stringify(stateToSave)
-			);
-			console.debug("[AES] State saved to database file:", dbFilePath);
-		} catch (e) {
-			console.error("[AES] Error writing file state:", e);
+	// Backend used on this device: a device-local backend chosen here, else the synced default
+	getStorageBackend(): StorageBackend {
+		if (this.deviceBackend === undefined) {
+			const stored: unknown =
+				this.app.loadLocalStorage(BACKEND_STORAGE_KEY);
+			this.deviceBackend =
+				stored === "indexeddb" || stored === "memory" ? stored : null;
 		}
+		return this.deviceBackend ?? this.settings.storageBackend ?? "per-file";
 	}
 
-	// Validate entire database directory: fix wrong viewState.file, remove DB entries for missing notes
-	async validateDatabase(): Promise<void> {
-		const dbDir = this.settings.dbDir;
-		let total = 0;
-		let fixedViewStatePath = 0;
-		let removedMissingNote = 0;
-		let removedInvalidEntry = 0;
-		let errors = 0;
+	// Switch this device to a backend. Database file layouts are shared by every device syncing the
+	// vault, so they become the synced default; device-local backends are kept for this device only,
+	// so choosing one never leaves other devices with an empty database
+	async setStorageBackend(backend: StorageBackend): Promise<void> {
+		if (isFileBackend(backend)) {
+			this.deviceBackend = null;
+			this.app.saveLocalStorage(BACKEND_STORAGE_KEY, null);
+			this.settings.storageBackend = backend;
+			await this.saveSettings();
+		} else {
+			this.deviceBackend = backend;
+			this.app.saveLocalStorage(BACKEND_STORAGE_KEY, backend);
+		}
+	}
 
-		try {
-			// Ensure database directory exists
-			if (!(await this.app.vault.adapter.exists(dbDir))) {
-				new Notice("Validation: database directory not found");
-				return;
+	// Random id identifying this device's positions; generated once and kept in local storage
+	getDeviceId(): string {
+		if (!this.deviceId) {
+			const stored: unknown = this.app.loadLocalStorage(
+				DEVICE_ID_STORAGE_KEY
+			);
+			if (typeof stored === "string" && stored) {
+				this.deviceId = stored;
+			} else {
+				const bytes = crypto.getRandomValues(new Uint8Array(8));
+				this.deviceId = Array.from(bytes)
+					.map(b => b.toString(16).padStart(2, "0"))
+					.join("");
+				this.app.saveLocalStorage(DEVICE_ID_STORAGE_KEY, this.deviceId);
 			}
+		}
+		return this.deviceId;
+	}
 
-			// Read directory listing
-			const entries = await this.app.vault.adapter.list(dbDir);
-			const files = (entries.files || []).filter(f =>
-				f.toLowerCase().endsWith(".json")
-			);
+	// Cursor/scroll to restore according to the positionRestore setting. Notes never opened on this
+	// device fall back to the most recent position from any device
+	positionForDevice(state: TemporaryState): TemporaryState {
+		if ((this.settings.positionRestore ?? "device") !== "device") {
+			return state;
+		}
+		const own = state.devices?.[this.getDeviceId()];
+		if (!own) return state;
+		return { ...state, cursor: own.cursor, scroll: own.scroll };
+	}
 
-			for (const dbFilePath of files) {
-				total++;
+	// Position another device wrote after this device's own one, if it differs (see offerHandoff)
+	findHandoff(
+		state: TemporaryState
+	): (DevicePosition & { deviceId: string }) | null {
+		const me = this.getDeviceId();
+		const own = state.devices?.[me];
+		// Without an own position, or when restoring the latest one, the newest position is already restored
+		if (
+			!state.devices ||
+			!own ||
+			(this.settings.positionRestore ?? "device") !== "device"
+		) {
+			return null;
+		}
+		const newest = newestDevicePosition(state);
+		if (!newest || newest.deviceId === me) {
+			return null;
+		}
+		const samePosition =
+			newest.scroll === own.scroll &&
+			JSON.stringify(newest.cursor) === JSON.stringify(own.cursor);
+		return samePosition ? null : newest;
+	}
 
-				try {
-					const raw = await this.app.vault.adapter.read(dbFilePath);
-					let parsed: unknown;
-					try {
-						parsed = JSON.parse(raw);
-					} catch {
-						// Invalid JSON -> remove
-						await this.app.vault.adapter.remove(dbFilePath);
-						removedInvalidEntry++;
-						continue;
-					}
+	// Non-blocking notice offering to jump to a newer position from another device; offered once per write
+	offerHandoff(filePath: string, state: TemporaryState) {
+		const handoff = this.findHandoff(state);
+		if (!handoff) return;
+		const offer = `${filePath}:${handoff.deviceId}:${handoff.updatedAt}`;
+		if (offer === this.lastHandoffOffer) return;
+		this.lastHandoffOffer = offer;
+		this.showJumpNotice(
+			filePath,
+			handoff,
+			`Continue where you left off on another device (${new Date(
+				handoff.updatedAt ?? 0
+			).toLocaleString()})?`
+		);
+	}
 
-					// Determine note path from viewState.file if present
-					let notePath: string | undefined = undefined;
-					if (isParsedStateMinimal(parsed)) {
-						const fileVal = parsed.viewState?.file;
-						if (typeof fileVal === "string") {
-							notePath = fileVal;
-						}
-					}
+	// Notice with a "Jump to position" button that restores the given position in the note
+	private showJumpNotice(
+		filePath: string,
+		position: DevicePosition,
+		text: string
+	) {
+		const fragment = document.createDocumentFragment();
+		const message = document.createElement("div");
+		message.textContent = text;
+		const button = document.createElement("button");
+		button.textContent = "Jump to position";
+		fragment.append(message, button);
+		const notice = new Notice(fragment, HANDOFF_NOTICE_DURATION);
+		button.addEventListener("click", () => {
+			notice.hide();
+			// The user may have moved on to another note meanwhile
+			if (this.app.workspace.getActiveFile()?.path !== filePath) return;
+			this.setTemporaryState({
+				cursor: position.cursor,
+				scroll: position.scroll,
+			});
+		});
+	}
 
-					if (!notePath) {
-						// Cannot correlate DB entry to a note -> remove
-						await this.app.vault.adapter.remove(dbFilePath);
-						removedInvalidEntry++;
-						continue;
-					}
+	// Remember the newest position a note was restored with, so only later remote changes are applied
+	private setRemoteBaseline(filePath: string, state: TemporaryState | null) {
+		const newest = state && newestDevicePosition(state);
+		this.remoteBaseline = `${filePath}:${newest?.deviceId}:${newest?.updatedAt}`;
+	}
 
-					// Optional: validate and fix wrong viewState.file (should equal notePath itself after decision)
-					// Here we mirror logic from readFileState(): the expected path for the state is exactly notePath.
-					// If the JSON was produced for a different file and moved, we correct to notePath (self-consistent).
-					let changed = false;
-					if (isParsedStateMinimal(parsed)) {
-						if (parsed.viewState?.file !== notePath) {
-							// ensure container objects exist before assignment
-							if (!parsed.viewState) parsed.viewState = {};
-							parsed.viewState.file = notePath;
-							changed = true;
-						}
-					}
+	// Debounced checkRemoteChange, requested on every database change
+	requestRemoteCheck() {
+		if (!this.remoteCheck) {
+			this.remoteCheck = debounce(
+				() => {
+					void this.checkRemoteChange().catch(e =>
+						console.error("[AES] Remote change check failed:", e)
+					);
+				},
+				DELAY_CHECKING_REMOTE,
+				true
+			);
+		}
+		this.remoteCheck();
+	}
 
-					// Check whether the note actually exists
-					const exists =
-						await this.app.vault.adapter.exists(notePath);
-					if (!exists) {
-						// Remove DB file if corresponding note is missing
-						await this.app.vault.adapter.remove(dbFilePath);
-						removedMissingNote++;
-						continue;
-					}
+	// Apply a change another device made to the open note's state: refresh the lock icon and keep its
+	// lock fields, and ignore, announce or follow its position according to remoteChangePolicy
+	async checkRemoteChange(): Promise<void> {
+		const filePath = this.app.workspace.getActiveFile()?.path;
+		const known = this.lastTemporaryState;
+		if (
+			!filePath ||
+			filePath !== this.lastLoadedFileName ||
+			this.loadingFile ||
+			!known
+		) {
+			return;
+		}
+		const state = await this.readFileState(filePath);
+		if (!state) return;
 
-					// If we changed anything in the JSON, write back
-					if (changed) {
-						await this.app.vault.adapter.write(
-							dbFilePath,
-							JSON.stringify(parsed)
-						);
-						fixedViewStatePath++;
-					}
-				} catch (e) {
-					console.error(
-						"[AES] Validation error for DB file:",
-						dbFilePath,
-						e
+		if ((state.protected === true) !== (known.protected === true)) {
+			this.lockStatusBar?.updateIcon(
+				state.protected ? "locked" : "unlocked"
+			);
+		}
+		// The next local save must not revert lock changes made elsewhere
+		known.protected = state.protected;
+		known.timestamp = state.timestamp;
+		this.saveQueue?.rebase(filePath, state, this.getDeviceId());
+
+		const newest = newestDevicePosition(state);
+		if (!newest || newest.deviceId === this.getDeviceId()) return;
+		const previous = this.remoteBaseline;
+		this.setRemoteBaseline(filePath, state);
+		if (this.remoteBaseline === previous) return;
+
+		switch (this.settings.remoteChangePolicy ?? "notify") {
+			case "follow":
+				// Their position wins: drop the local save that would overwrite it
+				this.saveQueue?.discard(filePath);
+				this.setTemporaryState({
+					cursor: newest.cursor,
+					scroll: newest.scroll,
+				});
+				this.lastTemporaryState = {
+					...known,
+					cursor: newest.cursor,
+					scroll: newest.scroll,
+				};
+				break;
+			case "notify":
+				this.showJumpNotice(
+					filePath,
+					newest,
+					"This note's position was changed on another device."
+				);
+				break;
+			default:
+				break;
+		}
+	}
+
+	// Fallback for platforms without raw vault events: watch the mtime of the open note's database file
+	async pollDatabase(): Promise<void> {
+		const filePath = this.app.workspace.getActiveFile()?.path;
+		const backend = this.getStorageBackend();
+		if (!filePath || !isFileBackend(backend)) return;
+		const dbFile =
+			backend === "single-file"
+				? `${this.settings.dbDir}/${CONSOLIDATED_DB_FILE}`
+				: await this.getDbFilePath(filePath);
+		const mtime =
+			(await this.app.vault.adapter.stat(dbFile))?.mtime ?? null;
+		const last = this.polledDbFile;
+		this.polledDbFile = { path: dbFile, mtime };
+		if (last?.path === dbFile && last.mtime !== mtime) {
+			this.onDatabaseChange(dbFile);
+		}
+	}
+
+	// Lazily created so tests and early callers work before onload
+	getStateCache(): StateCache {
+		if (!this.stateCache) {
+			this.stateCache = new StateCache(this);
+		}
+		return this.stateCache;
+	}
+
+	// Drop cached states whose database file changed on disk (sync, other processes, our own writes)
+	onDatabaseChange(path: string) {
+		const dbDir = normalizePath(this.settings.dbDir);
+		const changed = normalizePath(path);
+		if (!changed.startsWith(dbDir + "/")) return;
+		// Quarantined entries are not part of the database
+		if (changed.startsWith(`${dbDir}/${QUARANTINE_DIR}/`)) return;
+		// "<key>.json", "<key>.json.bak", "<key>.json.tmp" or the consolidated database
+		const key = changed.slice(dbDir.length + 1).split(".")[0];
+		if (ENTRY_KEY_PATTERN.test(key)) {
+			this.getStateCache().invalidateKey(key);
+		} else {
+			this.getStateCache().clear();
+		}
+		if (CONFLICT_COPY_PATTERN.test(changed.slice(dbDir.length + 1))) {
+			this.requestConflictResolution();
+		}
+		this.requestRemoteCheck();
+		this.requestAutoValidation();
+	}
+
+	// Debounced resolveConflictCopies for copies appearing while Obsidian runs
+	requestConflictResolution() {
+		if (!this.conflictResolver) {
+			this.conflictResolver = debounce(
+				() => {
+					void this.resolveConflictCopies().catch(e =>
+						console.error("[AES] Conflict copy merge failed:", e)
 					);
-					errors++;
+				},
+				DELAY_RESOLVING_CONFLICTS,
+				true
+			);
+		}
+		this.conflictResolver();
+	}
+
+	// Merge sync conflict copies of database files (all, or only the named ones) into their canonical
+	// entries and remove the copies. Copies involving entries from a newer plugin version are kept for
+	// that version to resolve
+	async resolveConflictCopies(
+		only?: Set<string>
+	): Promise<ConflictResolution> {
+		const result: ConflictResolution = { merged: 0, lockConflicts: [] };
+		const store = this.getStateStore();
+		if (!store.listConflicts || !store.removeConflict) return result;
+
+		for (const copy of await store.listConflicts()) {
+			if (only && !only.has(copy.name)) continue;
+			let complete = true;
+			for (const [key, data] of copy.entries) {
+				const merged = mergeConflictCopy(await store.get(key), data);
+				if (!merged) {
+					complete = false;
+					continue;
 				}
+				if (merged.data !== null) {
+					await store.put(key, merged.data);
+				}
+				result.lockConflicts.push(...merged.lockConflicts);
+			}
+			if (complete) {
+				await store.removeConflict(copy.name);
+				result.merged++;
 			}
+		}
 
+		if (result.merged > 0) {
+			this.getStateCache().clear();
+			console.debug("[AES] Merged conflict copies:", result.merged);
+		}
+		if (result.lockConflicts.length > 0) {
+			console.warn(
+				"[AES] Lock Mode conflict in sync copies, kept locked:",
+				result.lockConflicts
+			);
 			new Notice(
-				`[AES] Validation completed. Total: ${total}, fixed viewState.file: ${fixedViewStatePath}, removed missing notes: ${removedMissingNote}, removed invalid: ${removedInvalidEntry}, errors: ${errors}`
+				`[AES] Sync conflict: Lock Mode differed for ${result.lockConflicts.length} note(s). They were kept locked.`
 			);
-			console.debug("[AES] Validation report", {
-				total,
-				fixedViewStatePath,
-				removedMissingNote,
-				removedInvalidEntry,
-				errors,
-			});
-		} catch (e) {
-			console.error("[AES] Error validating database directory:", e);
-			new Notice("Validation failed.");
 		}
+		return result;
 	}
 
-	async onload() {
-		// Initialize DEFAULT_SETTINGS with access to this.app
-		this.DEFAULT_SETTINGS = {
-			dbDir:
-				this.app.vault.configDir + "/plugins/anti-ephemeral-state/db",
-			lockModeEnabled: true,
-		};
+	// Resolve the state store for the configured backend (created lazily, recreated on backend change)
+	getStateStore(): StateStore {
+		const backend = this.getStorageBackend();
+		if (!this.stateStore || this.stateStoreBackend !== backend) {
+			this.stateStore = this.createStateStore(backend);
+			this.stateStoreBackend = backend;
+		}
+		return this.stateStore;
+	}
 
-		await this.loadSettings();
+	// Create a fresh store instance for the given backend, optionally bound to a fixed database directory.
+	// Backends are wrapped so entries are encrypted and decrypted transparently
+	createStateStore(backend: StorageBackend, dbDir?: string): StateStore {
+		let store: StateStore;
+		switch (backend) {
+			case "memory":
+				store = new MemoryStateStore();
+				break;
+			case "single-file":
+				store = new ConsolidatedStateStore(this, dbDir);
+				break;
+			case "indexeddb":
+				store = new IndexedDBStateStore(this.getLocalDatabaseName());
+				break;
+			default:
+				store = new PerFileStateStore(this, dbDir);
+		}
+		return new EncryptedStateStore(this, store);
+	}
 
-		// Ensure database directory exists (state persistence root)
+	// Copy all entries into another persistent backend and switch to it; source entries are removed only after success
+	async migrateStorage(target: StorageBackend): Promise<number> {
+		const current = this.getStorageBackend();
+		if (current === target) return 0;
+
+		const source = this.getStateStore();
+		const destination = this.createStateStore(target);
+		const copied = new Map<string, string>();
+		for (const key of await source.list()) {
+			const data = await source.get(key);
+			if (data !== null) copied.set(key, data);
+		}
 		try {
-			if (!(await this.app.vault.adapter.exists(this.settings.dbDir))) {
-				await this.app.vault.adapter.mkdir(this.settings.dbDir);
-				console.debug(
-					"[AES] Created database directory:",
-					this.settings.dbDir
-				);
+			// Written in one go: the single-file backend rewrites its whole file per write
+			await putEntries(destination, copied);
+			for (const [key, data] of copied) {
+				if ((await destination.get(key)) !== data) {
+					throw new Error(`[AES] Verification failed for ${key}`);
+				}
 			}
 		} catch (e) {
-			console.error("[AES] Error creating database directory:", e);
+			// Roll back copied entries; source is untouched
+			try {
+				await deleteEntries(destination, [...copied.keys()]);
+			} catch (rollbackError) {
+				console.warn("[AES] Rollback failed:", rollbackError);
+			}
+			throw e;
 		}
 
-		this.addSettingTab(new SettingTab(this.app, this));
+		await this.setStorageBackend(target);
+		this.stateStore = destination;
+		this.stateStoreBackend = target;
 
-		// Initialize Lock Mode status bar
-		if (this.settings.lockModeEnabled !== false) {
-			this.lockStatusBar = new LockStatusBar(this);
-			this.checksumIntegrity = new ChecksumIntegrity(this);
-			this.lockManager = new LockManager(this);
-			this.registerLockCommand();
+		try {
+			await deleteEntries(source, [...copied.keys()]);
+		} catch (e) {
+			console.warn("[AES] Failed to remove migrated entries:", e);
 		}
+		console.debug("[AES] Storage migrated", {
+			from: current,
+			to: target,
+			entries: copied.size,
+		});
+		return copied.size;
+	}
 
-		this.registerEvent(
-			this.app.workspace.on("file-open", file => {
-				if (!file) return;
-
-				this.loadingFile = true;
-				this.lastLoadedFileName = file.path;
-
-				// Use layout-change event to ensure DOM is ready
-				const layoutChangeHandler = async () => {
-					// Get the current active file instead of using the file from closure
-					const activeLeaf =
-						this.app.workspace.getActiveViewOfType(MarkdownView);
-					const currentFile = activeLeaf?.file;
-
-					// Only proceed if current file matches the file that triggered the event
-					if (!currentFile || currentFile.path !== file.path) {
-						console.debug(
-							"[AES] Layout change - file mismatch, expected:",
-							file.path,
-							"current:",
-							currentFile?.path,
-							"- skipping restoration"
-						);
-						this.loadingFile = false;
-						this.app.workspace.off(
-							"layout-change",
-							layoutChangeHandler
-						);
-						return;
-					}
-
-					const state = await this.readFileState(file.path);
-					console.debug(
-						"[AES] Layout change detected for file:",
-						file.path,
-						"State found:",
-						!!state
-					);
-					if (state) {
-						// Integrity check with mtime if Lock Mode is enabled and timestamp is present
-						let integrityMismatch = false;
-						if (
-							this.settings.lockModeEnabled !== false &&
-							this.checksumIntegrity &&
-							typeof state.timestamp === "number"
-						) {
-							try {
-								const ok =
-									await this.checksumIntegrity.verifyFileIntegrity(
-										file.path,
-										state.timestamp
-									);
-								if (!ok) {
-									integrityMismatch = true;
-									console.warn(
-										"[AES] Integrity mismatch detected for",
-										file.path
-									);
-								}
-							} catch (e) {
-								console.error(
-									"[AES] Integrity check failed:",
-									e
-								);
-							}
-						}
-
-						// Update lock icon according to saved state and integrity
-						if (this.lockStatusBar) {
-							const iconState = integrityMismatch
-								? "corrupted"
-								: state.protected
-									? "locked"
-									: "unlocked";
-							this.lockStatusBar.updateIcon(iconState);
-						}
-						console.debug(
-							"[AES] Attempting to restore position:",
-							state
-						);
-						if (activeLeaf) {
-							await this.app.workspace.revealLeaf(
-								activeLeaf.leaf
-							);
-							console.debug(
-								"[AES] Calling setTemporaryState directly with state:",
-								state
-							);
-							this.setTemporaryState(state);
-						}
-						this.loadingFile = false;
-					} else {
-						console.debug(
-							"[AES] No saved state found for file:",
-							file.path
-						);
-						// No state -> show unlocked icon
-						if (this.lockStatusBar) {
-							this.lockStatusBar.updateIcon("unlocked");
-						}
-						this.loadingFile = false;
-					}
-					// Remove the one-time handler
-					this.app.workspace.off(
-						"layout-change",
-						layoutChangeHandler
-					);
-				};
-
-				// Register one-time layout-change handler
-				this.app.workspace.on("layout-change", layoutChangeHandler);
-			})
-		);
-
-		// No need for quit handler since we save immediately
+	// IndexedDB database holding this vault's device-local states
+	getLocalDatabaseName(): string {
+		const id =
+			(this.app as unknown as VaultIdentity).appId ??
+			this.app.vault.getName();
+		return `anti-ephemeral-state/${id}`;
+	}
 
-		this.registerEvent(
-			this.app.vault.on("rename", (file, oldPath) => {
-				void this.renameFile(file, oldPath);
-			})
-		);
+	// Copy the entries found in the database directory (either file layout) into the device-local
+	// database, keeping the newest write per note. The files are left in place
+	async importFromDbDir(): Promise<number> {
+		await this.saveQueue?.flushAll();
+		const destination = this.createStateStore("indexeddb");
+		let count = 0;
+		for (const layout of ["per-file", "single-file"] as const) {
+			count += await this.mergeEntries(
+				this.createStateStore(layout),
+				destination
+			);
+		}
+		this.getStateCache().clear();
+		return count;
+	}
 
-		this.registerEvent(
-			this.app.vault.on("delete", file => {
-				void this.deleteFile(file);
-			})
+	// Copy the device-local entries into the database directory, in the layout already used there,
+	// keeping the newest write per note
+	async exportToDbDir(): Promise<number> {
+		await this.saveQueue?.flushAll();
+		const consolidated = await this.app.vault.adapter.exists(
+			`${this.settings.dbDir}/${CONSOLIDATED_DB_FILE}`
 		);
-
-		// Event-driven approach: listen to editor changes
-		this.registerEvent(
-			this.app.workspace.on("editor-change", () => this.onEditorChange())
+		return this.mergeEntries(
+			this.createStateStore("indexeddb"),
+			this.createStateStore(consolidated ? "single-file" : "per-file")
 		);
+	}
 
-		// Listen to layout changes for scroll events
-		this.registerEvent(
-			this.app.workspace.on("layout-change", () => this.onLayoutChange())
-		);
+	private async mergeEntries(
+		source: StateStore,
+		destination: StateStore
+	): Promise<number> {
+		const merged = new Map<string, string>();
+		for (const key of await source.list()) {
+			const data = await source.get(key);
+			if (data === null) continue;
+			const existing = await destination.get(key);
+			merged.set(
+				key,
+				existing === null
+					? data
+					: mergeSerializedEntries(existing, data)
+			);
+		}
+		await putEntries(destination, merged);
+		return merged.size;
+	}
 
-		// Listen to active leaf changes
-		this.registerEvent(
-			this.app.workspace.on("active-leaf-change", () => {
-				this.onActiveLeafChange();
-			})
-		);
+	// Run a storage migration with user-facing notices
+	async runStorageMigration(target: StorageBackend): Promise<void> {
+		if (this.getStorageBackend() === "memory") {
+			new Notice("In-memory storage cannot be converted");
+			return;
+		}
+		try {
+			const count = await this.migrateStorage(target);
+			new Notice(`[AES] Database converted, entries moved: ${count}`);
+		} catch (e) {
+			console.error("[AES] Storage migration failed:", e);
+			new Notice("Database conversion failed, nothing was changed");
+		}
+	}
 
-		// Setup DOM event listeners for scroll and cursor events
-		this.setupDOMEventListeners();
+	// Cipher for the database key of this device; null until the passphrase was entered here, or once
+	// another device re-encrypted the database with a new salt
+	getStateCipher(): StateCipher | null {
+		const cipher = this.stateCipher;
+		return cipher?.salt === this.settings.encryptionSalt ? cipher : null;
+	}
 
-		// Initialize debounced save function using Obsidian's debounce
-		this.debouncedSave = debounce(
-			(filePath: string, state: TemporaryState) => {
-				void this.writeFileState(filePath, state);
-			},
-			DELAY_WRITING_DB,
-			true
+	getDatabaseKeyStore(): DatabaseKeyStore {
+		this.databaseKeyStore ??= new DatabaseKeyStore(
+			`${this.getLocalDatabaseName()}/keys`
 		);
-
-		void this.restoreTemporaryState();
+		return this.databaseKeyStore;
 	}
 
-	async renameFile(file: TAbstractFile, oldPath: string) {
+	// Restore the database key kept on this device
+	async loadStateCipher(): Promise<void> {
+		if (!this.settings.encryptionEnabled) return;
 		try {
-			// Read state from old database file
-			const oldState = await this.readFileState(oldPath);
-			if (oldState) {
-				// Write to new database file
-				await this.writeFileState(file.path, oldState);
-				// Delete old database file
-				const oldDbFilePath = this.getDbFilePath(oldPath);
-				if (await this.app.vault.adapter.exists(oldDbFilePath)) {
-					await this.app.vault.adapter.remove(oldDbFilePath);
-				}
-			}
+			this.stateCipher = await this.getDatabaseKeyStore().load();
 		} catch (e) {
-			console.error("[AES] Error renaming file database:", e);
+			console.warn("[AES] Failed to load the database key:", e);
 		}
 	}
 
-	async deleteFile(file: TAbstractFile) {
+	private async useCipher(cipher: StateCipher | null): Promise<void> {
+		this.stateCipher = cipher;
+		// States read while the key was missing were cached as absent
+		this.getStateCache().clear();
 		try {
-			const dbFilePath = this.getDbFilePath(file.path);
-			if (await this.app.vault.adapter.exists(dbFilePath)) {
-				await this.app.vault.adapter.remove(dbFilePath);
-				console.debug("[AES] Deleted database file for:", file.path);
-			}
+			await this.getDatabaseKeyStore().save(cipher);
 		} catch (e) {
-			console.error("[AES] Error deleting file database:", e);
+			// Without IndexedDB the key lasts for this session only
+			console.warn("[AES] Failed to keep the database key:", e);
 		}
 	}
 
-	// Event handlers for the new event-driven approach
-	onEditorChange() {
-		this.checkTemporaryStateChanged();
-	}
-
-	onLayoutChange() {
-		this.checkTemporaryStateChanged();
-	}
-
-	onActiveLeafChange() {
-		this.checkTemporaryStateChanged();
-	}
-
-	// Setup DOM event listeners for scroll and cursor events
-	setupDOMEventListeners() {
-		// Listen to mouse events for cursor position changes
-		this.registerDomEvent(document, "mouseup", () => {
-			this.checkTemporaryStateChanged();
-		});
-
-		// Listen to keyboard events for cursor position changes
-		this.registerDomEvent(document, "keyup", evt => {
-			// Only track navigation keys and selection changes
+	// Derive the database key after checking the passphrase against the verifier saved with the salt, and
+	// keep it on this device; false when the passphrase does not match
+	async unlockEncryption(passphrase: string): Promise<boolean> {
+		const { encryptionSalt: salt, encryptionVerifier: verifier } =
+			this.settings;
+		if (!salt || !isEncryptedEntry(verifier)) return false;
+		const cipher = await StateCipher.derive(passphrase, salt);
+		try {
 			if (
-				[
-					"ArrowUp",
-					"ArrowDown",
-					"ArrowLeft",
-					"ArrowRight",
-					"Home",
-					"End",
-					"PageUp",
-					"PageDown",
-				].includes(evt.key)
+				(await cipher.decrypt(verifier)) !== ENCRYPTION_VERIFIER_TOKEN
 			) {
-				this.checkTemporaryStateChanged();
+				return false;
 			}
-		});
+		} catch {
+			return false;
+		}
+		await this.useCipher(cipher);
+		return true;
+	}
 
-		// Setup scroll event listeners on workspace container
-		this.setupScrollEventListeners();
+	// Rewrite every entry encrypted with a key derived from a (new) passphrase and a new salt, and keep
+	// encrypting from now on
+	async encryptDatabase(passphrase: string): Promise<number> {
+		const cipher = await StateCipher.derive(
+			passphrase,
+			StateCipher.newSalt()
+		);
+		const count = await this.rewriteDatabase(data => cipher.encrypt(data));
+		this.settings.encryptionEnabled = true;
+		this.settings.encryptionSalt = cipher.salt;
+		this.settings.encryptionVerifier = JSON.parse(
+			await cipher.encrypt(ENCRYPTION_VERIFIER_TOKEN)
+		) as EncryptedEntry;
+		await this.useCipher(cipher);
+		await this.saveSettings();
+		return count;
 	}
 
-	// Setup scroll event listeners on the workspace container
-	setupScrollEventListeners() {
-		// Wait for workspace to be ready, then attach scroll listeners
-		this.app.workspace.onLayoutReady(() => {
-			this.attachScrollListeners();
-		});
+	// Rewrite every entry as plain JSON and stop encrypting
+	async decryptDatabase(): Promise<number> {
+		const count = await this.rewriteDatabase(data => Promise.resolve(data));
+		this.settings.encryptionEnabled = false;
+		this.settings.encryptionSalt = undefined;
+		this.settings.encryptionVerifier = undefined;
+		await this.saveSettings();
+		await this.useCipher(null);
+		return count;
 	}
 
-	// Attach scroll listeners to the appropriate DOM elements
-	attachScrollListeners() {
-		// Prevent multiple attachments
-		if (this.scrollListenersAttached) {
-			console.debug("[AES] Scroll listeners already attached, skipping");
-			return;
+	// Replace every entry with `encode` of its plain content. All entries are decrypted before the first
+	// write, so a passphrase missing on this device fails without changes; a failed write restores the
+	// entries already rewritten
+	private async rewriteDatabase(
+		encode: (data: string) => Promise<string>
+	): Promise<number> {
+		if (this.saveQueue) {
+			await this.saveQueue.flushAll();
+		}
+		const store = this.getStateStore();
+		if (!(store instanceof EncryptedStateStore)) return 0;
+		const originals = new Map<string, string>();
+		const plain = new Map<string, string>();
+		for (const key of await store.inner.list()) {
+			const data = await store.inner.get(key);
+			if (data === null) continue;
+			originals.set(key, data);
+			plain.set(key, await store.decode(data));
 		}
 
-		// Find the main workspace container
-		const workspaceEl = document.querySelector(".workspace");
-		if (workspaceEl) {
-			console.debug("[AES] Attaching scroll listener to workspace");
-			this.registerDomEvent(
-				workspaceEl as HTMLElement,
-				"scroll",
-				() => {
-					this.checkTemporaryStateChanged();
-				},
-				{ passive: true, capture: true }
-			);
+		const written: string[] = [];
+		try {
+			for (const [key, data] of plain) {
+				await store.inner.put(key, await encode(data));
+				written.push(key);
+			}
+		} catch (e) {
+			for (const key of written) {
+				try {
+					await store.inner.put(key, originals.get(key)!);
+				} catch (rollbackError) {
+					console.warn(
+						"[AES] Rollback failed for",
+						key,
+						rollbackError
+					);
+				}
+			}
+			throw e;
 		}
+		this.getStateCache().clear();
+		console.debug("[AES] Database rewritten", { entries: written.length });
+		return written.length;
+	}
 
-		// Also listen to scroll events on the main content area
-		const contentEl = document.querySelector(".workspace-leaf-content");
-		if (contentEl) {
-			console.debug("[AES] Attaching scroll listener to content area");
-			this.registerDomEvent(
-				contentEl as HTMLElement,
-				"scroll",
-				() => {
-					this.checkTemporaryStateChanged();
-				},
-				{ passive: true, capture: true }
-			);
+	// Reason why a directory cannot become the database directory, or null when it can
+	async checkDbDir(dir: string): Promise<string | null> {
+		if (!dir.trim()) return "Database directory cannot be empty";
+		const target = normalizePath(dir);
+		const current = normalizePath(this.settings.dbDir);
+		if (target === current) return "Database directory is unchanged";
+		if (
+			target.startsWith(current + "/") ||
+			current.startsWith(target + "/")
+		) {
+			return "Database directories cannot be nested in each other";
 		}
+		const stat = await this.app.vault.adapter.stat(target);
+		if (stat?.type === "file")
+			return "A file with this path already exists";
+		return null;
+	}
 
-		// Listen to scroll events on the editor container specifically
-		const editorEl = document.querySelector(".cm-editor");
-		if (editorEl) {
-			console.debug("[AES] Attaching scroll listener to editor");
-			this.registerDomEvent(
-				editorEl as HTMLElement,
-				"scroll",
-				() => {
-					this.checkTemporaryStateChanged();
-				},
-				{ passive: true, capture: true }
-			);
+	// Transfer all entries into another database directory and switch to it.
+	// Entries already present there are merged by newest write; on failure the destination is restored
+	// and dbDir stays unchanged. In "move" mode source entries are removed only after the switch.
+	async changeDbDir(
+		dir: string,
+		mode: DbDirMigrationMode,
+		onProgress?: (done: number, total: number) => void
+	): Promise<number> {
+		const problem = await this.checkDbDir(dir);
+		if (problem) throw new Error(problem);
+		const target = normalizePath(dir);
+		const previous = this.settings.dbDir;
+		const backend = this.getStorageBackend();
+		// Pending saves belong to the old directory
+		if (this.saveQueue) {
+			await this.saveQueue.flushAll();
 		}
 
-		// Fallback: listen to scroll events on document body
-		this.registerDomEvent(
-			document.body,
-			"scroll",
-			() => {
-				this.checkTemporaryStateChanged();
-			},
-			{ passive: true, capture: true }
-		);
+		const source = this.createStateStore(backend, previous);
+		const destination = this.createStateStore(backend, target);
+		// Other backends do not live in the database directory
+		const keys = isFileBackend(backend) ? await source.list() : [];
+		// Destination content before the transfer, restored on failure
+		const originals = new Map<string, string | null>();
+		const merged = new Map<string, string>();
+		try {
+			for (const [index, key] of keys.entries()) {
+				const data = await source.get(key);
+				if (data !== null) {
+					const existing = await destination.get(key);
+					originals.set(key, existing);
+					merged.set(
+						key,
+						existing === null
+							? data
+							: mergeSerializedEntries(existing, data)
+					);
+				}
+				onProgress?.(index + 1, keys.length);
+			}
+			// Written in one go: the single-file backend rewrites its whole file per write
+			await putEntries(destination, merged);
+			for (const [key, data] of merged) {
+				if ((await destination.get(key)) !== data) {
+					throw new Error(`[AES] Verification failed for ${key}`);
+				}
+			}
+			this.settings.dbDir = target;
+			await this.saveSettings();
+		} catch (e) {
+			this.settings.dbDir = previous;
+			const restored = new Map<string, string>();
+			const added: string[] = [];
+			for (const [key, original] of originals) {
+				if (original === null) added.push(key);
+				else restored.set(key, original);
+			}
+			for (const rollback of [
+				() => deleteEntries(destination, added),
+				() => putEntries(destination, restored),
+			]) {
+				try {
+					await rollback();
+				} catch (rollbackError) {
+					console.warn("[AES] Rollback failed:", rollbackError);
+				}
+			}
+			throw e;
+		}
 
-		// Mark listeners as attached
-		this.scrollListenersAttached = true;
-		console.debug("[AES] All scroll listeners attached successfully");
+		if (mode === "move") {
+			try {
+				await deleteEntries(source, [...originals.keys()]);
+			} catch (e) {
+				console.warn("[AES] Failed to remove moved entries:", e);
+			}
+		}
+		console.debug("[AES] Database directory changed", {
+			from: previous,
+			to: target,
+			mode,
+			entries: originals.size,
+		});
+		return originals.size;
 	}
 
-	// Override onunload to cleanup
-	onunload() {
-		// Cancel any pending debounced save
-		if (this.debouncedSave) {
-			this.debouncedSave.cancel();
+	// Read state through the in-memory cache; the state store is only hit on a miss
+	async readFileState(filePath: string): Promise<TemporaryState | null> {
+		try {
+			const cache = this.getStateCache();
+			let state = cache.get(filePath);
+			if (state === undefined) {
+				const epoch = cache.epoch;
+				const key = await this.getFileHash(filePath);
+				state = await this.loadFileState(filePath, key);
+				cache.fill(filePath, key, state, epoch);
+			}
+			state = this.applyFrontmatter(filePath, state);
+			// Navigating to a search result: let Obsidian scroll to the match instead
+			if (
+				state &&
+				this.app.workspace.containerEl.querySelector("span.is-flashing")
+			) {
+				return null;
+			}
+			return state;
+		} catch (e) {
+			console.error("[AES] Error reading file state:", e);
 		}
-		// Reset scroll listeners flag for clean reload
-		this.scrollListenersAttached = false;
-		this.unregisterLockCommand();
-		// No need for final save since we save immediately
-		super.onunload();
+		return null;
 	}
 
-	checkTemporaryStateChanged() {
-		requestAnimationFrame(() => {
-			void (async () => {
-				// Wait for any ongoing restoration to complete
-				if (this.restorationPromise) {
-					await this.restorationPromise;
-				}
-				// Minimal lock-mode enforcement hook before we compute/save state
-				const activePath = this.app.workspace.getActiveFile()?.path;
+	// Load, upgrade and repair the entry owned by filePath from the state store
+	private async loadFileState(
+		filePath: string,
+		key: string
+	): Promise<TemporaryState | null> {
+		const store = this.getStateStore();
+		const data =
+			(await store.get(key)) ??
+			(await this.adoptLegacyEntry(filePath, key));
+		if (data !== null) {
+			// Private validation function for viewState.file field
+			const validateViewStateFile = (
+				parsedData: unknown,
+				expectedFilePath: string
+			): boolean => {
+				if (!isParsedStateMinimal(parsedData)) return true; // if structure unknown, don't invalidate
+				const fileVal = parsedData.viewState?.file;
 				if (
-					activePath &&
-					this.settings.lockModeEnabled !== false &&
-					this.lockManager
+					typeof fileVal === "string" &&
+					fileVal !== expectedFilePath
 				) {
-					try {
-						await this.lockManager.enforceReadOnlyMode(activePath);
-					} catch (e) {
-						console.warn("[AES] enforceReadOnlyMode failed:", e);
-					}
+					return false;
 				}
+				return true;
+			};
 
-				this.performStateCheck();
-			})();
-		});
-	}
+			const parsedData = JSON.parse(data) as unknown;
+			if (!isObject(parsedData)) {
+				return null;
+			}
+			const entries = unpackEntries(parsedData);
+			// Never hand out a state that belongs to another note sharing this key
+			const entry = entries.find(e => ownsEntry(e, filePath));
+			if (!entry) {
+				return null;
+			}
+			const persist = () =>
+				store.put(key, JSON.stringify(packEntries(entries)));
 
-	performStateCheck() {
-		let fileName = this.app.workspace.getActiveFile()?.path;
+			if (isNewerSchema(entry)) {
+				// Written by a newer plugin version: use as-is, never rewrite it
+				return toTemporaryState(entry);
+			}
 
-		// waiting for the new file to finish loading
-		if (
-			!fileName ||
-			!this.lastLoadedFileName ||
-			fileName != this.lastLoadedFileName ||
-			this.loadingFile
-		)
-			return;
+			let changedDefaults = migrateEntry(entry);
+			// Record the owning path explicitly for entries written before collision tracking
+			if (typeof entry.path !== "string") {
+				entry.path = filePath;
+				changedDefaults = true;
+			}
 
-		let state = this.getTemporaryState();
+			// Validate viewState.file field
+			if (!validateViewStateFile(entry, filePath)) {
+				// Update the invalid viewState.file field immediately
+				if (isParsedStateMinimal(entry) && entry.viewState) {
+					(entry.viewState as MinimalViewState).file = filePath;
+				}
+				// Save the corrected data back to the store (also persists migrations)
+				await persist();
+				// Return the corrected data
+				return toTemporaryState(entry);
+			}
 
-		// Don't save empty/meaningless states
-		const isEmptyState = (state: TemporaryState) => {
-			return (
-				Object.keys(state).length === 0 ||
-				(!state.cursor && !state.scroll && !state.viewState)
-			);
-		};
+			// Persist migrations if any were applied and file path was valid
+			if (changedDefaults) {
+				await persist();
+			}
+			return toTemporaryState(entry);
+		}
+		return null;
+	}
 
-		if (isEmptyState(state)) {
-			console.debug("[AES] Skipping save of empty state");
-			return;
+	// Write state to the configured state store (write-through: the cache is updated on success)
+	async writeFileState(
+		filePath: string,
+		state: TemporaryState
+	): Promise<void> {
+		try {
+			const now = Date.now();
+			const entry: Record<string, unknown> = {
+				...state,
+				path: filePath,
+				schemaVersion: SCHEMA_VERSION,
+				updatedAt: now,
+			};
+			const frontmatterMtime = await this.writeFrontmatter(
+				filePath,
+				state
+			);
+			if (frontmatterMtime !== null) {
+				entry.frontmatterMtime = frontmatterMtime;
+			}
+			const cache = this.getStateCache();
+			const withDefaults = { ...entry };
+			applyLockDefaults(withDefaults);
+			// Nothing changed since the last read or write: skip the store round-trip
+			if (cache.matches(filePath, toTemporaryState(withDefaults))) {
+				cache.skippedWrites++;
+				return;
+			}
+			// Merge with the stored entry so concurrent changes of other fields (e.g. a lock toggled on
+			// another device) survive; lock defaults only fill in what neither side has
+			const written = await this.putOwnedEntry(filePath, stored => {
+				const merged = mergeEntryFields(stored, entry, now);
+				applyLockDefaults(merged);
+				return merged;
+			});
+			if (written) {
+				cache.writes++;
+				cache.set(
+					filePath,
+					await this.getFileHash(filePath),
+					toTemporaryState(written)
+				);
+			}
+		} catch (e) {
+			console.error("[AES] Error writing file state:", e);
 		}
+	}
 
-		if (!this.lastTemporaryState) this.lastTemporaryState = state;
+	// Property names for lock status and view mode, or null when they are kept in the database
+	getFrontmatterProperties(): FrontmatterProperties | null {
+		if (this.settings.sharedStateLocation !== "frontmatter") return null;
+		return {
+			...DEFAULT_FRONTMATTER_PROPERTIES,
+			...this.settings.frontmatterProperties,
+		};
+	}
 
-		if (!this.TemporaryStatesSame(state, this.lastTemporaryState)) {
-			void this.saveTemporaryState(state);
-			// Update last known state
-			this.lastTemporaryState = state;
+	// Lock status and view mode from the note's frontmatter take precedence over the stored ones;
+	// properties the note does not have leave the stored values
+	private applyFrontmatter(
+		filePath: string,
+		state: TemporaryState | null
+	): TemporaryState | null {
+		const properties = this.getFrontmatterProperties();
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (!properties || !(file instanceof TFile)) return state;
+		const frontmatter =
+			this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) return state;
+
+		const result: TemporaryState = { ...state };
+		const locked: unknown = frontmatter[properties.protected];
+		if (typeof locked === "boolean") {
+			result.protected = locked;
+			const timestamp: unknown = frontmatter[properties.timestamp];
+			result.timestamp = typeof timestamp === "number" ? timestamp : null;
+		}
+		const mode: unknown = frontmatter[properties.viewMode];
+		if (typeof mode === "string") {
+			// Captured view states carry MarkdownView's state (including mode) at the top level
+			result.viewState = {
+				type: "markdown",
+				...result.viewState,
+				mode,
+			} as ViewState;
 		}
+		return state || Object.keys(result).length > 0 ? result : null;
 	}
 
-	TemporaryStatesSame(
-		left: TemporaryState | null,
-		right: TemporaryState | null
-	): boolean {
-		// Handle null/empty states
-		if (!left && !right) return true;
-		if (!left || !right) return false;
-
-		// Check if both states are effectively empty
-		const isEmptyState = (state: TemporaryState) => {
-			return (
-				Object.keys(state).length === 0 ||
-				(!state.cursor && !state.scroll && !state.viewState)
-			);
+	// Write lock status and view mode into the note's frontmatter. The note is only touched when a value
+	// differs from its frontmatter, and defaults (unlocked, source mode) are not added to notes without
+	// the properties. Returns the note's mtime after writing when that write is the only change since the
+	// lock, otherwise null
+	private async writeFrontmatter(
+		filePath: string,
+		state: TemporaryState
+	): Promise<number | null> {
+		const properties = this.getFrontmatterProperties();
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (!properties || !(file instanceof TFile)) return null;
+		const current =
+			this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+
+		const wanted: Record<string, unknown> = {};
+		const want = (name: string, value: unknown, isDefault: boolean) => {
+			if (current[name] === value) return;
+			if (isDefault && !(name in current)) return;
+			wanted[name] = value;
 		};
+		if (state.protected !== undefined) {
+			want(properties.protected, state.protected, !state.protected);
+			want(
+				properties.timestamp,
+				state.timestamp ?? null,
+				state.timestamp == null
+			);
+		}
+		const mode = (state.viewState as { mode?: unknown } | undefined)?.mode;
+		if (typeof mode === "string") {
+			want(properties.viewMode, mode, mode === "source");
+		}
+		if (Object.keys(wanted).length === 0) return null;
 
-		const leftEmpty = isEmptyState(left);
-		const rightEmpty = isEmptyState(right);
+		const integrity = this.getChecksumIntegrity();
+		const before = await integrity.getFileTimestamp(filePath);
+		await this.app.fileManager.processFrontMatter(file, frontmatter => {
+			Object.assign(frontmatter, wanted);
+		});
+		const after = await integrity.getFileTimestamp(filePath);
+		// A locked note edited before this write must still show up as an integrity mismatch
+		const stored = await this.readFileState(filePath);
+		const untouched =
+			!state.protected ||
+			before === state.timestamp ||
+			before === stored?.frontmatterMtime;
+		return untouched ? after : null;
+	}
 
-		if (leftEmpty && rightEmpty) return true;
-		if (leftEmpty !== rightEmpty) return false;
-		// Cursor presence symmetry
-		const leftHasCursor = !!left.cursor;
-		const rightHasCursor = !!right.cursor;
-		if (leftHasCursor !== rightHasCursor) return false;
+	// Store the entry built from the currently stored one (if any) under filePath's key; returns the
+	// written entry, or null when a newer-version entry is in the way
+	private async putOwnedEntry(
+		filePath: string,
+		build: (stored?: Record<string, unknown>) => Record<string, unknown>
+	): Promise<Record<string, unknown> | null> {
+		const key = await this.getFileHash(filePath);
+		const entries = (await this.readEntries(key)) ?? [];
+		if (entries.some(e => ownsEntry(e, filePath) && isNewerSchema(e))) {
+			console.warn(
+				"[AES] Entry was written by a newer plugin version, not overwriting:",
+				filePath
+			);
+			return null;
+		}
+		const entry = build(entries.find(e => ownsEntry(e, filePath)));
 
-		// Cursor comparing
-		if (leftHasCursor) {
-			const lc = left.cursor!;
-			const rc = right.cursor!;
-			if (lc.start.col !== rc.start.col) return false;
-			if (lc.start.line !== rc.start.line) return false;
-			if (lc.end.col !== rc.end.col) return false;
-			if (lc.end.line !== rc.end.line) return false;
+		// Keep entries of other notes sharing this key (hash collision)
+		const others = entries.filter(e => !ownsEntry(e, filePath));
+		if (others.length > 0) {
+			console.warn("[AES] Key collision, storing bucket for:", filePath);
 		}
+		await this.getStateStore().put(
+			key,
+			JSON.stringify(packEntries([...others, entry]))
+		);
+		console.debug("[AES] State saved to database entry:", key);
+		return entry;
+	}
 
-		// Scroll presence symmetry
-		const leftHasScroll = !!left.scroll;
-		const rightHasScroll = !!right.scroll;
-		if (leftHasScroll !== rightHasScroll) return false;
-
-		// Scroll equality
-		if (leftHasScroll && left.scroll !== right.scroll) return false;
-
-		// View state deep structural equality via JSON representation
-		if (JSON.stringify(left.viewState) !== JSON.stringify(right.viewState))
-			return false;
+	// Entries stored under a key; null when the key is missing or its content is unreadable. Entries
+	// encrypted with a passphrase missing here throw instead, so callers never overwrite them
+	private async readEntries(
+		key: string
+	): Promise<Record<string, unknown>[] | null> {
+		try {
+			const raw = await this.getStateStore().get(key);
+			if (raw === null) return null;
+			const parsed = JSON.parse(raw) as unknown;
+			return isObject(parsed) ? unpackEntries(parsed) : null;
+		} catch (e) {
+			if (e instanceof LockedEntryError) throw e;
+			return null;
+		}
+	}
 
-		return true;
+	// Remove the entry owned by filePath from a key, keeping other notes' entries in its bucket
+	private async removeEntry(key: string, filePath: string): Promise<void> {
+		const store = this.getStateStore();
+		const entries = await this.readEntries(key);
+		const remaining = (entries ?? []).filter(e => !ownsEntry(e, filePath));
+		if (remaining.length === 0) {
+			await store.delete(key);
+		} else if (remaining.length !== entries?.length) {
+			await store.put(key, JSON.stringify(packEntries(remaining)));
+		}
+		this.getStateCache().invalidate(filePath);
 	}
 
-	async saveTemporaryState(state: TemporaryState) {
-		let fileName = this.app.workspace.getActiveFile()?.path;
-		console.debug(
-			"[AES] saveTemporaryState called, fileName:",
-			fileName,
-			"lastLoadedFileName:",
-			this.lastLoadedFileName
-		);
-		if (fileName && fileName == this.lastLoadedFileName) {
-			//do not save if file changed or was not loaded
-			console.debug(
-				"[AES] Saving state for file:",
-				fileName,
-				"State:",
-				state
-			);
-			// Preserve Lock Mode fields from existing persisted state to avoid accidental overwrite
-			let merged: TemporaryState = state;
+	// Validate the entire state store and apply every proposed fix and removal (see planValidation)
+	async validateDatabase(automatic = false): Promise<void> {
+		const task = this.beginValidation();
+		if (!task) {
+			if (!automatic) new Notice("Validation is already running.");
+			return;
+		}
+		let mergedConflicts = 0;
+		let lockConflicts = 0;
+		let errors = 0;
+
+		try {
+			// Fold sync conflict copies in first so their states are validated with the canonical entries
 			try {
-				const existing = await this.readFileState(fileName);
-				if (existing) {
-					merged = {
-						...existing, // keep protected/timestamp and previous fields
-						...state, // override cursor/scroll/viewState from fresh capture
-					};
-					// Explicitly carry over lock fields if present to avoid undefined defaults
-					if (typeof existing.protected === "boolean") {
-						merged.protected = existing.protected;
-					}
-					if (
-						existing.timestamp === null ||
-						typeof existing.timestamp === "number"
-					) {
-						merged.timestamp = existing.timestamp;
-					}
-				} else if (this.lastTemporaryState) {
-					// Use in-memory last state as a fallback source of lock fields
-					merged = {
-						...state,
-						protected: this.lastTemporaryState.protected,
-						timestamp: this.lastTemporaryState.timestamp,
-					};
-				}
+				const resolution = await this.resolveConflictCopies();
+				mergedConflicts = resolution.merged;
+				lockConflicts = resolution.lockConflicts.length;
 			} catch (e) {
-				console.warn(
-					"[AES] Failed to merge existing state, proceeding:",
-					e
-				);
+				console.error("[AES] Conflict copy merge failed:", e);
+				errors++;
 			}
 
-			// Use debounced save to prevent excessive state file writes
-			this.debouncedSave(fileName, merged);
-		} else {
-			console.debug(
-				"[AES] Cannot save state - file changed or not loaded properly"
+			const report = await this.planValidation(task);
+			const proposed = report.actions.filter(
+				a => a.kind !== "keep" && a.problem !== "conflict-copy"
 			);
+			const selected = automatic
+				? proposed.filter(a =>
+						AUTOMATIC_VALIDATION_FIXES.has(a.problem)
+					)
+				: proposed;
+			const outcome = await this.applyValidation(selected, task);
+			errors += report.errors + outcome.errors;
+
+			const found = (problem: ValidationProblem) =>
+				report.actions.filter(a => a.problem === problem).length;
+			const applied = (problem: ValidationProblem) =>
+				selected.filter(a => a.problem === problem).length;
+			const repaired = (repair: EntryRepair) =>
+				report.actions.filter(a => a.repairs?.includes(repair)).length;
+			const total = report.total;
+			const fixedViewStatePath = repaired("viewStateFile");
+			const removedMissingNote = applied("missing-note");
+			const adoptedMovedNote = applied("moved-note");
+			const removedInvalidEntry =
+				applied("unreadable") + applied("no-note");
+			const collisions = found("collision");
+			const migratedSchema = repaired("schema");
+			const skippedNewer = found("newer");
+			const clampedPositions = outcome.clamped;
+			const changes =
+				outcome.fixed +
+				outcome.removed +
+				outcome.adopted +
+				outcome.clamped +
+				mergedConflicts;
+			// Automatic runs stay quiet unless they changed something or need attention
+			const quiet =
+				automatic &&
+				changes + lockConflicts + errors === 0 &&
+				!outcome.cancelled;
+			const status = outcome.cancelled ? "cancelled" : "completed";
+			if (!quiet) {
+				new Notice(
+					`[AES] Validation ${status}. Total: ${total}, fixed viewState.file: ${fixedViewStatePath}, removed missing notes: ${removedMissingNote}, re-associated moved notes: ${adoptedMovedNote}, clamped positions: ${clampedPositions}, removed invalid: ${removedInvalidEntry}, collisions: ${collisions}, migrated: ${migratedSchema}, skipped newer: ${skippedNewer}, merged conflict copies: ${mergedConflicts}, lock conflicts: ${lockConflicts}, errors: ${errors}`
+				);
+			}
+			const unreviewed = proposed.length - selected.length;
+			if (unreviewed > 0 && !outcome.cancelled) {
+				this.showReviewNotice(unreviewed);
+			}
+			console.debug("[AES] Validation report", {
+				total,
+				fixedViewStatePath,
+				removedMissingNote,
+				adoptedMovedNote,
+				clampedPositions,
+				removedInvalidEntry,
+				collisions,
+				migratedSchema,
+				skippedNewer,
+				mergedConflicts,
+				lockConflicts,
+				errors,
+				cancelled: outcome.cancelled,
+			});
+		} catch (e) {
+			if (e instanceof ValidationCancelledError) {
+				new Notice(
+					"Validation cancelled before any entry was changed."
+				);
+				return;
+			}
+			console.error("[AES] Error validating database:", e);
+			new Notice("Validation failed.");
+		} finally {
+			this.endValidation(task);
 		}
 	}
 
-	async restoreTemporaryState() {
-		this.restorationPromise = this.performRestoration();
-		await this.restorationPromise;
-		this.restorationPromise = null;
+	// Notice for the removals and re-associations an automatic run left alone, with a button that opens
+	// the review
+	private showReviewNotice(count: number) {
+		const fragment = document.createDocumentFragment();
+		const message = document.createElement("div");
+		message.textContent = `[AES] Validation found entries to remove or re-associate: ${count}`;
+		const button = document.createElement("button");
+		button.textContent = "Review";
+		fragment.append(message, button);
+		const notice = new Notice(fragment, 0);
+		button.addEventListener("click", () => {
+			notice.hide();
+			new ValidationReviewModal(this.app, this).open();
+		});
 	}
 
-	private async performRestoration() {
-		try {
-			await this.restoreTemporaryStateWithRetry(5);
-		} catch (error) {
-			console.error(
-				"[AES] Failed to restore temporary state after all retries:",
-				error
-			);
-			// Show user notification about restoration failure
-			new Notice(
-				"Failed to restore note state. Try reopening the note.",
-				3000
-			);
-			// Reset loading state to prevent getting stuck
-			this.loadingFile = false;
-			// Set restorationPromise to a resolved promise to prevent further operations
-			this.restorationPromise = Promise.resolve();
-		}
+	// Make a validation run the active one, with its progress in the status bar until endValidation.
+	// Null while another run is active
+	beginValidation(): ValidationTask | null {
+		if (this.validationTask) return null;
+		this.validationTask = new ValidationTask();
+		this.validationStatusBar = new ValidationStatusBar(
+			this,
+			this.validationTask
+		);
+		return this.validationTask;
 	}
 
-	private async restoreTemporaryStateWithRetry(
-		maxAttempts: number
-	): Promise<void> {
-		for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-			try {
-				let fileName = this.app.workspace.getActiveFile()?.path;
-				// Check if we have a valid file name
-				if (!fileName) {
-					if (attempt < maxAttempts) {
-						const delayMs = 10 * Math.pow(2, attempt - 1);
-						console.debug(
-							`[AES] Attempt ${attempt}/${maxAttempts}: No active file found, retrying in ${delayMs}ms`
-						);
-						await this.delay(delayMs);
-						continue;
-					} else {
-						console.warn(
-							"[AES] No active file found after all retry attempts"
-						);
-						return;
-					}
-				}
+	endValidation(task: ValidationTask): void {
+		if (this.validationTask !== task) return;
+		this.validationTask = null;
+		this.validationStatusBar?.dispose();
+		this.validationStatusBar = undefined;
+	}
 
-				console.debug(
-					`[AES] Attempt ${attempt}/${maxAttempts} - restoreTemporaryState called for file:`,
-					fileName,
-					"loadingFile:",
-					this.loadingFile,
-					"lastLoadedFileName:",
-					this.lastLoadedFileName
-				);
+	getValidationTask(): ValidationTask | null {
+		return this.validationTask;
+	}
 
-				if (
-					fileName &&
-					this.loadingFile &&
-					this.lastLoadedFileName == fileName
-				) {
-					//if already started loading
-					console.debug("[AES] Already loading this file, skipping");
-					return;
-				}
+	// Between validation batches: report progress, give the app a moment and tell whether the run
+	// was cancelled
+	private async validationCheckpoint(
+		task: ValidationTask | undefined,
+		phase: ValidationPhase,
+		done: number,
+		total: number
+	): Promise<boolean> {
+		task?.update(phase, done, total);
+		if (done > 0) {
+			await this.delay(VALIDATION_BATCH_PAUSE);
+		}
+		return task?.cancelled ?? false;
+	}
 
-				// Simplified logic without leaf tracking to avoid API compatibility issues
-				this.loadingFile = true;
+	// Validate in the background at most once per autoValidationHours on this device
+	async runAutoValidation(): Promise<void> {
+		const hours = this.settings.autoValidationHours ?? 0;
+		if (hours <= 0 || this.validationTask) return;
+		const last: unknown = this.app.loadLocalStorage(VALIDATION_STORAGE_KEY);
+		if (
+			typeof last === "number" &&
+			Date.now() - last < hours * 60 * 60 * 1000
+		) {
+			return;
+		}
+		this.app.saveLocalStorage(VALIDATION_STORAGE_KEY, Date.now());
+		await this.validateDatabase(true);
+	}
 
-				if (this.lastLoadedFileName != fileName) {
-					console.debug(
-						"[AES] New file detected, preparing for state load"
+	// Debounced runAutoValidation for database changes, which mostly come from sync
+	requestAutoValidation() {
+		if (!this.settings.autoValidationHours) return;
+		if (!this.autoValidation) {
+			this.autoValidation = debounce(
+				() => {
+					void this.runAutoValidation().catch(e =>
+						console.error("[AES] Automatic validation failed:", e)
 					);
-					this.lastTemporaryState = null;
-					this.lastLoadedFileName = fileName;
-
-					let state: TemporaryState | null = null;
+				},
+				DELAY_AUTO_VALIDATION,
+				true
+			);
+		}
+		this.autoValidation();
+	}
 
-					if (fileName) {
-						state = await this.readFileState(fileName);
-						console.debug(
-							"[AES] Found state in database for file:",
-							fileName,
-							"State:",
-							state
-						);
-						if (state) {
-							console.debug(
-								"[AES] Calling setTemporaryState with:",
-								state
-							);
-							this.setTemporaryState(state);
-						} else {
-							console.debug(
-								"[AES] No state found in database for file:",
-								fileName
+	// Dry run of validation: inspect every entry and propose what to fix, remove or keep, without
+	// writing anything. Sync conflict copies are proposed for merging first. Entries are checked in
+	// concurrent batches; a cancelled task stops it with a ValidationCancelledError
+	async planValidation(task?: ValidationTask): Promise<ValidationReport> {
+		const report: ValidationReport = {
+			createdAt: Date.now(),
+			total: 0,
+			actions: [],
+			errors: 0,
+		};
+		const store = this.getStateStore();
+		for (const copy of (await store.listConflicts?.()) ?? []) {
+			report.actions.push({
+				kind: "fix",
+				problem: "conflict-copy",
+				key: copy.name,
+				detail: "Sync conflict copy, merged into the stored states",
+			});
+		}
+		// Notes that have a state, and entries whose note is gone
+		const claimed = new Set<string>();
+		const orphans = new Map<ValidationAction, Record<string, unknown>>();
+		const keys = await store.list();
+		for (
+			let start = 0;
+			start < keys.length;
+			start += VALIDATION_BATCH_SIZE
+		) {
+			if (
+				await this.validationCheckpoint(
+					task,
+					"check",
+					start,
+					keys.length
+				)
+			) {
+				throw new ValidationCancelledError();
+			}
+			const batch = keys.slice(start, start + VALIDATION_BATCH_SIZE);
+			const inspected = await Promise.all(
+				batch.map(key =>
+					this.inspectKey(key, claimed, orphans).catch(
+						(e: unknown): ValidationAction[] => {
+							if (e instanceof LockedEntryError) {
+								return [
+									{
+										kind: "keep",
+										problem: "locked",
+										key,
+										detail: "Encrypted with a passphrase not entered on this device",
+									},
+								];
+							}
+							console.error(
+								"[AES] Validation error for DB file:",
+								key,
+								e
 							);
+							report.errors++;
+							return [];
 						}
-					}
-					this.lastTemporaryState = state || null;
-				} else {
-					console.debug("[AES] Same file as before, not restoring");
-				}
+					)
+				)
+			);
+			// Recorded in key order whatever order the checks finished in
+			for (const actions of inspected) {
+				report.actions.push(...actions);
+			}
+			report.total += batch.length;
+		}
+		task?.update("check", keys.length, keys.length);
+
+		// Re-associate orphans with the notes they were probably moved to instead of removing them
+		for (const [action, target] of this.findMovedNotes(orphans, claimed)) {
+			action.kind = "fix";
+			action.problem = "moved-note";
+			action.target = target.path;
+			action.detail = `Moved to ${target.path}? ${target.reason}`;
+		}
+		return report;
+	}
 
-				this.loadingFile = false;
-				console.debug(
-					`[AES] restoreTemporaryState completed successfully on attempt ${attempt}`
+	// High-confidence matches between orphaned entries and notes without a state, by lock timestamp
+	// equal to the note's modification time, by file name (preferring the most shared folders) and by
+	// a similar file name in the same folder. Notes claimed by several orphans are left unmatched
+	private findMovedNotes(
+		orphans: Map<ValidationAction, Record<string, unknown>>,
+		claimed: Set<string>
+	): Map<ValidationAction, { path: string; reason: string }> {
+		const matches = new Map<
+			ValidationAction,
+			{ path: string; reason: string }
+		>();
+		if (orphans.size === 0) return matches;
+		const unclaimed = this.app.vault
+			.getFiles()
+			.filter(f => !claimed.has(f.path));
+
+		const wanted = new Map<string, number>();
+		for (const [action, entry] of orphans) {
+			const path = action.path!;
+			const candidates = unclaimed.filter(
+				f => fileExtension(f.path) === fileExtension(path)
+			);
+			let match: { path: string; reason: string } | null = null;
+			if (
+				entry.protected === true &&
+				typeof entry.timestamp === "number"
+			) {
+				const same = candidates.filter(
+					f => f.stat.mtime === entry.timestamp
 				);
-				return; // Success, exit retry loop
-			} catch (error) {
-				console.error(
-					`[AES] Attempt ${attempt}/${maxAttempts} failed:`,
-					error
+				if (same.length === 1) {
+					match = {
+						path: same[0].path,
+						reason: "Its lock timestamp matches the note's modification time",
+					};
+				}
+			}
+			if (!match) {
+				const name = path.slice(path.lastIndexOf("/") + 1);
+				const target = uniqueBest(
+					candidates.filter(f => f.name === name).map(f => f.path),
+					c => sharedTrailingSegments(c, path)
 				);
-				if (attempt < maxAttempts) {
-					const delayMs = 10 * Math.pow(2, attempt - 1);
-					console.debug(`[AES] Retrying in ${delayMs}ms...`);
-					await this.delay(delayMs);
-				} else {
-					// Reset loading state on final failure
-					this.loadingFile = false;
-					throw error;
+				if (target) match = { path: target, reason: "Same file name" };
+			}
+			if (!match) {
+				const similar = candidates.filter(
+					f =>
+						parentFolder(f.path) === parentFolder(path) &&
+						looseFileName(f.path) === looseFileName(path)
+				);
+				if (similar.length === 1) {
+					match = {
+						path: similar[0].path,
+						reason: "Similar file name in the same folder",
+					};
 				}
 			}
+			if (match) {
+				matches.set(action, match);
+				wanted.set(match.path, (wanted.get(match.path) ?? 0) + 1);
+			}
 		}
+		for (const [action, match] of matches) {
+			if (wanted.get(match.path)! > 1) matches.delete(action);
+		}
+		return matches;
 	}
 
-	getTemporaryState(): TemporaryState {
-		let state: TemporaryState = {};
-		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-
-		if (view) {
-			// Get the complete view state using official API
-			const viewState = view.getState();
-			state.viewState = { ...viewState, type: view.getViewType() };
+	// Proposed validation actions for the entries stored under one key. Notes with a state are added
+	// to `claimed`, entries of missing notes to `orphans`
+	private async inspectKey(
+		key: string,
+		claimed: Set<string>,
+		orphans: Map<ValidationAction, Record<string, unknown>>
+	): Promise<ValidationAction[]> {
+		const raw = await this.getStateStore().get(key);
+		if (raw === null) return [];
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(raw);
+		} catch {
+			return [
+				{
+					kind: "remove",
+					problem: "unreadable",
+					key,
+					detail: "Not valid JSON",
+				},
+			];
+		}
+		if (!isObject(parsed)) {
+			// Cannot correlate DB entry to a note
+			return [
+				{
+					kind: "remove",
+					problem: "unreadable",
+					key,
+					detail: "Not a state entry",
+				},
+			];
+		}
 
-			// Get scroll position with better error handling
-			const scrollPos = view.currentMode?.getScroll();
+		const actions: ValidationAction[] = [];
+		const entries = unpackEntries(parsed);
+		if (entries.length > 1) {
+			console.warn(
+				"[AES] Collision bucket found:",
+				key,
+				entries.map(e => e.path)
+			);
+			actions.push({
+				kind: "keep",
+				problem: "collision",
+				key,
+				detail: `Shared by ${entries.length} notes`,
+			});
+		}
+		for (const entry of entries) {
+			const path = entryNotePath(entry);
+			if (isNewerSchema(entry)) {
+				// Written by a newer plugin version: its rules may differ, keep verbatim
+				actions.push({
+					kind: "keep",
+					problem: "newer",
+					key,
+					path,
+					detail: `Written by a newer plugin version (schema ${entrySchemaVersion(entry)})`,
+				});
+				if (path) claimed.add(path);
+				continue;
+			}
+			if (!path) {
+				actions.push({
+					kind: "remove",
+					problem: "no-note",
+					key,
+					detail: "Does not name a note",
+				});
+				continue;
+			}
+			if (!(await this.app.vault.adapter.exists(path))) {
+				const action: ValidationAction = {
+					kind: "remove",
+					problem: "missing-note",
+					key,
+					path,
+					detail: "The note no longer exists",
+				};
+				actions.push(action);
+				orphans.set(action, entry);
+				continue;
+			}
+			claimed.add(path);
+			const repairs = entryRepairs(entry, path);
+			if (repairs.length > 0) {
+				actions.push({
+					kind: "fix",
+					problem: "repair",
+					key,
+					path,
+					repairs,
+					detail: repairs.map(r => ENTRY_REPAIRS[r]).join(", "),
+				});
+			}
+			const lines = hasPositions(entry)
+				? await this.noteLineLengths(path)
+				: null;
+			// Counted on a copy: the dry run must not touch the entry
+			const outside = lines
+				? clampEntryPositions(
+						JSON.parse(JSON.stringify(entry)) as Record<
+							string,
+							unknown
+						>,
+						lines
+					)
+				: 0;
+			if (outside > 0) {
+				actions.push({
+					kind: "fix",
+					problem: "position",
+					key,
+					path,
+					detail: `Positions outside the note: ${outside}`,
+				});
+			}
+		}
+		return actions;
+	}
+
+	// Apply selected validation actions. Entries are re-read, so changes since the dry run are kept,
+	// and notes that reappeared in the meantime keep their states. A cancelled task stops it between
+	// batches; keys already handled stay applied
+	async applyValidation(
+		selected: ValidationAction[],
+		task?: ValidationTask
+	): Promise<ValidationOutcome> {
+		const outcome: ValidationOutcome = {
+			fixed: 0,
+			removed: 0,
+			adopted: 0,
+			clamped: 0,
+			mergedConflicts: 0,
+			lockConflicts: 0,
+			errors: 0,
+			cancelled: false,
+		};
+		const copies = new Set(
+			selected.filter(a => a.problem === "conflict-copy").map(a => a.key)
+		);
+		if (copies.size > 0) {
+			try {
+				const resolution = await this.resolveConflictCopies(copies);
+				outcome.mergedConflicts = resolution.merged;
+				outcome.lockConflicts = resolution.lockConflicts.length;
+			} catch (e) {
+				console.error("[AES] Conflict copy merge failed:", e);
+				outcome.errors++;
+			}
+		}
+
+		const byKey = new Map<string, ValidationAction[]>();
+		for (const action of selected) {
+			if (action.kind === "keep" || action.problem === "conflict-copy") {
+				continue;
+			}
+			byKey.set(action.key, [...(byKey.get(action.key) ?? []), action]);
+		}
+		// One key at a time: adopting a moved note writes to the key of its new path
+		const keys = [...byKey];
+		for (const [index, [key, actions]] of keys.entries()) {
 			if (
-				scrollPos !== undefined &&
-				scrollPos !== null &&
-				!isNaN(scrollPos)
+				index % VALIDATION_BATCH_SIZE === 0 &&
+				(await this.validationCheckpoint(
+					task,
+					"apply",
+					index,
+					keys.length
+				))
 			) {
-				state.scroll = Number(scrollPos.toFixed(4));
-				console.debug("[AES] Current scroll position:", state.scroll);
-			} else {
-				console.debug(
-					"[AES] Could not get scroll position from view.currentMode"
-				);
-				// Try alternative method using editor scroll info
-				const editor = this.getEditor();
-				if (editor) {
-					const scrollInfo = editor.getScrollInfo();
-					if (scrollInfo && scrollInfo.top) {
-						state.scroll = Number(scrollInfo.top.toFixed(4));
-						console.debug(
-							"[AES] Got scroll from editor.getScrollInfo():",
-							state.scroll
-						);
-					}
+				outcome.cancelled = true;
+				break;
+			}
+			try {
+				await this.applyKeyActions(key, actions, outcome);
+			} catch (e) {
+				console.error("[AES] Validation error for DB file:", key, e);
+				outcome.errors++;
+			}
+		}
+		if (!outcome.cancelled) {
+			task?.update("apply", keys.length, keys.length);
+		}
+
+		// Entries may have been repaired or removed behind the cache
+		this.getStateCache().clear();
+		return outcome;
+	}
+
+	// Apply the actions selected for one key to its current content
+	private async applyKeyActions(
+		key: string,
+		actions: ValidationAction[],
+		outcome: ValidationOutcome
+	): Promise<void> {
+		const store = this.getStateStore();
+		const raw = await store.get(key);
+		if (raw === null) return;
+		let parsed: unknown = null;
+		try {
+			parsed = JSON.parse(raw);
+		} catch {
+			// Still unreadable
+		}
+		if (!isObject(parsed)) {
+			const unreadable = actions.filter(a => a.problem === "unreadable");
+			if (unreadable.length > 0) {
+				await this.quarantine(key, raw, unreadable);
+				await store.delete(key);
+				outcome.removed++;
+			}
+			return;
+		}
+
+		const entries = unpackEntries(parsed);
+		const kept: Record<string, unknown>[] = [];
+		const removed: Record<string, unknown>[] = [];
+		let changed = false;
+		for (const entry of entries) {
+			const path = entryNotePath(entry);
+			const selected = (problem: ValidationProblem) =>
+				actions.some(a => a.problem === problem && a.path === path);
+			if (isNewerSchema(entry)) {
+				kept.push(entry);
+				continue;
+			}
+			const move = actions.find(
+				a => a.problem === "moved-note" && a.path === path
+			);
+			if (
+				path &&
+				move?.target &&
+				!(await this.app.vault.adapter.exists(path)) &&
+				(await this.app.vault.adapter.exists(move.target))
+			) {
+				// Written under the target's key before leaving this one, so a failure never loses it
+				repairEntry(entry, move.target);
+				await this.putRecoveredEntry(move.target, entry);
+				outcome.adopted++;
+				changed = true;
+				continue;
+			}
+			if (
+				(!path && selected("no-note")) ||
+				(path &&
+					selected("missing-note") &&
+					!(await this.app.vault.adapter.exists(path)))
+			) {
+				removed.push(entry);
+				outcome.removed++;
+				changed = true;
+				continue;
+			}
+			if (path && selected("repair") && repairEntry(entry, path)) {
+				outcome.fixed++;
+				changed = true;
+			}
+			// Checked against the note as it is now, which may have changed since the dry run
+			const lines =
+				path && selected("position")
+					? await this.noteLineLengths(path)
+					: null;
+			const clamped = lines ? clampEntryPositions(entry, lines) : 0;
+			if (clamped > 0) {
+				outcome.clamped += clamped;
+				changed = true;
+			}
+			kept.push(entry);
+		}
+
+		// Set removed entries aside first, so a failed quarantine write leaves the key untouched
+		if (removed.length > 0) {
+			const paths = new Set(removed.map(entryNotePath));
+			await this.quarantine(
+				key,
+				JSON.stringify(packEntries(removed)),
+				actions.filter(
+					a =>
+						(a.problem === "no-note" ||
+							a.problem === "missing-note") &&
+						paths.has(a.path)
+				)
+			);
+		}
+		if (kept.length === 0) {
+			await store.delete(key);
+		} else if (changed) {
+			await store.put(key, JSON.stringify(packEntries(kept)));
+		}
+	}
+
+	// Line lengths of a markdown note, to check stored positions against. Null for other files
+	private async noteLineLengths(path: string): Promise<number[] | null> {
+		if (fileExtension(path) !== "md") return null;
+		const content = await this.app.vault.adapter.read(path);
+		return content.split(/\r\n|\r|\n/).map(line => line.length);
+	}
+
+	getQuarantineDir(): string {
+		return `${this.settings.dbDir}/${QUARANTINE_DIR}`;
+	}
+
+	// Whether validation sets removed entries aside. Only databases in the vault do: a quarantine
+	// folder would carry device-local (IndexedDB, memory) states into vault sync, so those are deleted
+	hasQuarantine(): boolean {
+		return isFileBackend(this.getStorageBackend());
+	}
+
+	// Move a stored value into today's quarantine folder together with a reason file. The value is
+	// encrypted like the database, so setting it aside never exposes plain entries
+	private async quarantine(
+		key: string,
+		data: string,
+		actions: ValidationAction[]
+	): Promise<void> {
+		if (!this.hasQuarantine()) return;
+		const adapter = this.app.vault.adapter;
+		const now = new Date();
+		const folder = `${this.getQuarantineDir()}/${now.toISOString().slice(0, 10)}`;
+		if (!(await adapter.exists(folder))) {
+			await adapter.mkdir(folder);
+		}
+		// The same key may be quarantined again on the same day
+		let name = key;
+		for (let n = 1; await adapter.exists(`${folder}/${name}.json`); n++) {
+			name = `${key}-${n}`;
+		}
+		const reason: QuarantineReason = {
+			key,
+			quarantinedAt: now.toISOString(),
+			reasons: actions.map(({ path, problem, detail }) => ({
+				path,
+				problem,
+				detail,
+			})),
+		};
+		// Sealed like the entry: reasons name the note
+		await adapter.write(
+			`${folder}/${name}${QUARANTINE_REASON_SUFFIX}`,
+			await this.sealQuarantined(JSON.stringify(reason, null, "\t"))
+		);
+		await adapter.write(
+			`${folder}/${name}.json`,
+			await this.sealQuarantined(data)
+		);
+	}
+
+	private async sealQuarantined(data: string): Promise<string> {
+		if (!this.settings.encryptionEnabled) return data;
+		const cipher = this.getStateCipher();
+		if (!cipher) {
+			throw new Error(
+				"[AES] Database is encrypted and no passphrase was entered on this device"
+			);
+		}
+		return cipher.encrypt(data);
+	}
+
+	// Validate quarantined entries again and write those whose note exists back to the database,
+	// keeping a newer state the note got in the meantime. Entries that still fail stay in quarantine
+	async restoreQuarantine(): Promise<QuarantineRestore> {
+		const result: QuarantineRestore = { restored: 0, kept: 0 };
+		const adapter = this.app.vault.adapter;
+		const root = this.getQuarantineDir();
+		if (!(await adapter.exists(root))) return result;
+
+		for (const folder of (await adapter.list(root)).folders) {
+			for (const file of (await adapter.list(folder)).files) {
+				if (
+					!file.endsWith(".json") ||
+					file.endsWith(QUARANTINE_REASON_SUFFIX)
+				) {
+					continue;
+				}
+				try {
+					await this.restoreQuarantined(file, result);
+				} catch (e) {
+					console.error(
+						"[AES] Cannot restore quarantined entry:",
+						file,
+						e
+					);
+					result.kept++;
 				}
 			}
-			console.debug("[AES] Current view state:", state.viewState);
+			if ((await adapter.list(folder)).files.length === 0) {
+				await adapter.rmdir(folder, false);
+			}
 		}
+		return result;
+	}
 
-		let editor = this.getEditor();
-		if (editor) {
-			let start = editor.getCursor("anchor");
-			let end = editor.getCursor("head");
-			if (start && end) {
-				state.cursor = {
-					start: {
-						col: start.ch,
-						line: start.line,
-					},
-					end: {
-						col: end.ch,
-						line: end.line,
-					},
-				};
+	private async restoreQuarantined(
+		file: string,
+		result: QuarantineRestore
+	): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		const store = this.getStateStore();
+		const sealed = await adapter.read(file);
+		const data =
+			store instanceof EncryptedStateStore
+				? await store.decode(sealed)
+				: sealed;
+		let parsed: unknown = null;
+		try {
+			parsed = JSON.parse(data);
+		} catch {
+			// Still unreadable
+		}
+		if (!isObject(parsed)) {
+			result.kept++;
+			return;
+		}
+
+		const remaining: Record<string, unknown>[] = [];
+		for (const entry of unpackEntries(parsed)) {
+			const path = entryNotePath(entry);
+			if (!path || !(await adapter.exists(path))) {
+				remaining.push(entry);
+				continue;
 			}
+			if (!isNewerSchema(entry)) repairEntry(entry, path);
+			await this.putRecoveredEntry(path, entry);
+			result.restored++;
 		}
 
-		return state;
+		result.kept += remaining.length;
+		if (remaining.length > 0) {
+			await adapter.write(
+				file,
+				await this.sealQuarantined(
+					JSON.stringify(packEntries(remaining))
+				)
+			);
+			return;
+		}
+		await adapter.remove(file);
+		const reasonFile =
+			file.slice(0, -".json".length) + QUARANTINE_REASON_SUFFIX;
+		if (await adapter.exists(reasonFile)) {
+			await adapter.remove(reasonFile);
+		}
 	}
 
-	setTemporaryState(state: TemporaryState) {
-		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-		console.debug(
-			"[AES] setTemporaryState called with state:",
-			state,
-			"View found:",
-			!!view
+	// Store an entry recovered for a note, keeping a newer state the note already has
+	private async putRecoveredEntry(
+		path: string,
+		entry: Record<string, unknown>
+	): Promise<void> {
+		const store = this.getStateStore();
+		const key = await this.getFileHash(path);
+		const recovered = JSON.stringify(entry);
+		const existing = await store.get(key);
+		await store.put(
+			key,
+			existing === null
+				? recovered
+				: mergeSerializedEntries(existing, recovered)
+		);
+		this.getStateCache().invalidateKey(key);
+	}
+
+	// Restore quarantined entries with a summary notice
+	async runQuarantineRestore(): Promise<void> {
+		try {
+			const result = await this.restoreQuarantine();
+			new Notice(
+				`[AES] Quarantine restored. States: ${result.restored}, still invalid: ${result.kept}`
+			);
+		} catch (e) {
+			console.error("[AES] Quarantine restore failed:", e);
+			new Notice("Restoring quarantined states failed.");
+		}
+	}
+
+	// Remove quarantine folders older than quarantineDays; returns how many were removed
+	async purgeQuarantine(): Promise<number> {
+		const days = this.settings.quarantineDays ?? DEFAULT_QUARANTINE_DAYS;
+		const adapter = this.app.vault.adapter;
+		const root = this.getQuarantineDir();
+		if (days <= 0 || !(await adapter.exists(root))) return 0;
+		const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+		let purged = 0;
+		for (const folder of (await adapter.list(root)).folders) {
+			// Folders are named after the day their entries were quarantined
+			const day = Date.parse(folder.slice(folder.lastIndexOf("/") + 1));
+			if (Number.isNaN(day) || day >= cutoff) continue;
+			await adapter.rmdir(folder, true);
+			purged++;
+		}
+		return purged;
+	}
+
+	// Apply the selected validation actions with a summary notice
+	async runValidation(selected: ValidationAction[]): Promise<void> {
+		const task = this.beginValidation();
+		if (!task) {
+			new Notice("Validation is already running.");
+			return;
+		}
+		try {
+			const outcome = await this.applyValidation(selected, task);
+			const status = outcome.cancelled ? "cancelled" : "applied";
+			new Notice(
+				`[AES] Validation ${status}. Fixed: ${outcome.fixed}, removed: ${outcome.removed}, re-associated: ${outcome.adopted}, clamped positions: ${outcome.clamped}, merged conflict copies: ${outcome.mergedConflicts}, errors: ${outcome.errors}`
+			);
+		} catch (e) {
+			console.error("[AES] Error validating database:", e);
+			new Notice("Validation failed.");
+		} finally {
+			this.endValidation(task);
+		}
+	}
+
+	// Save a validation report as a markdown note in the vault root; returns its path
+	async exportValidationReport(
+		report: ValidationReport,
+		selected: ValidationAction[]
+	): Promise<string> {
+		const date = new Date(report.createdAt).toISOString().slice(0, 10);
+		const path = await this.availablePath(
+			`Validation report ${date}`,
+			"md"
+		);
+		await this.app.vault.create(
+			path,
+			validationReportMarkdown(report, new Set(selected))
+		);
+		return path;
+	}
+
+	// First of "<name>.<extension>", "<name> 1.<extension>", ... not taken in the vault, so exports never
+	// replace a note or an earlier export
+	private async availablePath(
+		name: string,
+		extension: string
+	): Promise<string> {
+		const adapter = this.app.vault.adapter;
+		let path = `${name}.${extension}`;
+		for (let n = 1; await adapter.exists(path); n++) {
+			path = `${name} ${n}.${extension}`;
+		}
+		return path;
+	}
+
+	// Background recordOpen for a note just restored
+	private stampOpen(filePath: string) {
+		void this.recordOpen(filePath).catch(e =>
+			console.error("[AES] Recording note open failed:", e)
+		);
+	}
+
+	// Stamp when a note with a stored state was opened; retention measures staleness from it. Each
+	// note is stamped at most once per OPEN_STAMP_INTERVAL
+	async recordOpen(filePath: string): Promise<void> {
+		const now = Date.now();
+		if (now - (this.openStamps.get(filePath) ?? 0) < OPEN_STAMP_INTERVAL) {
+			return;
+		}
+		this.openStamps.set(filePath, now);
+		const key = await this.getFileHash(filePath);
+		const entries = await this.readEntries(key);
+		const entry = entries?.find(e => ownsEntry(e, filePath));
+		if (!entries || !entry || isNewerSchema(entry)) return;
+		if (now - entryLastUsed(entry) < OPEN_STAMP_INTERVAL) return;
+		entry.openedAt = now;
+		await this.getStateStore().put(
+			key,
+			JSON.stringify(packEntries(entries))
+		);
+	}
+
+	// Retention: drop cursor and scroll of notes not opened for retentionDays, then forget the least
+	// recently used states above maxEntries. Locked notes, the open note and entries from a newer
+	// plugin version are never touched. Pauses between batches so large databases do not stall the app
+	async collectStaleStates(): Promise<StaleStateCollection> {
+		const result: StaleStateCollection = {
+			examined: 0,
+			trimmed: 0,
+			removed: 0,
+		};
+		const retentionDays = this.settings.retentionDays ?? 0;
+		const maxEntries = this.settings.maxEntries ?? 0;
+		if (retentionDays <= 0 && maxEntries <= 0) return result;
+
+		const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+		const store = this.getStateStore();
+		const collectable: { key: string; path: string; lastUsed: number }[] =
+			[];
+		const keys = await store.list();
+		for (const [index, key] of keys.entries()) {
+			if (index > 0 && index % COLLECTION_BATCH_SIZE === 0) {
+				await this.delay(COLLECTION_BATCH_PAUSE);
+			}
+			let entries: Record<string, unknown>[] | null;
+			try {
+				entries = await this.readEntries(key);
+			} catch {
+				// Encrypted with a passphrase missing on this device
+				continue;
+			}
+			if (!entries) continue;
+			let changed = false;
+			for (const entry of entries) {
+				result.examined++;
+				const path = entry.path;
+				if (
+					typeof path !== "string" ||
+					isNewerSchema(entry) ||
+					entry.protected === true ||
+					path === this.lastLoadedFileName
+				) {
+					continue;
+				}
+				const lastUsed = entryLastUsed(entry);
+				if (
+					retentionDays > 0 &&
+					lastUsed < cutoff &&
+					dropPositions(entry)
+				) {
+					result.trimmed++;
+					changed = true;
+				}
+				collectable.push({ key, path, lastUsed });
+			}
+			if (changed) {
+				await store.put(key, JSON.stringify(packEntries(entries)));
+				this.getStateCache().invalidateKey(key);
+			}
+		}
+
+		if (maxEntries > 0 && result.examined > maxEntries) {
+			collectable.sort((a, b) => a.lastUsed - b.lastUsed);
+			for (const { key, path } of collectable.slice(
+				0,
+				result.examined - maxEntries
+			)) {
+				await this.removeEntry(key, path);
+				result.removed++;
+			}
+		}
+		return result;
+	}
+
+	// Collect stale states and report the outcome. On startup this runs at most once per
+	// COLLECTION_INTERVAL on this device and only shows a notice when something was collected
+	async runStaleStateCollection(onStartup = false): Promise<void> {
+		if (onStartup) {
+			if (!this.settings.retentionDays && !this.settings.maxEntries) {
+				return;
+			}
+			const last: unknown = this.app.loadLocalStorage(
+				COLLECTION_STORAGE_KEY
+			);
+			if (
+				typeof last === "number" &&
+				Date.now() - last < COLLECTION_INTERVAL
+			) {
+				return;
+			}
+			this.app.saveLocalStorage(COLLECTION_STORAGE_KEY, Date.now());
+		}
+		try {
+			const result = await this.collectStaleStates();
+			console.debug("[AES] Stale state collection report", result);
+			if (!onStartup || result.trimmed + result.removed > 0) {
+				new Notice(
+					`[AES] Stale states collected. Checked: ${result.examined}, positions dropped: ${result.trimmed}, removed: ${result.removed}`
+				);
+			}
+		} catch (e) {
+			console.error("[AES] Stale state collection failed:", e);
+			if (!onStartup) {
+				new Notice(
+					"Stale state collection failed, see the console for details"
+				);
+			}
+		}
+	}
+
+	// Every stored state keyed by its note path. Entries from a newer plugin version are left out;
+	// entries encrypted with a passphrase missing here fail the export rather than leaving gaps
+	async exportArchive(): Promise<StateArchive> {
+		const states: Record<string, TemporaryState> = {};
+		const store = this.getStateStore();
+		for (const key of await store.list()) {
+			for (const entry of (await this.readEntries(key)) ?? []) {
+				if (typeof entry.path !== "string" || isNewerSchema(entry)) {
+					continue;
+				}
+				migrateEntry(entry);
+				const state = toTemporaryState(entry);
+				// Only meaningful for the note file it was taken from
+				delete state.frontmatterMtime;
+				states[entry.path] = {
+					...state,
+					fieldUpdatedAt: entryFieldTimes(entry),
+				};
+			}
+		}
+		return {
+			format: ARCHIVE_FORMAT,
+			pluginVersion: this.manifest.version,
+			schemaVersion: SCHEMA_VERSION,
+			exportedAt: Date.now(),
+			states,
+		};
+	}
+
+	// Write the archive to the vault root; returns its path and the number of states
+	async exportArchiveFile(): Promise<{ path: string; count: number }> {
+		const archive = await this.exportArchive();
+		const date = new Date(archive.exportedAt).toISOString().slice(0, 10);
+		const path = await this.availablePath(
+			`anti-ephemeral-state-${date}`,
+			"json"
 		);
+		await this.app.vault.create(path, JSON.stringify(archive, null, "\t"));
+		return { path, count: Object.keys(archive.states).length };
+	}
+
+	// Import a serialized archive through writeFileState, remapping note paths first. "merge" keeps
+	// the newest value per field, "overwrite" replaces existing states, "skip" leaves notes that have
+	// one alone. States of notes missing from the vault are not imported
+	async importArchive(
+		data: string,
+		mode: ArchiveImportMode,
+		remaps: PathRemap[] = []
+	): Promise<ArchiveImport> {
+		const archive = JSON.parse(data) as unknown;
+		if (
+			!isObject(archive) ||
+			archive.format !== ARCHIVE_FORMAT ||
+			!isObject(archive.states)
+		) {
+			throw new Error("Not a state archive");
+		}
+		const version =
+			typeof archive.schemaVersion === "number"
+				? archive.schemaVersion
+				: 1;
+		if (version > SCHEMA_VERSION) {
+			throw new Error("Archive was written by a newer plugin version");
+		}
+
+		const result: ArchiveImport = { imported: 0, skipped: 0, missing: 0 };
+		for (const [path, state] of Object.entries(archive.states)) {
+			if (!isObject(state)) {
+				result.skipped++;
+				continue;
+			}
+			const target = normalizePath(remapPath(path, remaps));
+			if (!(await this.app.vault.adapter.exists(target))) {
+				result.missing++;
+				continue;
+			}
+			const existing = await this.readFileState(target);
+			if (existing && mode === "skip") {
+				result.skipped++;
+				continue;
+			}
+			const entry: Record<string, unknown> = {
+				...state,
+				schemaVersion: version,
+			};
+			migrateEntry(entry);
+			if (isObject(entry.viewState)) {
+				entry.viewState = { ...entry.viewState, file: target };
+			}
+			const imported = toTemporaryState(entry);
+			if (isObject(state.fieldUpdatedAt)) {
+				imported.fieldUpdatedAt = state.fieldUpdatedAt;
+			}
+			if (existing && mode === "overwrite") {
+				await this.removeEntry(await this.getFileHash(target), target);
+			}
+			await this.writeFileState(target, imported);
+			result.imported++;
+		}
+		return result;
+	}
+
+	// Sort the states an importer (see STATE_IMPORTERS) read from its data into new positions,
+	// conflicts with stored positions and skipped entries, without writing anything
+	async planImport(importerId: string, data: string): Promise<ImportPlan> {
+		const importer = STATE_IMPORTERS.find(i => i.id === importerId);
+		if (!importer) throw new Error(`Unknown importer: ${importerId}`);
+		const plan: ImportPlan = {
+			create: new Map(),
+			conflict: new Map(),
+			skipped: 0,
+		};
+		for (const [path, state] of importer.parse(data)) {
+			const notePath = normalizePath(path);
+			if (!state || !(await this.app.vault.adapter.exists(notePath))) {
+				plan.skipped++;
+				continue;
+			}
+			const existing = await this.readFileState(notePath);
+			const target =
+				existing?.cursor !== undefined || existing?.scroll !== undefined
+					? plan.conflict
+					: plan.create;
+			target.set(notePath, state);
+		}
+		return plan;
+	}
+
+	// Write a planned import through writeFileState; conflicting notes keep their stored position
+	// unless replaceConflicts is set. Imported positions count as this device's own
+	async applyImport(
+		plan: ImportPlan,
+		replaceConflicts: boolean
+	): Promise<number> {
+		const states = [
+			...plan.create,
+			...(replaceConflicts ? plan.conflict : []),
+		];
+		const now = Date.now();
+		for (const [path, state] of states) {
+			await this.writeFileState(path, {
+				...state,
+				devices: {
+					[this.getDeviceId()]: {
+						cursor: state.cursor,
+						scroll: state.scroll,
+						updatedAt: now,
+					},
+				},
+			});
+		}
+		return states.length;
+	}
+
+	// Export the archive with user-facing notices
+	async runArchiveExport(): Promise<void> {
+		try {
+			const { path, count } = await this.exportArchiveFile();
+			new Notice(`[AES] ${count} states exported to ${path}`);
+		} catch (e) {
+			console.error("[AES] Archive export failed:", e);
+			new Notice("Export failed, see the console for details");
+		}
+	}
+
+	async onload() {
+		// Initialize DEFAULT_SETTINGS with access to this.app
+		this.DEFAULT_SETTINGS = {
+			dbDir:
+				this.app.vault.configDir + "/plugins/anti-ephemeral-state/db",
+			lockModeEnabled: true,
+		};
+
+		await this.loadSettings();
+
+		// Ensure database directory exists (state persistence root)
+		try {
+			if (!(await this.app.vault.adapter.exists(this.settings.dbDir))) {
+				await this.app.vault.adapter.mkdir(this.settings.dbDir);
+				console.debug(
+					"[AES] Created database directory:",
+					this.settings.dbDir
+				);
+			}
+		} catch (e) {
+			console.error("[AES] Error creating database directory:", e);
+		}
+
+		this.addSettingTab(new SettingTab(this.app, this));
+		this.registerStorageCommands();
+		this.registerEncryptionCommands();
+		await this.loadStateCipher();
+		if (this.settings.encryptionEnabled && !this.getStateCipher()) {
+			new Notice(
+				"Note states are encrypted, enter the passphrase in settings to restore them on this device"
+			);
+		}
+
+		// Initialize Lock Mode status bar
+		if (this.settings.lockModeEnabled !== false) {
+			this.lockStatusBar = new LockStatusBar(this);
+			this.checksumIntegrity = new ChecksumIntegrity(this);
+			this.lockManager = new LockManager(this);
+			this.registerLockCommand();
+		}
+
+		this.registerEvent(
+			this.app.workspace.on("file-open", file => {
+				if (!file) return;
+
+				this.flushOutgoingSaves(file.path);
+				this.loadingFile = true;
+				this.lastLoadedFileName = file.path;
+
+				// Use layout-change event to ensure DOM is ready
+				const layoutChangeHandler = async () => {
+					// Get the current active file instead of using the file from closure
+					const activeLeaf =
+						this.app.workspace.getActiveViewOfType(MarkdownView);
+					const currentFile = activeLeaf?.file;
+
+					// Only proceed if current file matches the file that triggered the event
+					if (!currentFile || currentFile.path !== file.path) {
+						console.debug(
+							"[AES] Layout change - file mismatch, expected:",
+							file.path,
+							"current:",
+							currentFile?.path,
+							"- skipping restoration"
+						);
+						this.loadingFile = false;
+						this.app.workspace.off(
+							"layout-change",
+							layoutChangeHandler
+						);
+						return;
+					}
+
+					const state = await this.readFileState(file.path);
+					console.debug(
+						"[AES] Layout change detected for file:",
+						file.path,
+						"State found:",
+						!!state
+					);
+					if (state) {
+						// Integrity check with mtime if Lock Mode is enabled and timestamp is present
+						let integrityMismatch = false;
+						if (
+							this.settings.lockModeEnabled !== false &&
+							this.checksumIntegrity &&
+							typeof state.timestamp === "number"
+						) {
+							try {
+								const ok =
+									await this.checksumIntegrity.verifyFileIntegrity(
+										file.path,
+										state.timestamp,
+										state.frontmatterMtime
+									);
+								if (!ok) {
+									integrityMismatch = true;
+									console.warn(
+										"[AES] Integrity mismatch detected for",
+										file.path
+									);
+								}
+							} catch (e) {
+								console.error(
+									"[AES] Integrity check failed:",
+									e
+								);
+							}
+						}
+
+						// Update lock icon according to saved state and integrity
+						if (this.lockStatusBar) {
+							const iconState = integrityMismatch
+								? "corrupted"
+								: state.protected
+									? "locked"
+									: "unlocked";
+							this.lockStatusBar.updateIcon(iconState);
+						}
+						console.debug(
+							"[AES] Attempting to restore position:",
+							state
+						);
+						if (activeLeaf) {
+							await this.app.workspace.revealLeaf(
+								activeLeaf.leaf
+							);
+							console.debug(
+								"[AES] Calling setTemporaryState directly with state:",
+								state
+							);
+							this.setTemporaryState(
+								this.positionForDevice(state)
+							);
+							this.setRemoteBaseline(file.path, state);
+							this.offerHandoff(file.path, state);
+							this.stampOpen(file.path);
+						}
+						this.loadingFile = false;
+					} else {
+						console.debug(
+							"[AES] No saved state found for file:",
+							file.path
+						);
+						// No state -> show unlocked icon
+						if (this.lockStatusBar) {
+							this.lockStatusBar.updateIcon("unlocked");
+						}
+						this.loadingFile = false;
+					}
+					// Remove the one-time handler
+					this.app.workspace.off(
+						"layout-change",
+						layoutChangeHandler
+					);
+				};
+
+				// Register one-time layout-change handler
+				this.app.workspace.on("layout-change", layoutChangeHandler);
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				void this.renameFile(file, oldPath);
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on("delete", file => {
+				void this.deleteFile(file);
+			})
+		);
+
+		// "raw" reports every file system change, including the config folder the database usually lives in
+		this.registerEvent(
+			(this.app.vault as unknown as RawChangeEvents).on("raw", path =>
+				this.onDatabaseChange(path)
+			)
+		);
+
+		// Lock status and view mode may be edited (or synced) in the open note's frontmatter
+		this.registerEvent(
+			this.app.metadataCache.on("changed", file => {
+				if (
+					this.getFrontmatterProperties() &&
+					file.path === this.lastLoadedFileName
+				) {
+					this.requestRemoteCheck();
+				}
+			})
+		);
+
+		// Event-driven approach: listen to editor changes
+		this.registerEvent(
+			this.app.workspace.on("editor-change", () => this.onEditorChange())
+		);
+
+		// Listen to layout changes for scroll events
+		this.registerEvent(
+			this.app.workspace.on("layout-change", () => this.onLayoutChange())
+		);
+
+		// Listen to active leaf changes
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", () => {
+				this.onActiveLeafChange();
+			})
+		);
+
+		// Setup DOM event listeners for scroll and cursor events
+		this.setupDOMEventListeners();
+
+		// Initialize per-note save queue (debounced with Obsidian's debounce)
+		this.saveQueue = new SaveQueue(this);
+
+		// Window close: Obsidian awaits quit tasks, so pending positions are written first
+		this.registerEvent(
+			this.app.workspace.on("quit", tasks => {
+				tasks.add(() => this.saveQueue.flushAll());
+			})
+		);
+
+		// Raw vault events are desktop-only: poll the open note's database file on mobile
+		if (Platform.isMobile) {
+			this.registerInterval(
+				window.setInterval(
+					() => void this.pollDatabase(),
+					REMOTE_POLL_INTERVAL
+				)
+			);
+		}
+
+		void this.restoreTemporaryState();
+
+		// Rewrite legacy entry keys in the background once the workspace is ready
+		this.app.workspace.onLayoutReady(() => {
+			void this.migrateLegacyKeys()
+				.catch(e =>
+					console.error("[AES] Legacy key migration failed:", e)
+				)
+				.then(() => this.resolveConflictCopies())
+				.catch(e =>
+					console.error("[AES] Conflict copy merge failed:", e)
+				)
+				.then(() => this.runStaleStateCollection(true))
+				.then(() => this.runAutoValidation())
+				.catch(e =>
+					console.error("[AES] Automatic validation failed:", e)
+				)
+				.then(() => this.purgeQuarantine())
+				.catch(e => console.error("[AES] Quarantine purge failed:", e));
+		});
+	}
+
+	async renameFile(file: TAbstractFile, oldPath: string) {
+		try {
+			const oldKey = await this.getFileHash(oldPath);
+			const stored = (await this.readEntries(oldKey))?.find(e =>
+				ownsEntry(e, oldPath)
+			);
+			if (stored && isNewerSchema(stored)) {
+				// Carry entries of newer plugin versions over verbatim, only the owner changes
+				if (
+					await this.putOwnedEntry(file.path, () => ({
+						...stored,
+						path: file.path,
+					}))
+				) {
+					await this.removeEntry(oldKey, oldPath);
+				}
+				this.getStateCache().invalidate(file.path);
+				return;
+			}
+
+			// Read state from old database entry
+			const oldState = await this.readFileState(oldPath);
+			if (oldState) {
+				// Point the carried view state at the new location
+				const viewState = oldState.viewState as
+					| MinimalViewState
+					| undefined;
+				if (typeof viewState?.file === "string") {
+					oldState.viewState = {
+						...oldState.viewState,
+						file: file.path,
+					} as ViewState;
+				}
+				// Write to new database entry
+				await this.writeFileState(file.path, oldState);
+				// Delete old database entry
+				await this.removeEntry(oldKey, oldPath);
+			}
+		} catch (e) {
+			console.error("[AES] Error renaming file database:", e);
+		}
+	}
+
+	async deleteFile(file: TAbstractFile) {
+		try {
+			await this.removeEntry(
+				await this.getFileHash(file.path),
+				file.path
+			);
+			// Also drop an entry that was never migrated to the SHA-256 key
+			await this.removeEntry(
+				this.getLegacyFileHash(file.path),
+				file.path
+			);
+			console.debug("[AES] Deleted database entry for:", file.path);
+		} catch (e) {
+			console.error("[AES] Error deleting file database:", e);
+		}
+	}
+
+	// Event handlers for the new event-driven approach
+	onEditorChange() {
+		this.checkTemporaryStateChanged();
+	}
+
+	onLayoutChange() {
+		this.checkTemporaryStateChanged();
+	}
+
+	onActiveLeafChange() {
+		this.flushOutgoingSaves(this.app.workspace.getActiveFile()?.path);
+		this.checkTemporaryStateChanged();
+	}
+
+	// Persist pending saves of notes being left so a later save of another note cannot delay them
+	flushOutgoingSaves(nextPath?: string) {
+		if (this.saveQueue) {
+			void this.saveQueue.flushExcept(nextPath);
+		}
+	}
+
+	// Setup DOM event listeners for scroll and cursor events
+	setupDOMEventListeners() {
+		// Listen to mouse events for cursor position changes
+		this.registerDomEvent(document, "mouseup", () => {
+			this.checkTemporaryStateChanged();
+		});
+
+		// Listen to keyboard events for cursor position changes
+		this.registerDomEvent(document, "keyup", evt => {
+			// Only track navigation keys and selection changes
+			if (
+				[
+					"ArrowUp",
+					"ArrowDown",
+					"ArrowLeft",
+					"ArrowRight",
+					"Home",
+					"End",
+					"PageUp",
+					"PageDown",
+				].includes(evt.key)
+			) {
+				this.checkTemporaryStateChanged();
+			}
+		});
+
+		// Setup scroll event listeners on workspace container
+		this.setupScrollEventListeners();
+	}
+
+	// Setup scroll event listeners on the workspace container
+	setupScrollEventListeners() {
+		// Wait for workspace to be ready, then attach scroll listeners
+		this.app.workspace.onLayoutReady(() => {
+			this.attachScrollListeners();
+		});
+	}
+
+	// Attach scroll listeners to the appropriate DOM elements
+	attachScrollListeners() {
+		// Prevent multiple attachments
+		if (this.scrollListenersAttached) {
+			console.debug("[AES] Scroll listeners already attached, skipping");
+			return;
+		}
+
+		// Find the main workspace container
+		const workspaceEl = document.querySelector(".workspace");
+		if (workspaceEl) {
+			console.debug("[AES] Attaching scroll listener to workspace");
+			this.registerDomEvent(
+				workspaceEl as HTMLElement,
+				"scroll",
+				() => {
+					this.checkTemporaryStateChanged();
+				},
+				{ passive: true, capture: true }
+			);
+		}
+
+		// Also listen to scroll events on the main content area
+		const contentEl = document.querySelector(".workspace-leaf-content");
+		if (contentEl) {
+			console.debug("[AES] Attaching scroll listener to content area");
+			this.registerDomEvent(
+				contentEl as HTMLElement,
+				"scroll",
+				() => {
+					this.checkTemporaryStateChanged();
+				},
+				{ passive: true, capture: true }
+			);
+		}
+
+		// Listen to scroll events on the editor container specifically
+		const editorEl = document.querySelector(".cm-editor");
+		if (editorEl) {
+			console.debug("[AES] Attaching scroll listener to editor");
+			this.registerDomEvent(
+				editorEl as HTMLElement,
+				"scroll",
+				() => {
+					this.checkTemporaryStateChanged();
+				},
+				{ passive: true, capture: true }
+			);
+		}
+
+		// Fallback: listen to scroll events on document body
+		this.registerDomEvent(
+			document.body,
+			"scroll",
+			() => {
+				this.checkTemporaryStateChanged();
+			},
+			{ passive: true, capture: true }
+		);
+
+		// Mark listeners as attached
+		this.scrollListenersAttached = true;
+		console.debug("[AES] All scroll listeners attached successfully");
+	}
+
+	// Override onunload to cleanup
+	onunload() {
+		// Write pending saves instead of dropping them; the adapter outlives the plugin
+		if (this.saveQueue) {
+			void this.saveQueue.flushAll();
+		}
+		this.conflictResolver?.cancel();
+		this.remoteCheck?.cancel();
+		this.autoValidation?.cancel();
+		this.validationTask?.cancel();
+		this.validationStatusBar?.dispose();
+		// Reset scroll listeners flag for clean reload
+		this.scrollListenersAttached = false;
+		this.unregisterLockCommand();
+		super.onunload();
+	}
+
+	checkTemporaryStateChanged() {
+		requestAnimationFrame(() => {
+			void (async () => {
+				// Wait for any ongoing restoration to complete
+				if (this.restorationPromise) {
+					await this.restorationPromise;
+				}
+				// Minimal lock-mode enforcement hook before we compute/save state
+				const activePath = this.app.workspace.getActiveFile()?.path;
+				if (
+					activePath &&
+					this.settings.lockModeEnabled !== false &&
+					this.lockManager
+				) {
+					try {
+						await this.lockManager.enforceReadOnlyMode(activePath);
+					} catch (e) {
+						console.warn("[AES] enforceReadOnlyMode failed:", e);
+					}
+				}
+
+				this.performStateCheck();
+			})();
+		});
+	}
+
+	performStateCheck() {
+		let fileName = this.app.workspace.getActiveFile()?.path;
+
+		// waiting for the new file to finish loading
+		if (
+			!fileName ||
+			!this.lastLoadedFileName ||
+			fileName != this.lastLoadedFileName ||
+			this.loadingFile
+		)
+			return;
+
+		let state = this.getTemporaryState();
+
+		// Don't save empty/meaningless states
+		const isEmptyState = (state: TemporaryState) => {
+			return (
+				Object.keys(state).length === 0 ||
+				(!state.cursor && !state.scroll && !state.viewState)
+			);
+		};
+
+		if (isEmptyState(state)) {
+			console.debug("[AES] Skipping save of empty state");
+			return;
+		}
+
+		if (!this.lastTemporaryState) this.lastTemporaryState = state;
+
+		if (!this.TemporaryStatesSame(state, this.lastTemporaryState)) {
+			void this.saveTemporaryState(state);
+			// Update last known state
+			this.lastTemporaryState = state;
+		}
+	}
+
+	TemporaryStatesSame(
+		left: TemporaryState | null,
+		right: TemporaryState | null
+	): boolean {
+		// Handle null/empty states
+		if (!left && !right) return true;
+		if (!left || !right) return false;
+
+		// Check if both states are effectively empty
+		const isEmptyState = (state: TemporaryState) => {
+			return (
+				Object.keys(state).length === 0 ||
+				(!state.cursor && !state.scroll && !state.viewState)
+			);
+		};
+
+		const leftEmpty = isEmptyState(left);
+		const rightEmpty = isEmptyState(right);
+
+		if (leftEmpty && rightEmpty) return true;
+		if (leftEmpty !== rightEmpty) return false;
+		// Cursor presence symmetry
+		const leftHasCursor = !!left.cursor;
+		const rightHasCursor = !!right.cursor;
+		if (leftHasCursor !== rightHasCursor) return false;
+
+		// Cursor comparing
+		if (leftHasCursor) {
+			const lc = left.cursor!;
+			const rc = right.cursor!;
+			if (lc.start.col !== rc.start.col) return false;
+			if (lc.start.line !== rc.start.line) return false;
+			if (lc.end.col !== rc.end.col) return false;
+			if (lc.end.line !== rc.end.line) return false;
+		}
+
+		// Scroll presence symmetry
+		const leftHasScroll = !!left.scroll;
+		const rightHasScroll = !!right.scroll;
+		if (leftHasScroll !== rightHasScroll) return false;
+
+		// Scroll equality
+		if (leftHasScroll && left.scroll !== right.scroll) return false;
+
+		// View state deep structural equality via JSON representation
+		if (JSON.stringify(left.viewState) !== JSON.stringify(right.viewState))
+			return false;
+
+		return true;
+	}
+
+	async saveTemporaryState(state: TemporaryState) {
+		let fileName = this.app.workspace.getActiveFile()?.path;
+		console.debug(
+			"[AES] saveTemporaryState called, fileName:",
+			fileName,
+			"lastLoadedFileName:",
+			this.lastLoadedFileName
+		);
+		if (fileName && fileName == this.lastLoadedFileName) {
+			//do not save if file changed or was not loaded
+			console.debug(
+				"[AES] Saving state for file:",
+				fileName,
+				"State:",
+				state
+			);
+			// Preserve Lock Mode fields from existing persisted state to avoid accidental overwrite
+			let merged: TemporaryState = state;
+			try {
+				const existing = await this.readFileState(fileName);
+				if (existing) {
+					merged = {
+						...existing, // keep protected/timestamp and previous fields
+						...state, // override cursor/scroll/viewState from fresh capture
+					};
+					// Explicitly carry over lock fields if present to avoid undefined defaults
+					if (typeof existing.protected === "boolean") {
+						merged.protected = existing.protected;
+					}
+					if (
+						existing.timestamp === null ||
+						typeof existing.timestamp === "number"
+					) {
+						merged.timestamp = existing.timestamp;
+					}
+				} else if (this.lastTemporaryState) {
+					// Use in-memory last state as a fallback source of lock fields
+					merged = {
+						...state,
+						protected: this.lastTemporaryState.protected,
+						timestamp: this.lastTemporaryState.timestamp,
+					};
+				}
+			} catch (e) {
+				console.warn(
+					"[AES] Failed to merge existing state, proceeding:",
+					e
+				);
+			}
+
+			const now = Date.now();
+			// Record this device's position next to the shared most recent one
+			merged.devices = {
+				...merged.devices,
+				[this.getDeviceId()]: {
+					cursor: state.cursor,
+					scroll: state.scroll,
+					updatedAt: now,
+				},
+			};
+			// Claim only the captured fields; lock fields keep whatever is stored by then
+			const changed: FieldTimestamps = {};
+			for (const field of ["cursor", "scroll", "viewState"] as const) {
+				if (state[field] !== undefined) changed[field] = now;
+			}
+			merged.fieldUpdatedAt = changed;
+
+			// Use debounced save to prevent excessive state file writes
+			this.saveQueue.schedule(fileName, merged);
+		} else {
+			console.debug(
+				"[AES] Cannot save state - file changed or not loaded properly"
+			);
+		}
+	}
+
+	async restoreTemporaryState() {
+		this.restorationPromise = this.performRestoration();
+		await this.restorationPromise;
+		this.restorationPromise = null;
+	}
+
+	private async performRestoration() {
+		try {
+			await this.restoreTemporaryStateWithRetry(5);
+		} catch (error) {
+			console.error(
+				"[AES] Failed to restore temporary state after all retries:",
+				error
+			);
+			// Show user notification about restoration failure
+			new Notice(
+				"Failed to restore note state. Try reopening the note.",
+				3000
+			);
+			// Reset loading state to prevent getting stuck
+			this.loadingFile = false;
+			// Set restorationPromise to a resolved promise to prevent further operations
+			this.restorationPromise = Promise.resolve();
+		}
+	}
+
+	private async restoreTemporaryStateWithRetry(
+		maxAttempts: number
+	): Promise<void> {
+		for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+			try {
+				let fileName = this.app.workspace.getActiveFile()?.path;
+				// Check if we have a valid file name
+				if (!fileName) {
+					if (attempt < maxAttempts) {
+						const delayMs = 10 * Math.pow(2, attempt - 1);
+						console.debug(
+							`[AES] Attempt ${attempt}/${maxAttempts}: No active file found, retrying in ${delayMs}ms`
+						);
+						await this.delay(delayMs);
+						continue;
+					} else {
+						console.warn(
+							"[AES] No active file found after all retry attempts"
+						);
+						return;
+					}
+				}
+
+				console.debug(
+					`[AES] Attempt ${attempt}/${maxAttempts} - restoreTemporaryState called for file:`,
+					fileName,
+					"loadingFile:",
+					this.loadingFile,
+					"lastLoadedFileName:",
+					this.lastLoadedFileName
+				);
+
+				if (
+					fileName &&
+					this.loadingFile &&
+					this.lastLoadedFileName == fileName
+				) {
+					//if already started loading
+					console.debug("[AES] Already loading this file, skipping");
+					return;
+				}
+
+				// Simplified logic without leaf tracking to avoid API compatibility issues
+				this.loadingFile = true;
+
+				if (this.lastLoadedFileName != fileName) {
+					console.debug(
+						"[AES] New file detected, preparing for state load"
+					);
+					this.lastTemporaryState = null;
+					this.lastLoadedFileName = fileName;
+
+					let state: TemporaryState | null = null;
+
+					if (fileName) {
+						state = await this.readFileState(fileName);
+						if (state) state = this.positionForDevice(state);
+						this.setRemoteBaseline(fileName, state);
+						console.debug(
+							"[AES] Found state in database for file:",
+							fileName,
+							"State:",
+							state
+						);
+						if (state) {
+							console.debug(
+								"[AES] Calling setTemporaryState with:",
+								state
+							);
+							this.setTemporaryState(state);
+							this.offerHandoff(fileName, state);
+							this.stampOpen(fileName);
+						} else {
+							console.debug(
+								"[AES] No state found in database for file:",
+								fileName
+							);
+						}
+					}
+					this.lastTemporaryState = state || null;
+				} else {
+					console.debug("[AES] Same file as before, not restoring");
+				}
+
+				this.loadingFile = false;
+				console.debug(
+					`[AES] restoreTemporaryState completed successfully on attempt ${attempt}`
+				);
+				return; // Success, exit retry loop
+			} catch (error) {
+				console.error(
+					`[AES] Attempt ${attempt}/${maxAttempts} failed:`,
+					error
+				);
+				if (attempt < maxAttempts) {
+					const delayMs = 10 * Math.pow(2, attempt - 1);
+					console.debug(`[AES] Retrying in ${delayMs}ms...`);
+					await this.delay(delayMs);
+				} else {
+					// Reset loading state on final failure
+					this.loadingFile = false;
+					throw error;
+				}
+			}
+		}
+	}
+
+	getTemporaryState(): TemporaryState {
+		let state: TemporaryState = {};
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+
+		if (view) {
+			// Get the complete view state using official API
+			const viewState = view.getState();
+			state.viewState = { ...viewState, type: view.getViewType() };
+
+			// Get scroll position with better error handling
+			const scrollPos = view.currentMode?.getScroll();
+			if (
+				scrollPos !== undefined &&
+				scrollPos !== null &&
+				!isNaN(scrollPos)
+			) {
+				state.scroll = Number(scrollPos.toFixed(4));
+				console.debug("[AES] Current scroll position:", state.scroll);
+			} else {
+				console.debug(
+					"[AES] Could not get scroll position from view.currentMode"
+				);
+				// Try alternative method using editor scroll info
+				const editor = this.getEditor();
+				if (editor) {
+					const scrollInfo = editor.getScrollInfo();
+					if (scrollInfo && scrollInfo.top) {
+						state.scroll = Number(scrollInfo.top.toFixed(4));
+						console.debug(
+							"[AES] Got scroll from editor.getScrollInfo():",
+							state.scroll
+						);
+					}
+				}
+			}
+			console.debug("[AES] Current view state:", state.viewState);
+		}
+
+		let editor = this.getEditor();
+		if (editor) {
+			let start = editor.getCursor("anchor");
+			let end = editor.getCursor("head");
+			if (start && end) {
+				state.cursor = {
+					start: {
+						col: start.ch,
+						line: start.line,
+					},
+					end: {
+						col: end.ch,
+						line: end.line,
+					},
+				};
+			}
+		}
+
+		return state;
+	}
+
+	setTemporaryState(state: TemporaryState) {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		console.debug(
+			"[AES] setTemporaryState called with state:",
+			state,
+			"View found:",
+			!!view
+		);
+
+		// Restore view state if it was persisted
+		if (view && state.viewState) {
+			console.debug("[AES] Restoring view state:", state.viewState);
+			void view.setState(state.viewState, { history: false });
+		}
+
+		// Defer cursor and scroll restoration until the layout is fully ready
+		this.app.workspace.onLayoutReady(() => {
+			const editor = this.getEditor();
+			if (state.cursor) {
+				// The note may have been shortened outside Obsidian since the cursor was saved
+				const cursor = editor
+					? clampCursor(
+							state.cursor,
+							editor.lineCount(),
+							l => editor.getLine(l).length
+						)
+					: null;
+				if (editor && cursor) {
+					console.debug("[AES] Setting cursor position:", cursor);
+					const start = {
+						ch: cursor.start.col,
+						line: cursor.start.line,
+					};
+					const end = {
+						ch: cursor.end.col,
+						line: cursor.end.line,
+					};
+					editor.setSelection(start, end);
+				} else if (editor) {
+					console.debug(
+						"[AES] Dropping malformed cursor position:",
+						state.cursor
+					);
+				} else {
+					console.debug(
+						"[AES] No editor found for cursor positioning"
+					);
+				}
+			}
+
+			const scroll =
+				editor && state.scroll !== undefined
+					? clampScroll(state.scroll, editor.lineCount())
+					: state.scroll;
+			if (view && scroll !== undefined && scroll !== null) {
+				console.debug("[AES] Setting scroll position:", scroll);
+				// Use requestAnimationFrame to defer scroll operations and prevent measure loops
+				requestAnimationFrame(() => {
+					view.setEphemeralState({ ...state, scroll });
+					// Verify scroll position was set correctly with retry mechanism
+					void this.verifyAndRetryScroll(view, scroll, 0).catch(e =>
+						console.warn("[AES] verifyAndRetryScroll failed:", e)
+					);
+				});
+			} else if (!view) {
+				console.debug(
+					"[AES] No MarkdownView found for scroll positioning"
+				);
+			}
+		});
+	}
+
+	private getEditor(): Editor | undefined {
+		return this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+	}
+
+	// Public accessors for internal components used by LockManager
+	getLockStatusBar(): LockStatusBar | undefined {
+		return this.lockStatusBar;
+	}
+
+	getChecksumIntegrity(): ChecksumIntegrity {
+		if (!this.checksumIntegrity) {
+			this.checksumIntegrity = new ChecksumIntegrity(this);
+		}
+		return this.checksumIntegrity;
+	}
+
+	// Enable Lock Mode UI live (create status bar if missing)
+	enableLockMode(): void {
+		if (!this.lockStatusBar) {
+			this.lockStatusBar = new LockStatusBar(this);
+		}
+		this.registerLockCommand();
+	}
+
+	// Disable Lock Mode UI live (remove status bar)
+	disableLockMode(): void {
+		if (this.lockStatusBar) {
+			this.lockStatusBar.dispose();
+			this.lockStatusBar = undefined;
+		}
+		this.unregisterLockCommand();
+	}
+
+	// Register command to toggle lock state for active file
+	private registerLockCommand(): void {
+		if (this.lockCommandRegistered) return;
+		try {
+			this.addCommand({
+				id: this.lockCommandId,
+				name: "Lock/unlock",
+				callback: async () => {
+					const filePath = this.app.workspace.getActiveFile()?.path;
+					if (!filePath) return;
+					await this.lockManager?.toggleLockState(filePath);
+				},
+			});
+			this.lockCommandRegistered = true;
+		} catch (e) {
+			console.warn("[AES] addCommand failed:", e);
+		}
+	}
+
+	// Unregister the lock toggle command if present
+	private unregisterLockCommand(): void {
+		if (!this.lockCommandRegistered) return;
+		try {
+			this.removeCommand(this.lockCommandId);
+		} catch (e) {
+			console.warn("[AES] removeCommand failed:", e);
+		} finally {
+			this.lockCommandRegistered = false;
+		}
+	}
+
+	// Register commands converting between per-note and consolidated layouts
+	private registerStorageCommands(): void {
+		this.addCommand({
+			id: "convert-to-single-file",
+			name: "Convert database to a single file",
+			callback: async () => {
+				await this.runStorageMigration("single-file");
+			},
+		});
+		this.addCommand({
+			id: "convert-to-per-file",
+			name: "Convert database to one file per note",
+			callback: async () => {
+				await this.runStorageMigration("per-file");
+			},
+		});
+		this.addCommand({
+			id: "export-archive",
+			name: "Export states to an archive",
+			callback: async () => {
+				await this.runArchiveExport();
+			},
+		});
+		this.addCommand({
+			id: "import-archive",
+			name: "Import states from an archive",
+			callback: () => {
+				new ArchiveImportModal(this.app, this).open();
+			},
+		});
+		this.addCommand({
+			id: "import-from-other-plugin",
+			name: "Import positions from another plugin",
+			callback: () => {
+				new PluginImportModal(this.app, this).open();
+			},
+		});
+		this.addCommand({
+			id: "validate-database",
+			name: "Validate stored states",
+			callback: () => {
+				new ValidationReviewModal(this.app, this).open();
+			},
+		});
+		this.addCommand({
+			id: "restore-quarantined-states",
+			name: "Restore quarantined states",
+			callback: () => {
+				void this.runQuarantineRestore();
+			},
+		});
+		this.addCommand({
+			id: "collect-stale-states",
+			name: "Remove stale note states",
+			callback: async () => {
+				await this.runStaleStateCollection();
+			},
+		});
+	}
+
+	// Register commands encrypting (or re-encrypting with a new passphrase) and decrypting the database
+	private registerEncryptionCommands(): void {
+		this.addCommand({
+			id: "encrypt-database",
+			name: "Encrypt database with a passphrase",
+			callback: () => {
+				new PassphraseModal(this.app, this).open();
+			},
+		});
+		this.addCommand({
+			id: "decrypt-database",
+			name: "Decrypt database",
+			callback: async () => {
+				await this.runDecryption();
+			},
+		});
+	}
+
+	// Decrypt the database with user-facing notices
+	async runDecryption(): Promise<void> {
+		try {
+			const count = await this.decryptDatabase();
+			new Notice(`[AES] Database decrypted, entries: ${count}`);
+		} catch (e) {
+			console.error("[AES] Decryption failed:", e);
+			new Notice(
+				"Database decryption failed, nothing was changed. Enter the passphrase in settings first."
+			);
+		}
+	}
+
+	async loadSettings() {
+		const loaded = (await this.loadData()) as unknown;
+		const loadedSettings = isObject(loaded) ? loaded : {};
+		let settings: PluginSettings = Object.assign(
+			{},
+			this.DEFAULT_SETTINGS,
+			loadedSettings
+		);
+		// Apply default for lockModeEnabled (enabled by default)
+		if (typeof settings.lockModeEnabled !== "boolean") {
+			settings.lockModeEnabled = true;
+		}
+		this.settings = settings;
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+	}
+
+	async delay(ms: number) {
+		return sleep(ms);
+	}
+
+	// Verify scroll position and retry if needed
+	private async verifyAndRetryScroll(
+		view: MarkdownView,
+		targetScroll: number,
+		attempt: number
+	) {
+		const maxAttempts = 4; // 4 attempts as requested
+		const retryDelay = 30; // Shorter delay
+		const tolerance = 0.02; // 2% tolerance as requested
+
+		// Wait a bit for the scroll to be applied
+		await this.delay(30);
+
+		const currentScroll = view.currentMode?.getScroll();
+		if (currentScroll !== undefined) {
+			const scrollDifference = Math.abs(currentScroll - targetScroll);
+			const allowedDifference = Math.max(targetScroll * tolerance, 2); // At least 2px tolerance
+
+			console.debug(
+				"[AES] Scroll verification - Target:",
+				targetScroll,
+				"Current:",
+				currentScroll,
+				"Difference:",
+				scrollDifference,
+				"Allowed:",
+				allowedDifference
+			);
+
+			if (scrollDifference <= allowedDifference) {
+				console.debug("[AES] Scroll position verified successfully");
+				return;
+			}
+
+			if (attempt < maxAttempts - 1) {
+				console.debug(
+					`[AES] Scroll position mismatch, retrying (attempt ${attempt + 1}/${maxAttempts})`
+				);
+				// Use requestAnimationFrame to avoid forced reflows
+				requestAnimationFrame(() => {
+					if (view.currentMode?.applyScroll) {
+						view.currentMode.applyScroll(targetScroll);
+					}
+				});
+
+				// Wait and retry
+				await this.delay(retryDelay);
+				await this.verifyAndRetryScroll(
+					view,
+					targetScroll,
+					attempt + 1
+				);
+			} else {
+				console.debug(
+					"[AES] Scroll position close enough, accepting current position"
+				);
+				// Don't show notification for minor differences
+			}
+		} else {
+			console.debug(
+				"[AES] Could not get current scroll position for verification"
+			);
+		}
+	}
+}
+
+class SettingTab extends PluginSettingTab {
+	plugin: AntiEphemeralState;
+
+	constructor(app: App, plugin: AntiEphemeralState) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		let { containerEl } = this;
+
+		containerEl.empty();
+
+		// Edited value is only applied through the migration dialog
+		let nextDbDir = this.plugin.settings.dbDir;
+		new Setting(containerEl)
+			.setName("Database directory")
+			.setDesc(
+				"Root directory for state persistence. Existing states are moved or copied when it changes."
+			)
+			.addText(text =>
+				text
+					.setPlaceholder(this.plugin.DEFAULT_SETTINGS.dbDir)
+					.setValue(this.plugin.settings.dbDir)
+					.onChange(value => {
+						nextDbDir = value;
+					})
+			)
+			.addButton(btn => {
+				btn.setButtonText("Change").onClick(async () => {
+					const problem = await this.plugin.checkDbDir(nextDbDir);
+					if (problem) {
+						new Notice(problem);
+						return;
+					}
+					new DbDirMigrationModal(
+						this.app,
+						this.plugin,
+						normalizePath(nextDbDir),
+						() => this.display()
+					).open();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Storage backend")
+			.setDesc(
+				"Where note states are kept. In-memory states are lost when the plugin is unloaded. Device-local states stay out of vault sync."
+			)
+			.addDropdown(dropdown =>
+				dropdown
+					.addOption("per-file", "One file per note")
+					.addOption("single-file", "Single database file")
+					.addOption("indexeddb", "This device only")
+					.addOption("memory", "In-memory (this session only)")
+					.setValue(this.plugin.getStorageBackend())
+					.onChange(async value => {
+						const current = this.plugin.getStorageBackend();
+						const next = value as StorageBackend;
+						// File layouts are converted so existing states follow the switch; the
+						// device-local database is filled through import instead, so synced files
+						// other devices rely on are never removed
+						if (isFileBackend(current) && isFileBackend(next)) {
+							await this.plugin.runStorageMigration(next);
+							return;
+						}
+						await this.plugin.setStorageBackend(next);
+						this.display();
+					})
+			);
+
+		if (this.plugin.getStorageBackend() === "indexeddb") {
+			const transfer = async (
+				run: () => Promise<number>,
+				done: string
+			) => {
+				try {
+					new Notice(`[AES] ${done}: ${await run()}`);
+				} catch (e) {
+					console.error(
+						"[AES] Device-local database transfer failed:",
+						e
+					);
+					new Notice("Transfer failed, see the console for details");
+				}
+			};
+			new Setting(containerEl)
+				.setName("Device-local database")
+				.setDesc(
+					"Copy states between the database directory and this device. The newest state per note is kept."
+				)
+				.addButton(btn =>
+					btn
+						.setButtonText("Import from database directory")
+						.setCta()
+						.onClick(() =>
+							transfer(
+								() => this.plugin.importFromDbDir(),
+								"States imported"
+							)
+						)
+				)
+				.addButton(btn =>
+					btn
+						.setButtonText("Export to database directory")
+						.onClick(() =>
+							transfer(
+								() => this.plugin.exportToDbDir(),
+								"States exported"
+							)
+						)
+				);
+		}
+
+		// Encryption status. The passphrase can be (re-)entered while encrypted, e.g. after another
+		// device changed it
+		const encrypted = this.plugin.settings.encryptionEnabled === true;
+		const unlocked = this.plugin.getStateCipher() !== null;
+		const encryption = new Setting(containerEl)
+			.setName("Encryption")
+			.setDesc(
+				!encrypted
+					? "States are stored as plain JSON. Encrypting requires a passphrase that has to be entered once on every device."
+					: unlocked
+						? "States are encrypted with the passphrase entered on this device."
+						: "States are encrypted. Enter the passphrase to read and save them on this device."
+			);
+		if (encrypted) {
+			let passphrase = "";
+			encryption
+				.addText(text => {
+					text.inputEl.type = "password";
+					text.setPlaceholder("Passphrase").onChange(value => {
+						passphrase = value;
+					});
+				})
+				.addButton(btn => {
+					btn.setButtonText("Unlock").onClick(async () => {
+						if (await this.plugin.unlockEncryption(passphrase)) {
+							new Notice("Database unlocked on this device");
+							this.display();
+						} else {
+							new Notice("Wrong passphrase");
+						}
+					});
+					if (!unlocked) btn.setCta();
+				});
+		}
+		if (!encrypted || unlocked) {
+			encryption.addButton(btn =>
+				btn
+					.setButtonText(encrypted ? "Change passphrase" : "Encrypt")
+					.onClick(() =>
+						new PassphraseModal(this.app, this.plugin, () =>
+							this.display()
+						).open()
+					)
+			);
+		}
+		if (encrypted && unlocked) {
+			encryption.addButton(btn =>
+				btn.setButtonText("Decrypt").onClick(async () => {
+					await this.plugin.runDecryption();
+					this.display();
+				})
+			);
+		}
+
+		new Setting(containerEl)
+			.setName("Database validation")
+			.setDesc(
+				"Check database entries for wrong states and entries of missing notes, and review the proposed changes before they are applied"
+			)
+			.addButton(btn => {
+				btn.setButtonText("Run validation")
+					.setCta()
+					.onClick(() => {
+						new ValidationReviewModal(this.app, this.plugin).open();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("State archive")
+			.setDesc(
+				"Export all states keyed by note path, or import an archive after restructuring or rebuilding the vault"
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText("Export")
+					.onClick(() => this.plugin.runArchiveExport())
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText("Import")
+					.onClick(() =>
+						new ArchiveImportModal(this.app, this.plugin).open()
+					)
+			);
+
+		new Setting(containerEl)
+			.setName("Positions from other plugins")
+			.setDesc(
+				`Import cursor and scroll positions saved by ${STATE_IMPORTERS.map(i => i.name).join(", ")}`
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText("Import")
+					.onClick(() =>
+						new PluginImportModal(this.app, this.plugin).open()
+					)
+			);
+
+		// Retention rules; empty or invalid input turns a rule off
+		const countSetting = (
+			name: string,
+			desc: string,
+			key:
+				| "retentionDays"
+				| "maxEntries"
+				| "quarantineDays"
+				| "autoValidationHours",
+			fallback = 0
+		) =>
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText(text => {
+					text.inputEl.type = "number";
+					text.setPlaceholder(String(fallback))
+						.setValue(String(this.plugin.settings[key] ?? fallback))
+						.onChange(async value => {
+							this.plugin.settings[key] = Math.max(
+								0,
+								Math.floor(Number(value)) || 0
+							);
+							await this.plugin.saveSettings();
+						});
+				});
+		countSetting(
+			"Forget positions after days",
+			"Drop cursor and scroll of notes not opened for this many days. Locked notes are kept. 0 keeps positions forever.",
+			"retentionDays"
+		);
+		countSetting(
+			"Maximum stored notes",
+			"Forget the least recently opened notes above this many states. Locked notes are kept. 0 means no limit.",
+			"maxEntries"
+		).addButton(btn =>
+			btn
+				.setButtonText("Collect now")
+				.onClick(() => this.plugin.runStaleStateCollection())
+		);
+		countSetting(
+			"Purge quarantine after days",
+			"Entries removed by validation are kept in a quarantine folder inside the database directory for this many days. 0 keeps them until restored or deleted by hand. Device-local and in-memory states are deleted instead.",
+			"quarantineDays",
+			DEFAULT_QUARANTINE_DAYS
+		).addButton(btn =>
+			btn
+				.setButtonText("Restore")
+				.onClick(() => this.plugin.runQuarantineRestore())
+		);
+		countSetting(
+			"Validate automatically every hours",
+			"Validate stored states in the background after startup and after sync, at most once per this many hours on this device. Progress is shown in the status bar; click it to cancel. 0 turns it off.",
+			"autoValidationHours"
+		);
+
+		// Cache effectiveness: every hit is a database read avoided on a hot path
+		const cache = this.plugin.getStateCache();
+		const describeCache = () =>
+			`Cache hits: ${cache.hits}, database reads: ${cache.misses}, writes: ${cache.writes}, skipped writes: ${cache.skippedWrites}`;
+		const cacheSetting = new Setting(containerEl)
+			.setName("State cache")
+			.setDesc(describeCache())
+			.addButton(btn => {
+				btn.setButtonText("Reset counters").onClick(() => {
+					cache.resetCounters();
+					cacheSetting.setDesc(describeCache());
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Restore position")
+			.setDesc(
+				"Cursor and scroll are saved per device. View mode and lock state are shared by all devices."
+			)
+			.addDropdown(dropdown =>
+				dropdown
+					.addOption("device", "This device's position")
+					.addOption("latest", "Most recent position from any device")
+					.setValue(this.plugin.settings.positionRestore ?? "device")
+					.onChange(async value => {
+						this.plugin.settings.positionRestore =
+							value as PositionRestoreMode;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Changes from other devices")
+			.setDesc(
+				"When another device moves in the open note: ignore it, show a notice, or follow it. The lock icon is always updated."
+			)
+			.addDropdown(dropdown =>
+				dropdown
+					.addOption("ignore", "Ignore")
+					.addOption("notify", "Notify")
+					.addOption("follow", "Follow")
+					.setValue(
+						this.plugin.settings.remoteChangePolicy ?? "notify"
+					)
+					.onChange(async value => {
+						this.plugin.settings.remoteChangePolicy =
+							value as RemoteChangePolicy;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Lock and view mode storage")
+			.setDesc(
+				"Keep lock status and view mode in the database, or in frontmatter properties so they travel with the note. Cursor and scroll always stay in the database."
+			)
+			.addDropdown(dropdown =>
+				dropdown
+					.addOption("database", "Database")
+					.addOption("frontmatter", "Frontmatter")
+					.setValue(
+						this.plugin.settings.sharedStateLocation ?? "database"
+					)
+					.onChange(async value => {
+						this.plugin.settings.sharedStateLocation =
+							value as SharedStateLocation;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+		const properties = this.plugin.getFrontmatterProperties();
+		if (properties) {
+			const propertySetting = (
+				name: string,
+				key: keyof FrontmatterProperties
+			) =>
+				new Setting(containerEl).setName(name).addText(text =>
+					text
+						.setPlaceholder(DEFAULT_FRONTMATTER_PROPERTIES[key])
+						.setValue(properties[key])
+						.onChange(async value => {
+							this.plugin.settings.frontmatterProperties = {
+								...this.plugin.settings.frontmatterProperties,
+								[key]:
+									value.trim() ||
+									DEFAULT_FRONTMATTER_PROPERTIES[key],
+							};
+							await this.plugin.saveSettings();
+						})
+				);
+			propertySetting("Lock property", "protected");
+			propertySetting("Lock timestamp property", "timestamp");
+			propertySetting("View mode property", "viewMode");
+		}
+
+		// Toggle to enable/disable Lock Mode
+		new Setting(containerEl)
+			.setName("Enable lock mode")
+			.setDesc(
+				"Show lock mode UI and enforce read-only for protected notes"
+			)
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.plugin.settings.lockModeEnabled !== false)
+					.onChange(value => {
+						void (async () => {
+							this.plugin.settings.lockModeEnabled = value;
+							await this.plugin.saveSettings();
+							if (value) {
+								this.plugin.enableLockMode();
+								// Ensure helpers exist
+								this.plugin.getChecksumIntegrity();
+								if (!this.plugin.lockManager) {
+									this.plugin.lockManager = new LockManager(
+										this.plugin
+									);
+								}
+							} else {
+								this.plugin.disableLockMode();
+							}
+						})().catch(e =>
+							console.warn(
+								"[AES] Failed to toggle lock mode setting:",
+								e
+							)
+						);
+					})
+			);
+	}
+}
+
+// Confirms a database directory change and transfers existing states with progress
+class DbDirMigrationModal extends Modal {
+	private plugin: AntiEphemeralState;
+	private target: string;
+	private onDone: () => void;
+	private running = false;
+
+	constructor(
+		app: App,
+		plugin: AntiEphemeralState,
+		target: string,
+		onDone: () => void
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.target = target;
+		this.onDone = onDone;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle("Change database directory");
+		contentEl.createEl("p", {
+			text: `Existing states will be transferred to "${this.target}". States already stored there are merged, keeping the most recent one per note.`,
+		});
+		const progressEl = contentEl.createEl("p");
+		new Setting(contentEl)
+			.addButton(btn =>
+				btn
+					.setButtonText("Move")
+					.setCta()
+					.onClick(() => void this.run("move", progressEl))
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText("Copy")
+					.onClick(() => void this.run("copy", progressEl))
+			)
+			.addButton(btn =>
+				btn.setButtonText("Cancel").onClick(() => this.close())
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async run(
+		mode: DbDirMigrationMode,
+		progressEl: HTMLElement
+	): Promise<void> {
+		if (this.running) return;
+		this.running = true;
+		progressEl.setText("Preparing...");
+		try {
+			const count = await this.plugin.changeDbDir(
+				this.target,
+				mode,
+				(done, total) =>
+					progressEl.setText(`Transferred ${done}/${total}`)
+			);
+			new Notice(
+				`[AES] Database directory changed, entries transferred: ${count}`
+			);
+			this.close();
+			this.onDone();
+		} catch (e) {
+			console.error("[AES] Database directory change failed:", e);
+			progressEl.setText(
+				`Failed: ${e instanceof Error ? e.message : String(e)}. The database directory was not changed.`
+			);
+			this.running = false;
+		}
+	}
+}
+
+// Asks for a new passphrase (twice) and encrypts the whole database with it
+class PassphraseModal extends Modal {
+	private plugin: AntiEphemeralState;
+	private onDone?: () => void;
+	private running = false;
+
+	constructor(app: App, plugin: AntiEphemeralState, onDone?: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.onDone = onDone;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle("Encrypt database");
+		contentEl.createEl("p", {
+			text: "All states are re-encrypted with this passphrase. Other devices ask for it once. States cannot be recovered without it.",
+		});
+		let passphrase = "";
+		let confirmation = "";
+		new Setting(contentEl).setName("Passphrase").addText(text => {
+			text.inputEl.type = "password";
+			text.onChange(value => {
+				passphrase = value;
+			});
+		});
+		new Setting(contentEl).setName("Repeat passphrase").addText(text => {
+			text.inputEl.type = "password";
+			text.onChange(value => {
+				confirmation = value;
+			});
+		});
+		const statusEl = contentEl.createEl("p");
+		new Setting(contentEl)
+			.addButton(btn =>
+				btn
+					.setButtonText("Encrypt")
+					.setCta()
+					.onClick(
+						() => void this.run(passphrase, confirmation, statusEl)
+					)
+			)
+			.addButton(btn =>
+				btn.setButtonText("Cancel").onClick(() => this.close())
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async run(
+		passphrase: string,
+		confirmation: string,
+		statusEl: HTMLElement
+	): Promise<void> {
+		if (this.running) return;
+		if (!passphrase) {
+			statusEl.setText("The passphrase cannot be empty.");
+			return;
+		}
+		if (passphrase !== confirmation) {
+			statusEl.setText("The passphrases do not match.");
+			return;
+		}
+		this.running = true;
+		statusEl.setText("Encrypting...");
+		try {
+			const count = await this.plugin.encryptDatabase(passphrase);
+			new Notice(`[AES] Database encrypted, entries: ${count}`);
+			this.close();
+			this.onDone?.();
+		} catch (e) {
+			console.error("[AES] Encryption failed:", e);
+			statusEl.setText(
+				`Failed: ${e instanceof Error ? e.message : String(e)}. Nothing was changed.`
+			);
+			this.running = false;
+		}
+	}
+}
+
+// Asks for an archive file, how to treat notes that already have a state, and path remaps, then
+// imports the archive
+class ArchiveImportModal extends Modal {
+	private plugin: AntiEphemeralState;
+	private running = false;
+
+	constructor(app: App, plugin: AntiEphemeralState) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle("Import states from an archive");
+		let path = "";
+		let mode: ArchiveImportMode = "merge";
+		let remaps = "";
+		new Setting(contentEl)
+			.setName("Archive file")
+			.setDesc("Path of the archive inside the vault")
+			.addText(text =>
+				text.setPlaceholder("Folder/archive.json").onChange(value => {
+					path = value;
+				})
+			);
+		new Setting(contentEl)
+			.setName("Notes that already have a state")
+			.addDropdown(dropdown =>
+				dropdown
+					.addOption("merge", "Merge, keep the newest values")
+					.addOption("overwrite", "Overwrite with the archive")
+					.addOption("skip", "Skip")
+					.setValue(mode)
+					.onChange(value => {
+						mode = value as ArchiveImportMode;
+					})
+			);
+		new Setting(contentEl)
+			.setName("Path remapping")
+			.setDesc(
+				'One prefix per line, e.g. "Projects/ -> Archive/2026/". The first matching line applies.'
+			)
+			.addTextArea(text =>
+				text.onChange(value => {
+					remaps = value;
+				})
+			);
+		const statusEl = contentEl.createEl("p");
+		new Setting(contentEl)
+			.addButton(btn =>
+				btn
+					.setButtonText("Import")
+					.setCta()
+					.onClick(() => void this.run(path, mode, remaps, statusEl))
+			)
+			.addButton(btn =>
+				btn.setButtonText("Cancel").onClick(() => this.close())
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async run(
+		path: string,
+		mode: ArchiveImportMode,
+		remapText: string,
+		statusEl: HTMLElement
+	): Promise<void> {
+		if (this.running) return;
+		const remaps: PathRemap[] = [];
+		for (const line of remapText.split("\n")) {
+			if (!line.trim()) continue;
+			const [from, to, ...rest] = line.split("->").map(p => p.trim());
+			if (!from || to === undefined || rest.length > 0) {
+				statusEl.setText(`Invalid remapping: "${line.trim()}"`);
+				return;
+			}
+			remaps.push({ from, to });
+		}
+		this.running = true;
+		statusEl.setText("Importing...");
+		try {
+			const data = await this.app.vault.adapter.read(normalizePath(path));
+			const result = await this.plugin.importArchive(data, mode, remaps);
+			new Notice(
+				`[AES] Archive imported. States: ${result.imported}, skipped: ${result.skipped}, missing notes: ${result.missing}`
+			);
+			this.close();
+		} catch (e) {
+			console.error("[AES] Archive import failed:", e);
+			statusEl.setText(
+				`Failed: ${e instanceof Error ? e.message : String(e)}`
+			);
+			this.running = false;
+		}
+	}
+}
+
+// Imports positions saved by another plugin: previews what would be created, skipped or conflict
+// with stored positions, then writes them
+class PluginImportModal extends Modal {
+	private plugin: AntiEphemeralState;
+	private importer = STATE_IMPORTERS[0];
+	private path: string;
+	private plan: ImportPlan | null = null;
+	private replaceConflicts = false;
+	private running = false;
+
+	constructor(app: App, plugin: AntiEphemeralState) {
+		super(app);
+		this.plugin = plugin;
+		this.path = this.importer.defaultPath(app.vault.configDir);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle("Import positions from another plugin");
+		let pathInput: TextComponent | undefined;
+		// The preview no longer applies once the source changes
+		const invalidate = () => {
+			this.plan = null;
+			statusEl.setText("");
+		};
+		new Setting(contentEl).setName("Plugin").addDropdown(dropdown => {
+			for (const importer of STATE_IMPORTERS) {
+				dropdown.addOption(importer.id, importer.name);
+			}
+			dropdown.setValue(this.importer.id).onChange(value => {
+				this.importer =
+					STATE_IMPORTERS.find(i => i.id === value) ?? this.importer;
+				this.path = this.importer.defaultPath(this.app.vault.configDir);
+				pathInput?.setValue(this.path);
+				invalidate();
+			});
+		});
+		new Setting(contentEl).setName("Data file").addText(text => {
+			pathInput = text;
+			text.setValue(this.path).onChange(value => {
+				this.path = value;
+				invalidate();
+			});
+		});
+		new Setting(contentEl)
+			.setName("Notes that already have a position")
+			.addDropdown(dropdown =>
+				dropdown
+					.addOption("keep", "Keep the stored position")
+					.addOption("replace", "Replace with the imported one")
+					.setValue("keep")
+					.onChange(value => {
+						this.replaceConflicts = value === "replace";
+					})
+			);
+		const statusEl = contentEl.createEl("p");
+		new Setting(contentEl)
+			.addButton(btn =>
+				btn
+					.setButtonText("Preview")
+					.onClick(() => void this.preview(statusEl))
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText("Import")
+					.setCta()
+					.onClick(() => void this.run(statusEl))
+			)
+			.addButton(btn =>
+				btn.setButtonText("Cancel").onClick(() => this.close())
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async preview(statusEl: HTMLElement): Promise<void> {
+		try {
+			const data = await this.app.vault.adapter.read(
+				normalizePath(this.path)
+			);
+			const plan = await this.plugin.planImport(this.importer.id, data);
+			this.plan = plan;
+			statusEl.setText(
+				`New positions: ${plan.create.size}, skipped: ${plan.skipped}, conflicts with stored positions: ${plan.conflict.size}`
+			);
+		} catch (e) {
+			console.error("[AES] Import preview failed:", e);
+			statusEl.setText(
+				`Failed: ${e instanceof Error ? e.message : String(e)}`
+			);
+		}
+	}
+
+	private async run(statusEl: HTMLElement): Promise<void> {
+		if (this.running) return;
+		// Import exactly what was previewed; without a preview, show it first
+		if (!this.plan) {
+			await this.preview(statusEl);
+			return;
+		}
+		this.running = true;
+		statusEl.setText("Importing...");
+		try {
+			const count = await this.plugin.applyImport(
+				this.plan,
+				this.replaceConflicts
+			);
+			new Notice(`[AES] Positions imported: ${count}`);
+			this.close();
+		} catch (e) {
+			console.error("[AES] Import failed:", e);
+			statusEl.setText(
+				`Failed: ${e instanceof Error ? e.message : String(e)}`
+			);
+			this.running = false;
+		}
+	}
+}
+
+// Runs validation as a dry run and lists the proposed changes; only the checked ones are applied.
+// The report can also be saved as a note
+class ValidationReviewModal extends Modal {
+	private plugin: AntiEphemeralState;
+	private report: ValidationReport | null = null;
+	private selected = new Set<ValidationAction>();
+	private running = false;
+	private task: ValidationTask | null = null; // while entries are checked
+
+	constructor(app: App, plugin: AntiEphemeralState) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle("Validate stored states");
+		const statusEl = contentEl.createEl("p", {
+			text: "Checking entries...",
+		});
+		const task = this.plugin.beginValidation();
+		if (!task) {
+			statusEl.setText("Validation is already running.");
+			return;
+		}
+		this.task = task;
+		task.onChange(() =>
+			statusEl.setText(`Checking entries... ${task.done}/${task.total}`)
+		);
+		void this.plugin
+			.planValidation(task)
+			.then(report => this.render(report, statusEl))
+			.catch(e => {
+				// Closed while checking
+				if (e instanceof ValidationCancelledError) return;
+				console.error("[AES] Validation failed:", e);
+				statusEl.setText(
+					`Failed: ${e instanceof Error ? e.message : String(e)}`
+				);
+			})
+			.finally(() => {
+				this.plugin.endValidation(task);
+				this.task = null;
+			});
+	}
+
+	onClose(): void {
+		this.task?.cancel();
+		this.contentEl.empty();
+	}
+
+	private render(report: ValidationReport, statusEl: HTMLElement): void {
+		const { contentEl } = this;
+		this.report = report;
+		this.selected = new Set(report.actions.filter(a => a.kind !== "keep"));
+		const changes = this.selected.size;
+		// One click re-associates every orphan matched with a moved note, and changes nothing else
+		const moves = new Set(
+			report.actions.filter(a => a.problem === "moved-note")
+		);
+		statusEl.setText(
+			`Checked: ${report.total}, proposed changes: ${changes}, kept as is: ${report.actions.length - changes}, errors: ${report.errors}`
+		);
+		if (
+			!this.plugin.hasQuarantine() &&
+			report.actions.some(a => a.kind === "remove")
+		) {
+			contentEl.createEl("p", {
+				text: "States on this device are not quarantined: removed entries are deleted and cannot be restored.",
+			});
+		}
+		for (const action of report.actions) {
+			const setting = new Setting(contentEl)
+				.setName(`${action.kind}: ${action.path ?? action.key}`)
+				.setDesc(action.detail);
+			if (action.kind === "keep") continue;
+			setting.addToggle(toggle =>
+				toggle.setValue(true).onChange(value => {
+					if (value) this.selected.add(action);
+					else this.selected.delete(action);
+				})
+			);
+		}
+		new Setting(contentEl)
+			.addButton(btn =>
+				btn
+					.setButtonText("Apply selected")
+					.setCta()
+					.setDisabled(changes === 0)
+					.onClick(() => void this.apply(this.selected))
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText("Adopt moved notes")
+					.setDisabled(moves.size === 0)
+					.onClick(() => void this.apply(moves))
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText("Export as note")
+					.onClick(() => void this.export(statusEl))
+			)
+			.addButton(btn =>
+				btn.setButtonText("Cancel").onClick(() => this.close())
+			);
+	}
+
+	private async apply(actions: Set<ValidationAction>): Promise<void> {
+		if (this.running || !this.report) return;
+		this.running = true;
+		await this.plugin.runValidation(
+			this.report.actions.filter(a => actions.has(a))
+		);
+		this.close();
+	}
+
+	private async export(statusEl: HTMLElement): Promise<void> {
+		if (!this.report) return;
+		try {
+			const path = await this.plugin.exportValidationReport(this.report, [
+				...this.selected,
+			]);
+			new Notice(`[AES] Validation report saved to ${path}`);
+		} catch (e) {
+			console.error("[AES] Validation report export failed:", e);
+			statusEl.setText(
+				`Failed: ${e instanceof Error ? e.message : String(e)}`
+			);
+		}
+	}
+}
+
+// Status bar progress of a validation run; clicking it cancels the run
+class ValidationStatusBar {
+	private el: HTMLElement;
+	private bar: HTMLProgressElement;
+	private label: HTMLElement;
+
+	constructor(plugin: AntiEphemeralState, task: ValidationTask) {
+		this.el = plugin.addStatusBarItem();
+		this.el.classList.add("aes-validation-progress", "mod-clickable");
+		this.bar = document.createElement("progress");
+		this.label = document.createElement("span");
+		this.el.append(this.bar, this.label);
+		this.el.addEventListener("click", () => task.cancel());
+		setTooltip(this.el, "Cancel validation", { placement: "top", gap: 6 });
+		task.onChange(() => this.render(task));
+		this.render(task);
+	}
+
+	private render(task: ValidationTask): void {
+		this.bar.max = Math.max(task.total, 1);
+		this.bar.value = task.done;
+		const stage = task.cancelled
+			? "Cancelling"
+			: task.phase === "check"
+				? "Checking"
+				: "Applying";
+		this.label.textContent = ` ${stage} ${task.done}/${task.total}`;
+	}
+
+	dispose(): void {
+		this.el.remove();
+	}
+}
+
+// Minimal Status Bar controller for Lock Mode UI
+class LockStatusBar {
+	private plugin: AntiEphemeralState;
+	private el: HTMLElement;
+	private state: "unlocked" | "locked" | "corrupted" = "unlocked";
+
+	constructor(plugin: AntiEphemeralState) {
+		this.plugin = plugin;
+		this.el = this.plugin.addStatusBarItem();
+		this.el.classList.add("aes-lock-status");
+		this.el.addEventListener("click", () => {
+			void this.onClick().catch(e =>
+				console.warn("[AES] Lock toggle failed:", e)
+			);
+		});
+		this.updateIcon(this.state);
+	}
+
+	// Update visual icon and tooltip
+	updateIcon(state: "unlocked" | "locked" | "corrupted"): void {
+		this.state = state;
+		// Use simple emoji icons; can be replaced with Obsidian icons later
+		let tooltip: string;
+		switch (state) {
+			case "locked":
+				this.el.textContent = "●";
+				tooltip = "Locked";
+				break;
+			case "corrupted":
+				this.el.textContent = "✖";
+				tooltip = "Modified externally";
+				break;
+			default:
+				this.el.textContent = "○";
+				tooltip = "Unlocked";
+		}
+
+		// Apply Obsidian tooltip (black) with proper placement; avoid native duplicates
+		this.el.removeAttribute("title");
+		this.el.removeAttribute("aria-label");
+		setTooltip(this.el, tooltip, { placement: "top", gap: 6 });
+	}
+
+	private async onClick(): Promise<void> {
+		// Delegate to LockManager to toggle protection for the active file
+		const filePath = this.plugin.app.workspace.getActiveFile()?.path;
+		if (!filePath) return;
+		await this.plugin.lockManager?.toggleLockState(filePath);
+	}
+
+	// Remove DOM and detach listeners
+	dispose(): void {
+		if (this.el && this.el.remove) {
+			this.el.remove();
+		}
+	}
+}
+
+// Minimal integrity checker using file modification time (mtime)
+class ChecksumIntegrity {
+	private plugin: AntiEphemeralState;
+
+	constructor(plugin: AntiEphemeralState) {
+		this.plugin = plugin;
+	}
+
+	// Get file modification timestamp in milliseconds using Obsidian adapter
+	async getFileTimestamp(filePath: string): Promise<number> {
+		const s = await this.plugin.app.vault.adapter.stat(filePath);
+		if (!s || typeof s.mtime !== "number") {
+			throw new Error(`[AES] stat() returned no mtime for ${filePath}`);
+		}
+		return s.mtime;
+	}
+
+	// Compare current mtime with expected timestamp, or with the mtime left by the plugin's own
+	// frontmatter write when there is one
+	async verifyFileIntegrity(
+		filePath: string,
+		expectedTimestamp: number,
+		ownWriteTimestamp?: number
+	): Promise<boolean> {
+		const current = await this.getFileTimestamp(filePath);
+		// Debug: log both timestamps for troubleshooting mtime caching/mismatch
+		console.debug("[AES] Integrity mtime match check:", {
+			filePath,
+			apiTimestamp: current,
+			stateTimestamp: expectedTimestamp,
+			ownWriteTimestamp,
+		});
+		return current === expectedTimestamp || current === ownWriteTimestamp;
+	}
+}
+
+// Lock manager controlling protected state and status bar integration
+class LockManager {
+	private plugin: AntiEphemeralState;
+
+	constructor(plugin: AntiEphemeralState) {
+		this.plugin = plugin;
+	}
+
+	// Toggle protection for the given file
+	async toggleLockState(filePath: string): Promise<void> {
+		// Read current state
+		const current = (await this.plugin.readFileState(filePath)) || {};
+		const nextProtected = !current.protected;
+
+		// Update UI icon early for responsiveness
+		const sb = this.plugin.getLockStatusBar();
+		if (sb) {
+			sb.updateIcon(nextProtected ? "locked" : "unlocked");
+		}
+
+		// Persist new state with timestamp if locking
+		let timestamp: number | null = null;
+		if (nextProtected) {
+			try {
+				const integrity = this.plugin.getChecksumIntegrity();
+				timestamp = await integrity.getFileTimestamp(filePath);
+			} catch (e) {
+				console.error("[AES] Failed to acquire timestamp for lock:", e);
+				timestamp = null;
+			}
+		}
+
+		const newState: TemporaryState = {
+			...current,
+			protected: nextProtected,
+			timestamp,
+			// Only the lock changed; positions saved meanwhile by other devices stay
+			fieldUpdatedAt: { lock: Date.now() },
+		};
+
+		await this.plugin.writeFileState(filePath, newState);
+		// Keep plugin memory in sync to prevent later auto-saves from overwriting lock fields
+		this.plugin.lastTemporaryState = {
+			...(this.plugin.lastTemporaryState || {}),
+			...newState,
+		};
+
+		// If we just enabled protection, immediately enforce preview mode
+		if (nextProtected) {
+			await this.enforceReadOnlyMode(filePath);
+		}
+	}
+
+	// Returns true when file is considered locked
+	async isFileLocked(filePath: string): Promise<boolean> {
+		const current = await this.plugin.readFileState(filePath);
+		return !!current?.protected;
+	}
+
+	// Ensure MarkdownView is in preview when file is locked. Preserve cursor/scroll via plugin.setTemporaryState
+	async enforceReadOnlyMode(filePath: string): Promise<void> {
+		// Fast path: only act when current file matches and is locked
+		const active =
+			this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!active || active.file?.path !== filePath) return;
+		const locked = await this.isFileLocked(filePath);
+		if (!locked) return;
+
+		// Check current mode; if already preview, do nothing
+		const rawState = active.getState();
+		const mode =
+			typeof rawState.mode === "string" ? rawState.mode : undefined;
+		if (mode === "preview") return;
+
+		// Capture cursor/scroll only to avoid restoring mode back to source
+		const ephemeral = this.plugin.getTemporaryState();
+		const toRestore: TemporaryState = {
+			cursor: ephemeral.cursor,
+			scroll: ephemeral.scroll,
+		};
+
+		// Switch to preview using official API
+		await active.setState(
+			{
+				...active.getState(),
+				mode: "preview",
+			},
+			{ history: false }
+		);
+
+		// Re-apply only cursor/scroll to avoid UX jumps
+		this.plugin.setTemporaryState(toRestore);
+
+		// Inform user about automatic enforcement of Lock Mode
+		new Notice("Lock mode enabled", 1000);
+	}
+}
+
+// Backends keeping their entries in the database directory
+function isFileBackend(backend: StorageBackend): boolean {
+	return backend === "per-file" || backend === "single-file";
+}
+
+function parsesAsJson(data: string): boolean {
+	try {
+		JSON.parse(data);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Crash-safe replace: write a temporary sibling, verify it, keep the previous good version as backup, rename into place
+async function writeFileAtomic(
+	adapter: DataAdapter,
+	path: string,
+	data: string
+): Promise<void> {
+	if (!parsesAsJson(data)) {
+		throw new Error(`[AES] Refusing to write invalid JSON: ${path}`);
+	}
+	const tmp = path + TEMP_FILE_SUFFIX;
+	const bak = path + BACKUP_FILE_SUFFIX;
+	await adapter.write(tmp, data);
+	if ((await adapter.read(tmp)) !== data) {
+		await adapter.remove(tmp);
+		throw new Error(`[AES] Write verification failed: ${tmp}`);
+	}
+	if (await adapter.exists(path)) {
+		if (parsesAsJson(await adapter.read(path))) {
+			if (await adapter.exists(bak)) {
+				await adapter.remove(bak);
+			}
+			await adapter.rename(path, bak);
+		} else {
+			// Never let a truncated file replace the last good backup
+			await adapter.remove(path);
+		}
+	}
+	await adapter.rename(tmp, path);
+}
+
+// Read a file written by writeFileAtomic; falls back to its backup when the primary is missing or unparsable
+async function readFileWithBackup(
+	adapter: DataAdapter,
+	path: string
+): Promise<string | null> {
+	const primary = (await adapter.exists(path))
+		? await adapter.read(path)
+		: null;
+	if (primary !== null && parsesAsJson(primary)) return primary;
+	const bak = path + BACKUP_FILE_SUFFIX;
+	if (await adapter.exists(bak)) {
+		const backup = await adapter.read(bak);
+		if (parsesAsJson(backup)) {
+			console.warn("[AES] Falling back to backup of:", path);
+			return backup;
+		}
+	}
+	return primary;
+}
+
+// Sync conflict copies inside dbDir of files ending with `ext`, with their original base name and content
+async function readConflictFiles(
+	adapter: DataAdapter,
+	dbDir: string,
+	ext: string
+): Promise<Array<{ name: string; base: string; data: string }>> {
+	if (!(await adapter.exists(dbDir))) return [];
+	const found: Array<{ name: string; base: string; data: string }> = [];
+	for (const file of (await adapter.list(dbDir)).files || []) {
+		const name = file.slice(file.lastIndexOf("/") + 1);
+		const match = CONFLICT_COPY_PATTERN.exec(name);
+		if (!match || !name.toLowerCase().endsWith(ext)) continue;
+		found.push({ name, base: match[1], data: await adapter.read(file) });
+	}
+	return found;
+}
+
+// Default state store: one JSON file per note inside the database directory
+class PerFileStateStore implements StateStore {
+	private plugin: AntiEphemeralState;
+	private fixedDbDir?: string; // set for stores bound to another directory (dbDir migration)
+
+	constructor(plugin: AntiEphemeralState, dbDir?: string) {
+		this.plugin = plugin;
+		this.fixedDbDir = dbDir;
+	}
+
+	// Database directory; read live from settings unless the store is bound to one
+	private getDbDir(): string {
+		return this.fixedDbDir ?? this.plugin.settings.dbDir;
+	}
+
+	// Resolve database file path for an entry key
+	getEntryPath(key: string): string {
+		return `${this.getDbDir()}/${key}.json`;
+	}
+
+	async get(key: string): Promise<string | null> {
+		return readFileWithBackup(
+			this.plugin.app.vault.adapter,
+			this.getEntryPath(key)
+		);
+	}
+
+	async put(key: string, data: string): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		const dbDir = this.getDbDir();
+		// Ensure database directory exists (state persistence root)
+		if (!(await adapter.exists(dbDir))) {
+			await adapter.mkdir(dbDir);
+		}
+		await writeFileAtomic(adapter, this.getEntryPath(key), data);
+	}
+
+	// Removes the entry file together with its backup and any leftover temporary file
+	async delete(key: string): Promise<void> {
+		const path = this.getEntryPath(key);
+		const adapter = this.plugin.app.vault.adapter;
+		for (const file of [
+			path,
+			path + BACKUP_FILE_SUFFIX,
+			path + TEMP_FILE_SUFFIX,
+		]) {
+			if (await adapter.exists(file)) {
+				await adapter.remove(file);
+			}
+		}
+	}
+
+	// Keys with an entry file or only a surviving backup
+	async list(): Promise<string[]> {
+		const adapter = this.plugin.app.vault.adapter;
+		const dbDir = this.getDbDir();
+		if (!(await adapter.exists(dbDir))) return [];
+		const entries = await adapter.list(dbDir);
+		const keys = new Set<string>();
+		for (const file of entries.files || []) {
+			const name = file.slice(file.lastIndexOf("/") + 1);
+			const original = name.endsWith(BACKUP_FILE_SUFFIX)
+				? name.slice(0, -BACKUP_FILE_SUFFIX.length)
+				: name;
+			// Conflict copies are merged by listConflicts consumers, not read as entries
+			if (CONFLICT_COPY_PATTERN.test(original)) continue;
+			for (const ext of [".json", ".json" + BACKUP_FILE_SUFFIX]) {
+				if (name.toLowerCase().endsWith(ext)) {
+					keys.add(name.slice(0, -ext.length));
+				}
+			}
+		}
+		return Array.from(keys);
+	}
+
+	async move(fromKey: string, toKey: string): Promise<void> {
+		const from = this.getEntryPath(fromKey);
+		const adapter = this.plugin.app.vault.adapter;
+		if (await adapter.exists(from)) {
+			await this.delete(toKey);
+			await adapter.rename(from, this.getEntryPath(toKey));
+		} else {
+			// Only a backup survived an interrupted write: restore it under the new key
+			const data = await this.get(fromKey);
+			if (data === null) return;
+			await this.put(toKey, data);
+		}
+		await this.delete(fromKey);
+	}
+
+	// Each "<key> (conflict ...).json" style copy holds one value for its key
+	async listConflicts(): Promise<ConflictCopy[]> {
+		const files = await readConflictFiles(
+			this.plugin.app.vault.adapter,
+			this.getDbDir(),
+			".json"
+		);
+		return files.map(({ name, base, data }) => ({
+			name,
+			entries: parsesAsJson(data)
+				? new Map([[base, data]])
+				: new Map<string, string>(),
+		}));
+	}
+
+	async removeConflict(name: string): Promise<void> {
+		await this.plugin.app.vault.adapter.remove(
+			`${this.getDbDir()}/${name}`
+		);
+	}
+}
+
+// Consolidated state store: all entries kept in one keyed JSON file inside dbDir
+class ConsolidatedStateStore implements StateStore {
+	private plugin: AntiEphemeralState;
+	private entries: Map<string, unknown> | null = null;
+	private loadedPath: string | null = null;
+	private loadedMtime: number | null = null;
+	// Serializes file writes so concurrent puts never interleave
+	private writeChain: Promise<void> = Promise.resolve();
+
+	private fixedDbDir?: string; // set for stores bound to another directory (dbDir migration)
+
+	constructor(plugin: AntiEphemeralState, dbDir?: string) {
+		this.plugin = plugin;
+		this.fixedDbDir = dbDir;
+	}
 
-		// Restore view state if it was persisted
-		if (view && state.viewState) {
-			console.debug("[AES] Restoring view state:", state.viewState);
-			void view.setState(state.viewState, { history: false });
+	private getDbDir(): string {
+		return this.fixedDbDir ?? this.plugin.settings.dbDir;
+	}
+
+	getFilePath(): string {
+		return `${this.getDbDir()}/${CONSOLIDATED_DB_FILE}`;
+	}
+
+	// Load the database file when its path or mtime changed (e.g. after sync); throws on unreadable content to avoid clobbering it
+	private async load(): Promise<Map<string, unknown>> {
+		const path = this.getFilePath();
+		const adapter = this.plugin.app.vault.adapter;
+		const mtime = (await adapter.stat(path))?.mtime ?? null;
+		if (
+			this.entries &&
+			this.loadedPath === path &&
+			this.loadedMtime === mtime
+		) {
+			return this.entries;
 		}
 
-		// Defer cursor and scroll restoration until the layout is fully ready
-		this.app.workspace.onLayoutReady(() => {
-			if (state.cursor) {
-				const editor = this.getEditor();
-				if (editor) {
-					console.debug(
-						"[AES] Setting cursor position:",
-						state.cursor
-					);
-					const start = {
-						ch: state.cursor.start.col,
-						line: state.cursor.start.line,
-					};
-					const end = {
-						ch: state.cursor.end.col,
-						line: state.cursor.end.line,
-					};
-					editor.setSelection(start, end);
-				} else {
-					console.debug(
-						"[AES] No editor found for cursor positioning"
-					);
-				}
+		const entries = new Map<string, unknown>();
+		const raw = await readFileWithBackup(adapter, path);
+		if (raw !== null) {
+			const parsed = JSON.parse(raw) as unknown;
+			if (!isObject(parsed) || !isObject(parsed.entries)) {
+				throw new Error(
+					`[AES] Malformed consolidated database: ${path}`
+				);
 			}
+			for (const [key, value] of Object.entries(parsed.entries)) {
+				entries.set(key, value);
+			}
+		}
+		this.entries = entries;
+		this.loadedPath = path;
+		this.loadedMtime = mtime;
+		return entries;
+	}
 
-			if (view && state.scroll !== undefined) {
-				console.debug("[AES] Setting scroll position:", state.scroll);
-				// Use requestAnimationFrame to defer scroll operations and prevent measure loops
-				requestAnimationFrame(() => {
-					view.setEphemeralState(state);
-					// Verify scroll position was set correctly with retry mechanism
-					void this.verifyAndRetryScroll(
-						view,
-						state.scroll!,
-						0
-					).catch(e =>
-						console.warn("[AES] verifyAndRetryScroll failed:", e)
-					);
-				});
-			} else if (!view) {
-				console.debug(
-					"[AES] No MarkdownView found for scroll positioning"
-				);
+	private async persist(): Promise<void> {
+		const entries = this.entries;
+		const path = this.loadedPath;
+		if (!entries || !path) return;
+		const payload = JSON.stringify({
+			version: 1,
+			entries: Object.fromEntries(entries),
+		});
+		const run = async () => {
+			const adapter = this.plugin.app.vault.adapter;
+			const dbDir = this.getDbDir();
+			if (!(await adapter.exists(dbDir))) {
+				await adapter.mkdir(dbDir);
 			}
+			await writeFileAtomic(adapter, path, payload);
+			// Remember our own write so it is not mistaken for an external change
+			this.loadedMtime = (await adapter.stat(path))?.mtime ?? null;
+		};
+		const next = this.writeChain.then(run, run);
+		this.writeChain = next.catch(() => {
+			// Drop the unsaved snapshot so the next access reloads from disk
+			this.entries = null;
 		});
+		await next;
 	}
 
-	private getEditor(): Editor | undefined {
-		return this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+	async get(key: string): Promise<string | null> {
+		const value = (await this.load()).get(key);
+		if (value === undefined) return null;
+		return typeof value === "string" ? value : JSON.stringify(value);
 	}
 
-	// Public accessors for internal components used by LockManager
-	getLockStatusBar(): LockStatusBar | undefined {
-		return this.lockStatusBar;
+	// Keep entries as structured JSON on disk; unparsable payloads are stored verbatim
+	private toStored(data: string): unknown {
+		try {
+			return JSON.parse(data) as unknown;
+		} catch {
+			return data;
+		}
 	}
 
-	getChecksumIntegrity(): ChecksumIntegrity {
-		if (!this.checksumIntegrity) {
-			this.checksumIntegrity = new ChecksumIntegrity(this);
-		}
-		return this.checksumIntegrity;
+	async put(key: string, data: string): Promise<void> {
+		const entries = await this.load();
+		entries.set(key, this.toStored(data));
+		await this.persist();
 	}
 
-	// Enable Lock Mode UI live (create status bar if missing)
-	enableLockMode(): void {
-		if (!this.lockStatusBar) {
-			this.lockStatusBar = new LockStatusBar(this);
+	// Every put rewrites the whole file, so bulk changes are applied in memory and written once
+	async putMany(values: Map<string, string>): Promise<void> {
+		const entries = await this.load();
+		for (const [key, data] of values) {
+			entries.set(key, this.toStored(data));
 		}
-		this.registerLockCommand();
+		await this.persist();
 	}
 
-	// Disable Lock Mode UI live (remove status bar)
-	disableLockMode(): void {
-		if (this.lockStatusBar) {
-			this.lockStatusBar.dispose();
-			this.lockStatusBar = undefined;
+	async delete(key: string): Promise<void> {
+		const entries = await this.load();
+		if (!entries.delete(key)) return;
+		await this.persist();
+	}
+
+	async deleteMany(keys: string[]): Promise<void> {
+		const entries = await this.load();
+		let changed = false;
+		for (const key of keys) {
+			changed = entries.delete(key) || changed;
 		}
-		this.unregisterLockCommand();
+		if (changed) await this.persist();
 	}
 
-	// Register command to toggle lock state for active file
-	private registerLockCommand(): void {
-		if (this.lockCommandRegistered) return;
-		try {
-			this.addCommand({
-				id: this.lockCommandId,
-				name: "Lock/unlock",
-				callback: async () => {
-					const filePath = this.app.workspace.getActiveFile()?.path;
-					if (!filePath) return;
-					await this.lockManager?.toggleLockState(filePath);
-				},
+	async list(): Promise<string[]> {
+		return Array.from((await this.load()).keys());
+	}
+
+	async move(fromKey: string, toKey: string): Promise<void> {
+		const entries = await this.load();
+		const value = entries.get(fromKey);
+		if (value === undefined) return;
+		entries.delete(fromKey);
+		entries.set(toKey, value);
+		await this.persist();
+	}
+
+	// Conflict copies of the whole database file; each holds values for many keys
+	async listConflicts(): Promise<ConflictCopy[]> {
+		const files = await readConflictFiles(
+			this.plugin.app.vault.adapter,
+			this.getDbDir(),
+			".db"
+		);
+		const base = CONSOLIDATED_DB_FILE.slice(0, -".db".length);
+		return files
+			.filter(file => file.base === base)
+			.map(({ name, data }) => {
+				const entries = new Map<string, string>();
+				try {
+					const parsed = JSON.parse(data) as unknown;
+					if (isObject(parsed) && isObject(parsed.entries)) {
+						for (const [key, value] of Object.entries(
+							parsed.entries
+						)) {
+							entries.set(
+								key,
+								typeof value === "string"
+									? value
+									: JSON.stringify(value)
+							);
+						}
+					}
+				} catch {
+					// Unreadable copy: nothing to merge
+				}
+				return { name, entries };
 			});
-			this.lockCommandRegistered = true;
-		} catch (e) {
-			console.warn("[AES] addCommand failed:", e);
+	}
+
+	async removeConflict(name: string): Promise<void> {
+		await this.plugin.app.vault.adapter.remove(
+			`${this.getDbDir()}/${name}`
+		);
+	}
+}
+
+// Volatile state store: entries live only for the current session
+class MemoryStateStore implements StateStore {
+	private entries = new Map<string, string>();
+
+	get(key: string): Promise<string | null> {
+		return Promise.resolve(this.entries.get(key) ?? null);
+	}
+
+	put(key: string, data: string): Promise<void> {
+		this.entries.set(key, data);
+		return Promise.resolve();
+	}
+
+	delete(key: string): Promise<void> {
+		this.entries.delete(key);
+		return Promise.resolve();
+	}
+
+	list(): Promise<string[]> {
+		return Promise.resolve(Array.from(this.entries.keys()));
+	}
+
+	move(fromKey: string, toKey: string): Promise<void> {
+		const data = this.entries.get(fromKey);
+		if (data !== undefined) {
+			this.entries.delete(fromKey);
+			this.entries.set(toKey, data);
 		}
+		return Promise.resolve();
 	}
+}
 
-	// Unregister the lock toggle command if present
-	private unregisterLockCommand(): void {
-		if (!this.lockCommandRegistered) return;
+// Write several entries at once: one write for stores with putMany, one per entry otherwise
+async function putEntries(
+	store: StateStore,
+	entries: Map<string, string>
+): Promise<void> {
+	if (entries.size === 0) return;
+	if (store.putMany) return store.putMany(entries);
+	for (const [key, data] of entries) {
+		await store.put(key, data);
+	}
+}
+
+// Delete several entries at once. Without deleteMany every entry is tried before the failures are
+// reported, so cleanups and rollbacks get as far as they can
+async function deleteEntries(store: StateStore, keys: string[]): Promise<void> {
+	if (keys.length === 0) return;
+	if (store.deleteMany) return store.deleteMany(keys);
+	const failed: string[] = [];
+	for (const key of keys) {
 		try {
-			this.removeCommand(this.lockCommandId);
+			await store.delete(key);
 		} catch (e) {
-			console.warn("[AES] removeCommand failed:", e);
-		} finally {
-			this.lockCommandRegistered = false;
+			console.warn("[AES] Failed to delete entry:", key, e);
+			failed.push(key);
 		}
 	}
+	if (failed.length > 0) {
+		throw new Error(`[AES] Failed to delete entries: ${failed.join(", ")}`);
+	}
+}
 
-	async loadSettings() {
-		const loaded = (await this.loadData()) as unknown;
-		const loadedSettings = isObject(loaded) ? loaded : {};
-		let settings: PluginSettings = Object.assign(
-			{},
-			this.DEFAULT_SETTINGS,
-			loadedSettings
+function isEncryptedEntry(v: unknown): v is EncryptedEntry {
+	return (
+		isObject(v) &&
+		v.encrypted === "AES-GCM" &&
+		typeof v.iterations === "number" &&
+		typeof v.salt === "string" &&
+		typeof v.iv === "string" &&
+		typeof v.data === "string"
+	);
+}
+
+function toBase64(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+	return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+}
+
+// AES-GCM for state entries with the database key, derived once from the passphrase and the
+// database salt; only the IV differs per entry
+class StateCipher {
+	readonly key: CryptoKey;
+	readonly salt: string;
+	readonly iterations: number;
+
+	constructor(key: CryptoKey, salt: string, iterations: number) {
+		this.key = key;
+		this.salt = salt;
+		this.iterations = iterations;
+	}
+
+	static newSalt(): string {
+		return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+	}
+
+	static async derive(
+		passphrase: string,
+		salt: string,
+		iterations = KEY_DERIVATION_ITERATIONS
+	): Promise<StateCipher> {
+		const material = await crypto.subtle.importKey(
+			"raw",
+			new TextEncoder().encode(passphrase),
+			"PBKDF2",
+			false,
+			["deriveKey"]
 		);
-		// Apply default for lockModeEnabled (enabled by default)
-		if (typeof settings.lockModeEnabled !== "boolean") {
-			settings.lockModeEnabled = true;
+		const key = await crypto.subtle.deriveKey(
+			{
+				name: "PBKDF2",
+				hash: "SHA-256",
+				salt: fromBase64(salt),
+				iterations,
+			},
+			material,
+			{ name: "AES-GCM", length: 256 },
+			false,
+			["encrypt", "decrypt"]
+		);
+		return new StateCipher(key, salt, iterations);
+	}
+
+	// Whether the entry was encrypted with a key derived like this one
+	matches(entry: EncryptedEntry): boolean {
+		return entry.salt === this.salt && entry.iterations === this.iterations;
+	}
+
+	async encrypt(data: string): Promise<string> {
+		const iv = crypto.getRandomValues(new Uint8Array(12));
+		const ciphertext = await crypto.subtle.encrypt(
+			{ name: "AES-GCM", iv },
+			this.key,
+			new TextEncoder().encode(data)
+		);
+		const entry: EncryptedEntry = {
+			encrypted: "AES-GCM",
+			iterations: this.iterations,
+			salt: this.salt,
+			iv: toBase64(iv),
+			data: toBase64(new Uint8Array(ciphertext)),
+		};
+		return JSON.stringify(entry);
+	}
+
+	// Rejects when the entry was encrypted with another key or was tampered with
+	async decrypt(entry: EncryptedEntry): Promise<string> {
+		if (!this.matches(entry)) {
+			throw new Error("[AES] Entry was encrypted with another key");
 		}
-		this.settings = settings;
+		const plaintext = await crypto.subtle.decrypt(
+			{ name: "AES-GCM", iv: fromBase64(entry.iv) },
+			this.key,
+			fromBase64(entry.data)
+		);
+		return new TextDecoder().decode(plaintext);
 	}
+}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+// Progress of a validation run and whether it was asked to stop, which it does between batches
+class ValidationTask {
+	phase: ValidationPhase = "check";
+	done = 0;
+	total = 0;
+	cancelled = false;
+	private listeners: (() => void)[] = [];
+
+	onChange(listener: () => void): void {
+		this.listeners.push(listener);
 	}
 
-	async delay(ms: number) {
-		return sleep(ms);
+	update(phase: ValidationPhase, done: number, total: number): void {
+		this.phase = phase;
+		this.done = done;
+		this.total = total;
+		this.notify();
 	}
 
-	// Verify scroll position and retry if needed
-	private async verifyAndRetryScroll(
-		view: MarkdownView,
-		targetScroll: number,
-		attempt: number
-	) {
-		const maxAttempts = 4; // 4 attempts as requested
-		const retryDelay = 30; // Shorter delay
-		const tolerance = 0.02; // 2% tolerance as requested
+	cancel(): void {
+		if (this.cancelled) return;
+		this.cancelled = true;
+		this.notify();
+	}
 
-		// Wait a bit for the scroll to be applied
-		await this.delay(30);
+	private notify(): void {
+		for (const listener of this.listeners) listener();
+	}
+}
 
-		const currentScroll = view.currentMode?.getScroll();
-		if (currentScroll !== undefined) {
-			const scrollDifference = Math.abs(currentScroll - targetScroll);
-			const allowedDifference = Math.max(targetScroll * tolerance, 2); // At least 2px tolerance
+// A validation run cancelled before it changed anything
+class ValidationCancelledError extends Error {
+	constructor() {
+		super("[AES] Validation cancelled");
+		this.name = "ValidationCancelledError";
+	}
+}
 
-			console.debug(
-				"[AES] Scroll verification - Target:",
-				targetScroll,
-				"Current:",
-				currentScroll,
-				"Difference:",
-				scrollDifference,
-				"Allowed:",
-				allowedDifference
+// Raised when an encrypted entry cannot be decrypted on this device
+class LockedEntryError extends Error {
+	constructor(reason: string) {
+		super(`[AES] Entry is encrypted and ${reason}`);
+		this.name = "LockedEntryError";
+	}
+}
+
+// Wraps a backend: entries are encrypted on write while encryption is enabled, and encrypted entries
+// are decrypted on read in any case, so plain and encrypted entries can coexist during a switch
+class EncryptedStateStore implements StateStore {
+	private plugin: AntiEphemeralState;
+	readonly inner: StateStore;
+
+	constructor(plugin: AntiEphemeralState, inner: StateStore) {
+		this.plugin = plugin;
+		this.inner = inner;
+	}
+
+	// Plain serialized entry for a stored value; throws when it cannot be decrypted on this device
+	async decode(data: string): Promise<string> {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(data);
+		} catch {
+			return data;
+		}
+		if (!isEncryptedEntry(parsed)) return data;
+		const cipher = this.plugin.getStateCipher();
+		if (!cipher) {
+			throw new LockedEntryError(
+				"no passphrase was entered on this device"
+			);
+		}
+		try {
+			return await cipher.decrypt(parsed);
+		} catch {
+			// e.g. another device re-encrypted the database with a new passphrase
+			throw new LockedEntryError(
+				"the passphrase entered on this device does not match"
 			);
+		}
+	}
 
-			if (scrollDifference <= allowedDifference) {
-				console.debug("[AES] Scroll position verified successfully");
-				return;
-			}
+	private async encode(data: string): Promise<string> {
+		if (!this.plugin.settings.encryptionEnabled) return data;
+		const cipher = this.plugin.getStateCipher();
+		if (!cipher) {
+			// Never fall back to writing plain entries into an encrypted database
+			throw new Error(
+				"[AES] Database is encrypted and no passphrase was entered on this device"
+			);
+		}
+		return cipher.encrypt(data);
+	}
 
-			if (attempt < maxAttempts - 1) {
-				console.debug(
-					`[AES] Scroll position mismatch, retrying (attempt ${attempt + 1}/${maxAttempts})`
-				);
-				// Use requestAnimationFrame to avoid forced reflows
-				requestAnimationFrame(() => {
-					if (view.currentMode?.applyScroll) {
-						view.currentMode.applyScroll(targetScroll);
-					}
-				});
+	async get(key: string): Promise<string | null> {
+		const data = await this.inner.get(key);
+		return data === null ? null : this.decode(data);
+	}
 
-				// Wait and retry
-				await this.delay(retryDelay);
-				await this.verifyAndRetryScroll(
-					view,
-					targetScroll,
-					attempt + 1
-				);
-			} else {
-				console.debug(
-					"[AES] Scroll position close enough, accepting current position"
+	async put(key: string, data: string): Promise<void> {
+		await this.inner.put(key, await this.encode(data));
+	}
+
+	async putMany(entries: Map<string, string>): Promise<void> {
+		const encoded = new Map<string, string>();
+		for (const [key, data] of entries) {
+			encoded.set(key, await this.encode(data));
+		}
+		await putEntries(this.inner, encoded);
+	}
+
+	delete(key: string): Promise<void> {
+		return this.inner.delete(key);
+	}
+
+	deleteMany(keys: string[]): Promise<void> {
+		return deleteEntries(this.inner, keys);
+	}
+
+	list(): Promise<string[]> {
+		return this.inner.list();
+	}
+
+	move(fromKey: string, toKey: string): Promise<void> {
+		return this.inner.move(fromKey, toKey);
+	}
+
+	// Copies holding entries this device cannot decrypt are left for a device that can
+	async listConflicts(): Promise<ConflictCopy[]> {
+		if (!this.inner.listConflicts) return [];
+		const readable: ConflictCopy[] = [];
+		for (const copy of await this.inner.listConflicts()) {
+			try {
+				const entries = new Map<string, string>();
+				for (const [key, data] of copy.entries) {
+					entries.set(key, await this.decode(data));
+				}
+				readable.push({ name: copy.name, entries });
+			} catch (e) {
+				console.warn(
+					"[AES] Cannot decrypt conflict copy:",
+					copy.name,
+					e
 				);
-				// Don't show notification for minor differences
-			}
-		} else {
-			console.debug(
-				"[AES] Could not get current scroll position for verification"
-			);
+			}
 		}
+		return readable;
+	}
+
+	async removeConflict(name: string): Promise<void> {
+		await this.inner.removeConflict?.(name);
 	}
 }
 
-class SettingTab extends PluginSettingTab {
-	plugin: AntiEphemeralState;
+// Open (creating on first use) an IndexedDB database with a single object store
+function openIndexedDB(name: string, storeName: string): Promise<IDBDatabase> {
+	return new Promise<IDBDatabase>((resolve, reject) => {
+		const request = indexedDB.open(name, 1);
+		request.onupgradeneeded = () => {
+			request.result.createObjectStore(storeName);
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () =>
+			reject(
+				request.error ??
+					new Error(`[AES] Cannot open IndexedDB ${name}`)
+			);
+	});
+}
 
-	constructor(app: App, plugin: AntiEphemeralState) {
-		super(app, plugin);
-		this.plugin = plugin;
-	}
+// Run requests in one transaction; resolves with the last request's result once it committed
+function transactIndexedDB<T>(
+	db: IDBDatabase,
+	storeName: string,
+	mode: IDBTransactionMode,
+	run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+	return new Promise<T>((resolve, reject) => {
+		const tx = db.transaction(storeName, mode);
+		const request = run(tx.objectStore(storeName));
+		tx.oncomplete = () => resolve(request.result);
+		const fail = () =>
+			reject(tx.error ?? new Error("[AES] IndexedDB transaction failed"));
+		tx.onerror = fail;
+		tx.onabort = fail;
+	});
+}
 
-	display(): void {
-		let { containerEl } = this;
+// The database key of this device, in an IndexedDB database of its own next to the device-local
+// states. IndexedDB keeps the non-extractable CryptoKey as is, so neither the passphrase nor key
+// bytes are ever written anywhere
+class DatabaseKeyStore {
+	private name: string;
 
-		containerEl.empty();
+	constructor(name: string) {
+		this.name = name;
+	}
 
-		new Setting(containerEl)
-			.setName("Database directory")
-			.setDesc(
-				"Root directory for per-file state persistence (one database file per note)"
-			)
-			.addText(text =>
-				text
-					.setPlaceholder(this.plugin.DEFAULT_SETTINGS.dbDir)
-					.setValue(this.plugin.settings.dbDir)
-					.onChange(async value => {
-						this.plugin.settings.dbDir = value;
-						await this.plugin.saveSettings();
-					})
-			);
+	private async transact<T>(
+		mode: IDBTransactionMode,
+		run: (store: IDBObjectStore) => IDBRequest<T>
+	): Promise<T> {
+		const db = await openIndexedDB(this.name, IDB_KEY_STORE_NAME);
+		try {
+			return await transactIndexedDB(db, IDB_KEY_STORE_NAME, mode, run);
+		} finally {
+			db.close();
+		}
+	}
 
-		new Setting(containerEl)
-			.setName("Database validation")
-			.setDesc(
-				"Iterate over database entries, fix wrong states, and remove entries for missing notes"
-			)
-			.addButton(btn => {
-				btn.setButtonText("Run validation")
-					.setCta()
-					.onClick(async () => {
-						new Notice("Validation started...", 1000);
-						await this.plugin.validateDatabase();
-					});
-			});
+	async load(): Promise<StateCipher | null> {
+		const value = (await this.transact("readonly", store =>
+			store.get(DATABASE_KEY_ID)
+		)) as Partial<StoredDatabaseKey> | undefined;
+		if (
+			!value?.key ||
+			typeof value.salt !== "string" ||
+			typeof value.iterations !== "number"
+		) {
+			return null;
+		}
+		return new StateCipher(value.key, value.salt, value.iterations);
+	}
 
-		// Toggle to enable/disable Lock Mode
-		new Setting(containerEl)
-			.setName("Enable lock mode")
-			.setDesc(
-				"Show lock mode UI and enforce read-only for protected notes"
-			)
-			.addToggle(toggle =>
-				toggle
-					.setValue(this.plugin.settings.lockModeEnabled !== false)
-					.onChange(value => {
-						void (async () => {
-							this.plugin.settings.lockModeEnabled = value;
-							await this.plugin.saveSettings();
-							if (value) {
-								this.plugin.enableLockMode();
-								// Ensure helpers exist
-								this.plugin.getChecksumIntegrity();
-								if (!this.plugin.lockManager) {
-									this.plugin.lockManager = new LockManager(
-										this.plugin
-									);
-								}
-							} else {
-								this.plugin.disableLockMode();
-							}
-						})().catch(e =>
-							console.warn(
-								"[AES] Failed to toggle lock mode setting:",
-								e
-							)
-						);
-					})
-			);
+	// Remember the cipher's key, or forget the stored one for null
+	async save(cipher: StateCipher | null): Promise<void> {
+		await this.transact("readwrite", store => {
+			if (!cipher) return store.delete(DATABASE_KEY_ID);
+			const stored: StoredDatabaseKey = {
+				key: cipher.key,
+				salt: cipher.salt,
+				iterations: cipher.iterations,
+			};
+			return store.put(stored, DATABASE_KEY_ID);
+		});
 	}
 }
 
-// Minimal Status Bar controller for Lock Mode UI
-class LockStatusBar {
-	private plugin: AntiEphemeralState;
-	private el: HTMLElement;
-	private state: "unlocked" | "locked" | "corrupted" = "unlocked";
+// Device-local state store: entries live in IndexedDB, one database per vault, and never enter vault sync
+class IndexedDBStateStore implements StateStore {
+	private name: string;
+	private db: Promise<IDBDatabase> | null = null;
 
-	constructor(plugin: AntiEphemeralState) {
-		this.plugin = plugin;
-		this.el = this.plugin.addStatusBarItem();
-		this.el.classList.add("aes-lock-status");
-		this.el.addEventListener("click", () => {
-			void this.onClick().catch(e =>
-				console.warn("[AES] Lock toggle failed:", e)
-			);
-		});
-		this.updateIcon(this.state);
+	constructor(name: string) {
+		this.name = name;
 	}
 
-	// Update visual icon and tooltip
-	updateIcon(state: "unlocked" | "locked" | "corrupted"): void {
-		this.state = state;
-		// Use simple emoji icons; can be replaced with Obsidian icons later
-		let tooltip: string;
-		switch (state) {
-			case "locked":
-				this.el.textContent = "●";
-				tooltip = "Locked";
-				break;
-			case "corrupted":
-				this.el.textContent = "✖";
-				tooltip = "Modified externally";
-				break;
-			default:
-				this.el.textContent = "○";
-				tooltip = "Unlocked";
+	private open(): Promise<IDBDatabase> {
+		if (!this.db) {
+			const opening = openIndexedDB(this.name, IDB_STORE_NAME);
+			// A failed open is retried on the next access
+			opening.catch(() => {
+				this.db = null;
+			});
+			this.db = opening;
 		}
-
-		// Apply Obsidian tooltip (black) with proper placement; avoid native duplicates
-		this.el.removeAttribute("title");
-		this.el.removeAttribute("aria-label");
-		setTooltip(this.el, tooltip, { placement: "top", gap: 6 });
+		return this.db;
 	}
 
-	private async onClick(): Promise<void> {
-		// Delegate to LockManager to toggle protection for the active file
-		const filePath = this.plugin.app.workspace.getActiveFile()?.path;
-		if (!filePath) return;
-		await this.plugin.lockManager?.toggleLockState(filePath);
+	private async transact<T>(
+		mode: IDBTransactionMode,
+		run: (store: IDBObjectStore) => IDBRequest<T>
+	): Promise<T> {
+		return transactIndexedDB(await this.open(), IDB_STORE_NAME, mode, run);
 	}
 
-	// Remove DOM and detach listeners
-	dispose(): void {
-		if (this.el && this.el.remove) {
-			this.el.remove();
-		}
+	async get(key: string): Promise<string | null> {
+		const value: unknown = await this.transact("readonly", store =>
+			store.get(key)
+		);
+		return typeof value === "string" ? value : null;
 	}
-}
 
-// Minimal integrity checker using file modification time (mtime)
-class ChecksumIntegrity {
-	private plugin: AntiEphemeralState;
+	async put(key: string, data: string): Promise<void> {
+		await this.transact("readwrite", store => store.put(data, key));
+	}
 
-	constructor(plugin: AntiEphemeralState) {
-		this.plugin = plugin;
+	async delete(key: string): Promise<void> {
+		await this.transact("readwrite", store => store.delete(key));
 	}
 
-	// Get file modification timestamp in milliseconds using Obsidian adapter
-	async getFileTimestamp(filePath: string): Promise<number> {
-		const s = await this.plugin.app.vault.adapter.stat(filePath);
-		if (!s || typeof s.mtime !== "number") {
-			throw new Error(`[AES] stat() returned no mtime for ${filePath}`);
-		}
-		return s.mtime;
+	async list(): Promise<string[]> {
+		const keys = await this.transact("readonly", store =>
+			store.getAllKeys()
+		);
+		return keys.filter((key): key is string => typeof key === "string");
 	}
 
-	// Compare current mtime with expected timestamp
-	async verifyFileIntegrity(
-		filePath: string,
-		expectedTimestamp: number
-	): Promise<boolean> {
-		const current = await this.getFileTimestamp(filePath);
-		// Debug: log both timestamps for troubleshooting mtime caching/mismatch
-		console.debug("[AES] Integrity mtime match check:", {
-			filePath,
-			apiTimestamp: current,
-			stateTimestamp: expectedTimestamp,
+	async move(fromKey: string, toKey: string): Promise<void> {
+		await this.transact("readwrite", store => {
+			const request = store.get(fromKey);
+			request.onsuccess = () => {
+				if (request.result === undefined) return;
+				store.put(request.result, toKey);
+				store.delete(fromKey);
+			};
+			return request;
 		});
-		return current === expectedTimestamp;
 	}
 }
 
-// Lock manager controlling protected state and status bar integration
-class LockManager {
+// Write-through cache of note states keyed by note path; null caches "no saved state"
+class StateCache {
 	private plugin: AntiEphemeralState;
+	private entries = new Map<
+		string,
+		{ key: string; state: TemporaryState | null }
+	>();
+	// Backend and database directory the cached states were read from
+	private scope: string | null = null;
+	// Bumped on every change so reads that raced a write do not cache stale data
+	epoch = 0;
+	// Counters shown in settings
+	hits = 0;
+	misses = 0;
+	writes = 0;
+	skippedWrites = 0;
 
 	constructor(plugin: AntiEphemeralState) {
 		this.plugin = plugin;
 	}
 
-	// Toggle protection for the given file
-	async toggleLockState(filePath: string): Promise<void> {
-		// Read current state
-		const current = (await this.plugin.readFileState(filePath)) || {};
-		const nextProtected = !current.protected;
+	private checkScope(): void {
+		const scope = `${this.plugin.getStorageBackend()}:${this.plugin.settings.dbDir}`;
+		if (this.scope !== scope) {
+			this.entries.clear();
+			this.scope = scope;
+			this.epoch++;
+		}
+	}
 
-		// Update UI icon early for responsiveness
-		const sb = this.plugin.getLockStatusBar();
-		if (sb) {
-			sb.updateIcon(nextProtected ? "locked" : "unlocked");
+	// Cached state (a copy), null when the note has none, undefined on a miss
+	get(filePath: string): TemporaryState | null | undefined {
+		this.checkScope();
+		const cached = this.entries.get(filePath);
+		if (!cached) {
+			this.misses++;
+			return undefined;
 		}
+		this.hits++;
+		return cached.state && cloneState(cached.state);
+	}
 
-		// Persist new state with timestamp if locking
-		let timestamp: number | null = null;
-		if (nextProtected) {
-			try {
-				const integrity = this.plugin.getChecksumIntegrity();
-				timestamp = await integrity.getFileTimestamp(filePath);
-			} catch (e) {
-				console.error("[AES] Failed to acquire timestamp for lock:", e);
-				timestamp = null;
+	// Whether the cached state is identical to the given one
+	matches(filePath: string, state: TemporaryState): boolean {
+		this.checkScope();
+		const cached = this.entries.get(filePath);
+		return (
+			!!cached?.state &&
+			JSON.stringify(cached.state) === JSON.stringify(state)
+		);
+	}
+
+	set(filePath: string, key: string, state: TemporaryState | null): void {
+		this.checkScope();
+		this.entries.set(filePath, {
+			key,
+			state: state && cloneState(state),
+		});
+		this.epoch++;
+	}
+
+	// Populate after a store read, unless the cache changed while reading
+	fill(
+		filePath: string,
+		key: string,
+		state: TemporaryState | null,
+		epoch: number
+	): void {
+		if (this.epoch !== epoch) return;
+		this.set(filePath, key, state);
+	}
+
+	invalidate(filePath: string): void {
+		this.entries.delete(filePath);
+		this.epoch++;
+	}
+
+	invalidateKey(key: string): void {
+		for (const [filePath, cached] of this.entries) {
+			if (cached.key === key) {
+				this.entries.delete(filePath);
 			}
 		}
+		this.epoch++;
+	}
 
-		const newState: TemporaryState = {
-			...current,
-			protected: nextProtected,
-			timestamp,
-		};
+	clear(): void {
+		this.entries.clear();
+		this.epoch++;
+	}
 
-		await this.plugin.writeFileState(filePath, newState);
-		// Keep plugin memory in sync to prevent later auto-saves from overwriting lock fields
-		this.plugin.lastTemporaryState = {
-			...(this.plugin.lastTemporaryState || {}),
-			...newState,
-		};
+	resetCounters(): void {
+		this.hits = 0;
+		this.misses = 0;
+		this.writes = 0;
+		this.skippedWrites = 0;
+	}
+}
 
-		// If we just enabled protection, immediately enforce preview mode
-		if (nextProtected) {
-			await this.enforceReadOnlyMode(filePath);
+// Coalesces saves per note: each path has its own debouncer, so saving another note never replaces a pending one
+class SaveQueue {
+	private plugin: AntiEphemeralState;
+	private pending = new Map<string, TemporaryState>();
+	private debouncers = new Map<string, Debouncer<[], void>>();
+	// Writes started by flush() that have not settled yet
+	private inFlight = new Set<Promise<void>>();
+
+	constructor(plugin: AntiEphemeralState) {
+		this.plugin = plugin;
+	}
+
+	// Replace the pending state of a note and restart its timer
+	schedule(filePath: string, state: TemporaryState): void {
+		this.pending.set(filePath, state);
+		let debouncer = this.debouncers.get(filePath);
+		if (!debouncer) {
+			debouncer = debounce(
+				() => {
+					void this.flush(filePath);
+				},
+				DELAY_WRITING_DB,
+				true
+			);
+			this.debouncers.set(filePath, debouncer);
 		}
+		debouncer();
 	}
 
-	// Returns true when file is considered locked
-	async isFileLocked(filePath: string): Promise<boolean> {
-		const current = await this.plugin.readFileState(filePath);
-		return !!current?.protected;
+	// Drop the pending state of a note without writing it
+	discard(filePath: string): void {
+		this.debouncers.get(filePath)?.cancel();
+		this.debouncers.delete(filePath);
+		this.pending.delete(filePath);
 	}
 
-	// Ensure MarkdownView is in preview when file is locked. Preserve cursor/scroll via plugin.setTemporaryState
-	async enforceReadOnlyMode(filePath: string): Promise<void> {
-		// Fast path: only act when current file matches and is locked
-		const active =
-			this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!active || active.file?.path !== filePath) return;
-		const locked = await this.isFileLocked(filePath);
-		if (!locked) return;
+	// Re-base a pending state on a newer stored one (e.g. from another device): this device's position
+	// and view are kept, everything else comes from `stored`
+	rebase(filePath: string, stored: TemporaryState, deviceId: string): void {
+		const state = this.pending.get(filePath);
+		if (!state) return;
+		const own = state.devices?.[deviceId];
+		this.pending.set(filePath, {
+			...stored,
+			cursor: state.cursor,
+			scroll: state.scroll,
+			viewState: state.viewState,
+			devices: { ...stored.devices, ...(own ? { [deviceId]: own } : {}) },
+			fieldUpdatedAt: state.fieldUpdatedAt,
+		});
+	}
 
-		// Check current mode; if already preview, do nothing
-		const rawState = active.getState();
-		const mode =
-			typeof rawState.mode === "string" ? rawState.mode : undefined;
-		if (mode === "preview") return;
+	hasPending(filePath?: string): boolean {
+		return filePath === undefined
+			? this.pending.size > 0
+			: this.pending.has(filePath);
+	}
 
-		// Capture cursor/scroll only to avoid restoring mode back to source
-		const ephemeral = this.plugin.getTemporaryState();
-		const toRestore: TemporaryState = {
-			cursor: ephemeral.cursor,
-			scroll: ephemeral.scroll,
-		};
+	// Write the pending state of a note now
+	async flush(filePath: string): Promise<void> {
+		this.debouncers.get(filePath)?.cancel();
+		this.debouncers.delete(filePath);
+		const state = this.pending.get(filePath);
+		if (!state) return;
+		this.pending.delete(filePath);
+		const write = this.plugin.writeFileState(filePath, state);
+		this.inFlight.add(write);
+		try {
+			await write;
+		} finally {
+			this.inFlight.delete(write);
+		}
+	}
 
-		// Switch to preview using official API
-		await active.setState(
-			{
-				...active.getState(),
-				mode: "preview",
-			},
-			{ history: false }
+	async flushExcept(filePath?: string): Promise<void> {
+		const paths = Array.from(this.pending.keys()).filter(
+			p => p !== filePath
 		);
+		await Promise.all(paths.map(p => this.flush(p)));
+	}
 
-		// Re-apply only cursor/scroll to avoid UX jumps
-		this.plugin.setTemporaryState(toRestore);
-
-		// Inform user about automatic enforcement of Lock Mode
-		new Notice("Lock mode enabled", 1000);
+	// Write everything pending and wait for writes already in progress
+	async flushAll(): Promise<void> {
+		await this.flushExcept();
+		await Promise.all(Array.from(this.inFlight));
 	}
 }
 
@@ -107,6 +107,23 @@ export class MockVaultAdapter implements DataAdapter {
 		this.mtimes.delete(path);
 	}
 
+	async rmdir(path: string, recursive: boolean): Promise<void> {
+		const inside = (p: string) => p.startsWith(path + "/");
+		const files = Array.from(this.files.keys()).filter(inside);
+		const dirs = Array.from(this.directories).filter(inside);
+		if (!recursive && files.length + dirs.length > 0) {
+			throw new Error(`Directory not empty: ${path}`);
+		}
+		for (const file of files) {
+			this.files.delete(file);
+			this.mtimes.delete(file);
+		}
+		for (const dir of dirs) {
+			this.directories.delete(dir);
+		}
+		this.directories.delete(path);
+	}
+
 	async rename(oldPath: string, newPath: string): Promise<void> {
 		if (this.files.has(oldPath)) {
 			const data = this.files.get(oldPath);
@@ -120,6 +137,10 @@ export class MockVaultAdapter implements DataAdapter {
 		}
 	}
 
+	getMtime(path: string): number {
+		return this.mtimes.get(path) ?? Date.now();
+	}
+
 	async stat(path: string): Promise<{ mtime: number } | null> {
 		if (this.files.has(path)) {
 			const mtime = this.mtimes.get(path) ?? Date.now();
@@ -159,9 +180,6 @@ export class MockVaultAdapter implements DataAdapter {
 				if (!relativePath.includes("/")) {
 					folders.push(dirPath);
 				}
-			} else if (path !== "" && dirPath === path) {
-				// The path itself is a directory
-				folders.push(dirPath);
 			}
 		}
 
@@ -195,6 +213,10 @@ export class MockVault {
 		this.adapter = new MockVaultAdapter();
 	}
 
+	getName(): string {
+		return "test-vault";
+	}
+
 	async read(file: TFile): Promise<string> {
 		return this.adapter.read(file.path);
 	}
@@ -222,6 +244,20 @@ export class MockVault {
 		return adapter.getAllFiles().includes(path) ? new TFile(path) : null;
 	}
 
+	// Like Obsidian, files in hidden folders (the config folder) are not part of the vault
+	getFiles(): TFile[] {
+		const adapter = this.adapter as MockVaultAdapter;
+		return adapter
+			.getAllFiles()
+			.filter(path => !path.split("/").some(p => p.startsWith(".")))
+			.map(path => {
+				const file = new TFile(path);
+				const mtime = adapter.getMtime(path);
+				file.stat = { ctime: mtime, mtime, size: 0 };
+				return file;
+			});
+	}
+
 	// Event system
 	on(event: string, callback: (...args: unknown[]) => void): void {
 		if (!this.listeners.has(event)) {
@@ -253,6 +289,54 @@ export class MockVault {
 	}
 }
 
+// Frontmatter kept per note path; tests seed it through `frontmatter`
+export class MockMetadataCache {
+	frontmatter: Map<string, Record<string, unknown>> = new Map();
+	private listeners: Map<string, ((...args: unknown[]) => void)[]> =
+		new Map();
+
+	getFileCache(file: TFile): { frontmatter?: Record<string, unknown> } {
+		const frontmatter = this.frontmatter.get(file.path);
+		return frontmatter ? { frontmatter } : {};
+	}
+
+	on(event: string, callback: (...args: unknown[]) => void): void {
+		if (!this.listeners.has(event)) {
+			this.listeners.set(event, []);
+		}
+		this.listeners.get(event)?.push(callback);
+	}
+
+	trigger(event: string, ...args: unknown[]): void {
+		this.listeners.get(event)?.forEach(callback => callback(...args));
+	}
+}
+
+// Like Obsidian, processing frontmatter rewrites the note, so its mtime changes
+export class MockFileManager {
+	constructor(
+		private vault: MockVault,
+		private metadataCache: MockMetadataCache
+	) {}
+
+	async processFrontMatter(
+		file: TFile,
+		fn: (frontmatter: Record<string, unknown>) => void
+	): Promise<void> {
+		const frontmatter = {
+			...(this.metadataCache.frontmatter.get(file.path) ?? {}),
+		};
+		fn(frontmatter);
+		this.metadataCache.frontmatter.set(file.path, frontmatter);
+		const adapter = this.vault.adapter;
+		const body = (await adapter.exists(file.path))
+			? await adapter.read(file.path)
+			: "";
+		await adapter.write(file.path, body);
+		this.metadataCache.trigger("changed", file);
+	}
+}
+
 export class MockWorkspaceSplit {
 	children: MockWorkspaceSplit[] = [];
 	type: string = "split";
@@ -357,8 +441,19 @@ export class Plugin {
 		this.manifest = manifest;
 	}
 
+	// Intervals registered via registerInterval, cleared on unload like in Obsidian
+	private __intervals: number[] = [];
+
 	onload(): void {}
-	onunload(): void {}
+	onunload(): void {
+		this.__intervals.forEach(id => window.clearInterval(id));
+		this.__intervals = [];
+	}
+
+	registerInterval(id: number): number {
+		this.__intervals.push(id);
+		return id;
+	}
 
 	addCommand(cmd: {
 		id: string;
@@ -589,6 +684,7 @@ export class TFile {
 	extension: string;
 	parent: TFolder | null = null;
 	vault: Vault; // Changed from MockVault | null to Vault
+	stat: FileStats = { ctime: 0, mtime: 0, size: 0 };
 
 	constructor(
 		public path: string,
@@ -686,8 +782,8 @@ export class App implements MockApp {
 	// Additional properties to match Obsidian API
 	keymap: Keymap = new Keymap();
 	scope: Scope = new Scope();
-	metadataCache: unknown = {};
-	fileManager: unknown = {};
+	metadataCache: MockMetadataCache = new MockMetadataCache();
+	fileManager: MockFileManager;
 	lastOpenFiles: unknown = {};
 	dragManager: unknown = {};
 	plugins: unknown = {};
@@ -699,6 +795,7 @@ export class App implements MockApp {
 	constructor(configDir = "/test/.obsidian") {
 		this.vault = new MockVault(configDir);
 		this.workspace = new MockWorkspace();
+		this.fileManager = new MockFileManager(this.vault, this.metadataCache);
 	}
 
 	// Test utilities
@@ -805,6 +902,14 @@ export class Editor {
 		this.content = content;
 	}
 
+	lineCount(): number {
+		return this.content.split("\n").length;
+	}
+
+	getLine(line: number): string {
+		return this.content.split("\n")[line] ?? "";
+	}
+
 	getCursor(type?: "anchor" | "head"): EditorPosition {
 		// Mock implementation - returns same cursor for both anchor and head
 		return { ...this.cursor };
@@ -831,6 +936,13 @@ export class Editor {
 	}
 }
 
+// Path normalization mirroring Obsidian: unify slashes, trim, NFC
+export function normalizePath(path: string): string {
+	let normalized = path.replace(/([\\/])+/g, "/").replace(/(^\/+|\/+$)/g, "");
+	if (normalized === "") normalized = "/";
+	return normalized.replace(/\u00A0|\u202F/g, " ").normalize("NFC");
+}
+
 // Debounce function mock
 export function debounce<T extends unknown[]>(
 	callback: (...args: T) => void,
@@ -0,0 +1,156 @@
+/**
+ * Tests for crash-safe database writes
+ * Coverage: temporary file + rename, .bak fallback on read, backup cleanup
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVault,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+	TFile,
+	TAbstractFile,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+describe("AntiEphemeralState Atomic Writes", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let manifest: MockManifest;
+	let mockVault: MockVault;
+	let adapter: MockVaultAdapter;
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		mockVault = app.vault;
+		adapter = mockVault.adapter as MockVaultAdapter;
+
+		plugin.DEFAULT_SETTINGS = {
+			dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
+			lockModeEnabled: true,
+		};
+		plugin.settings = { ...plugin.DEFAULT_SETTINGS };
+	});
+
+	afterEach(() => {
+		adapter.reset();
+	});
+
+	describe("per-file backend", () => {
+		const notePath = "notes/atomic.md";
+
+		it("should write through a temporary file and keep the previous version", async () => {
+			const dbPath = await plugin.getDbFilePath(notePath);
+			const written: string[] = [];
+			const originalWrite = adapter.write.bind(adapter);
+			adapter.write = async (path: string, data: string) => {
+				written.push(path);
+				return originalWrite(path, data);
+			};
+
+			await plugin.writeFileState(notePath, { scroll: 1 });
+			await plugin.writeFileState(notePath, { scroll: 2 });
+			adapter.write = originalWrite;
+
+			expect(written).toEqual([`${dbPath}.tmp`, `${dbPath}.tmp`]);
+			expect(await adapter.exists(`${dbPath}.tmp`)).toBe(false);
+			expect(JSON.parse(await adapter.read(dbPath)).scroll).toBe(2);
+			expect(JSON.parse(await adapter.read(`${dbPath}.bak`)).scroll).toBe(
+				1
+			);
+		});
+
+		it("should fall back to the backup when the primary is truncated", async () => {
+			const dbPath = await plugin.getDbFilePath(notePath);
+			await plugin.writeFileState(notePath, { scroll: 1 });
+			await plugin.writeFileState(notePath, { scroll: 2 });
+			await adapter.write(dbPath, '{"scroll":');
+			plugin.onDatabaseChange(dbPath);
+
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(1);
+		});
+
+		it("should not replace the backup with a truncated primary", async () => {
+			const dbPath = await plugin.getDbFilePath(notePath);
+			await plugin.writeFileState(notePath, { scroll: 1 });
+			await plugin.writeFileState(notePath, { scroll: 2 });
+			await adapter.write(dbPath, '{"scroll":');
+
+			await plugin.writeFileState(notePath, { scroll: 3 });
+
+			expect(JSON.parse(await adapter.read(dbPath)).scroll).toBe(3);
+			expect(JSON.parse(await adapter.read(`${dbPath}.bak`)).scroll).toBe(
+				1
+			);
+		});
+
+		it("should keep the previous file when the temporary copy does not verify", async () => {
+			const dbPath = await plugin.getDbFilePath(notePath);
+			await plugin.writeFileState(notePath, { scroll: 1 });
+			const originalWrite = adapter.write.bind(adapter);
+			adapter.write = async (path: string, data: string) =>
+				originalWrite(path, data.slice(0, 5));
+
+			await plugin.writeFileState(notePath, { scroll: 2 });
+			adapter.write = originalWrite;
+
+			expect(JSON.parse(await adapter.read(dbPath)).scroll).toBe(1);
+			expect(await adapter.exists(`${dbPath}.tmp`)).toBe(false);
+		});
+
+		it("should list and read entries that only have a backup left", async () => {
+			const dbPath = await plugin.getDbFilePath(notePath);
+			await plugin.writeFileState(notePath, { scroll: 1 });
+			await plugin.writeFileState(notePath, { scroll: 2 });
+			// Interrupted between moving the primary aside and renaming the new file in
+			await adapter.remove(dbPath);
+			plugin.onDatabaseChange(dbPath);
+
+			expect(await plugin.getStateStore().list()).toEqual([
+				await plugin.getFileHash(notePath),
+			]);
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(1);
+		});
+
+		it("should remove backups together with the entry", async () => {
+			await plugin.writeFileState(notePath, { scroll: 1 });
+			await plugin.writeFileState(notePath, { scroll: 2 });
+
+			await plugin.deleteFile(new TFile(notePath) as TAbstractFile);
+
+			expect(
+				adapter
+					.getAllFiles()
+					.filter(f => f.startsWith(plugin.settings.dbDir))
+			).toEqual([]);
+		});
+	});
+
+	describe("single-file backend", () => {
+		beforeEach(() => {
+			plugin.settings.storageBackend = "single-file";
+		});
+
+		it("should recover the database from its backup", async () => {
+			const dbFile = `${plugin.settings.dbDir}/states.db`;
+			await plugin.writeFileState("a.md", { scroll: 1 });
+			await plugin.writeFileState("b.md", { scroll: 2 });
+			await plugin.delay(5);
+			await adapter.write(dbFile, '{"version":1,"entr');
+			plugin.onDatabaseChange(dbFile);
+
+			expect((await plugin.readFileState("a.md"))?.scroll).toBe(1);
+			expect(await plugin.readFileState("b.md")).toBeNull();
+		});
+	});
+});
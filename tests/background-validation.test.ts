@@ -0,0 +1,326 @@
+/**
+ * Tests for batched, cancellable and automatic database validation
+ * Coverage: concurrent batches, progress, cancellation while checking and applying, status bar, single run, automatic runs and their review
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import * as obsidian from "obsidian";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+const HOUR = 60 * 60 * 1000;
+
+describe("AntiEphemeralState Background Validation", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let adapter: MockVaultAdapter;
+	let notices: string[];
+	let fragments: DocumentFragment[];
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		const manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		plugin.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+		notices = [];
+		fragments = [];
+		jest.spyOn(obsidian, "Notice").mockImplementation(((
+			message: string | DocumentFragment
+		) => {
+			if (typeof message === "string") {
+				notices.push(message);
+			} else {
+				notices.push(message.textContent ?? "");
+				fragments.push(message);
+			}
+			return { hide: jest.fn() };
+		}) as never);
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	// States of notes that no longer exist, each under its own key
+	const storeOrphans = async (count: number) => {
+		for (let i = 0; i < count; i++) {
+			const path = `gone/${i}.md`;
+			await plugin.writeFileState(path, {
+				viewState: { type: "markdown", file: path } as never,
+			});
+		}
+	};
+
+	describe("batches", () => {
+		it("should check entries concurrently, a bounded number at a time", async () => {
+			await storeOrphans(50);
+			const store = plugin.getStateStore();
+			const get = store.get.bind(store);
+			let running = 0;
+			let most = 0;
+			jest.spyOn(store, "get").mockImplementation(async key => {
+				running++;
+				most = Math.max(most, running);
+				await Promise.resolve();
+				try {
+					return await get(key);
+				} finally {
+					running--;
+				}
+			});
+
+			const report = await plugin.planValidation();
+
+			expect(most).toBeGreaterThan(1);
+			expect(most).toBeLessThanOrEqual(20);
+			expect(report.total).toBe(50);
+			// Listed in key order however the checks interleaved
+			expect(report.actions.map(a => a.key)).toEqual(await store.list());
+		});
+
+		it("should pause between batches", async () => {
+			await storeOrphans(50);
+			const delaySpy = jest.spyOn(plugin, "delay");
+
+			await plugin.planValidation();
+
+			expect(delaySpy).toHaveBeenCalledTimes(2);
+		});
+
+		it("should report progress of each batch", async () => {
+			await storeOrphans(45);
+			const task = plugin.beginValidation()!;
+			const progress: string[] = [];
+			task.onChange(() =>
+				progress.push(`${task.phase} ${task.done}/${task.total}`)
+			);
+
+			const report = await plugin.planValidation(task);
+			await plugin.applyValidation(report.actions, task);
+
+			expect(progress).toEqual([
+				"check 0/45",
+				"check 20/45",
+				"check 40/45",
+				"check 45/45",
+				"apply 0/45",
+				"apply 20/45",
+				"apply 40/45",
+				"apply 45/45",
+			]);
+		});
+	});
+
+	describe("cancellation", () => {
+		it("should stop checking without changing anything", async () => {
+			await storeOrphans(30);
+			const task = plugin.beginValidation()!;
+			task.onChange(() => {
+				if (task.done >= 20) task.cancel();
+			});
+
+			await expect(plugin.planValidation(task)).rejects.toMatchObject({
+				name: "ValidationCancelledError",
+			});
+
+			expect(await plugin.getStateStore().list()).toHaveLength(30);
+		});
+
+		it("should keep what was applied before it was cancelled", async () => {
+			await storeOrphans(30);
+			const report = await plugin.planValidation();
+			const task = plugin.beginValidation()!;
+			task.onChange(() => {
+				if (task.phase === "apply" && task.done >= 20) task.cancel();
+			});
+
+			const outcome = await plugin.applyValidation(report.actions, task);
+
+			expect(outcome).toMatchObject({ cancelled: true, removed: 20 });
+			expect(await plugin.getStateStore().list()).toHaveLength(10);
+		});
+
+		it("should tell when a run was cancelled before changing anything", async () => {
+			await storeOrphans(30);
+			// Cancelled during the pause after the first batch
+			jest.spyOn(plugin, "delay").mockImplementation(async () => {
+				plugin.getValidationTask()?.cancel();
+			});
+
+			await plugin.validateDatabase();
+
+			expect(notices).toEqual([
+				"Validation cancelled before any entry was changed.",
+			]);
+			expect(await plugin.getStateStore().list()).toHaveLength(30);
+			expect(plugin.getValidationTask()).toBeNull();
+		});
+	});
+
+	describe("progress in the status bar", () => {
+		it("should show progress until the run ends and cancel on click", async () => {
+			const addSpy = jest.spyOn(plugin, "addStatusBarItem");
+			const task = plugin.beginValidation()!;
+			const el = addSpy.mock.results[0].value as HTMLElement;
+			document.body.appendChild(el);
+
+			task.update("check", 20, 45);
+			expect(el.textContent).toContain("Checking 20/45");
+			expect(el.querySelector("progress")?.value).toBe(20);
+
+			el.click();
+			expect(task.cancelled).toBe(true);
+
+			plugin.endValidation(task);
+			expect(el.isConnected).toBe(false);
+			expect(plugin.getValidationTask()).toBeNull();
+		});
+
+		it("should run one validation at a time", async () => {
+			await storeOrphans(1);
+			const task = plugin.beginValidation()!;
+			const planSpy = jest.spyOn(plugin, "planValidation");
+
+			await plugin.validateDatabase();
+
+			expect(planSpy).not.toHaveBeenCalled();
+			expect(notices).toEqual(["Validation is already running."]);
+
+			plugin.endValidation(task);
+			await plugin.validateDatabase();
+			expect(planSpy).toHaveBeenCalledTimes(1);
+			expect(plugin.getValidationTask()).toBeNull();
+		});
+	});
+
+	describe("automatic runs", () => {
+		it("should be off by default", async () => {
+			const validateSpy = jest.spyOn(plugin, "validateDatabase");
+
+			await plugin.runAutoValidation();
+
+			expect(validateSpy).not.toHaveBeenCalled();
+		});
+
+		it("should run at most once per interval", async () => {
+			plugin.settings.autoValidationHours = 12;
+			jest.spyOn(app, "loadLocalStorage").mockReturnValue(
+				(Date.now() - 6 * HOUR) as never
+			);
+			const validateSpy = jest.spyOn(plugin, "validateDatabase");
+
+			await plugin.runAutoValidation();
+			expect(validateSpy).not.toHaveBeenCalled();
+
+			jest.spyOn(app, "loadLocalStorage").mockReturnValue(
+				(Date.now() - 13 * HOUR) as never
+			);
+			const saveSpy = jest.spyOn(app, "saveLocalStorage");
+			await plugin.runAutoValidation();
+
+			expect(validateSpy).toHaveBeenCalledWith(true);
+			expect(saveSpy).toHaveBeenCalledWith(
+				"anti-ephemeral-state-last-validation",
+				expect.any(Number)
+			);
+		});
+
+		it("should stay quiet when nothing changed", async () => {
+			plugin.settings.autoValidationHours = 12;
+
+			await plugin.runAutoValidation();
+
+			expect(notices).toEqual([]);
+		});
+
+		it("should report what it changed", async () => {
+			plugin.settings.autoValidationHours = 12;
+			const path = "notes/short.md";
+			await adapter.write(path, "one line");
+			await plugin.writeFileState(path, {
+				viewState: { type: "markdown", file: path } as never,
+				scroll: 50,
+			});
+
+			await plugin.runAutoValidation();
+
+			expect(notices).toHaveLength(1);
+			expect(notices[0]).toContain("clamped positions: 1");
+			expect((await plugin.readFileState(path))?.scroll).toBe(0);
+		});
+
+		it("should leave removals and re-associations for review", async () => {
+			plugin.settings.autoValidationHours = 12;
+			await storeOrphans(2);
+			const openSpy = jest
+				.spyOn(obsidian.Modal.prototype, "open")
+				.mockImplementation(() => {});
+
+			await plugin.runAutoValidation();
+
+			expect(await plugin.getStateStore().list()).toHaveLength(2);
+			expect(notices).toEqual([
+				expect.stringContaining(
+					"Validation found entries to remove or re-associate: 2"
+				),
+			]);
+			fragments[0].querySelector("button")!.click();
+			expect(openSpy).toHaveBeenCalledTimes(1);
+		});
+
+		it("should run once database changes have settled", () => {
+			plugin.settings.autoValidationHours = 12;
+			jest.useFakeTimers();
+			const autoSpy = jest
+				.spyOn(plugin, "runAutoValidation")
+				.mockResolvedValue();
+			jest.spyOn(plugin, "requestRemoteCheck").mockImplementation(
+				() => {}
+			);
+
+			plugin.onDatabaseChange(`${DB_DIR}/abc.json`);
+			jest.advanceTimersByTime(10000);
+			plugin.onDatabaseChange(`${DB_DIR}/def.json`);
+			jest.advanceTimersByTime(29999);
+			expect(autoSpy).not.toHaveBeenCalled();
+
+			jest.advanceTimersByTime(1);
+			expect(autoSpy).toHaveBeenCalledTimes(1);
+		});
+
+		it("should not be scheduled when turned off", () => {
+			jest.useFakeTimers();
+			const autoSpy = jest.spyOn(plugin, "runAutoValidation");
+			jest.spyOn(plugin, "requestRemoteCheck").mockImplementation(
+				() => {}
+			);
+
+			plugin.onDatabaseChange(`${DB_DIR}/abc.json`);
+			jest.advanceTimersByTime(60000);
+
+			expect(autoSpy).not.toHaveBeenCalled();
+		});
+	});
+});
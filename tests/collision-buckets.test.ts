@@ -0,0 +1,144 @@
+/**
+ * Tests for key collision handling in the state database
+ * Coverage: owning path on entries, collision buckets in read/write/rename/delete/validate
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVault,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+	TFile,
+	TAbstractFile,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+// Every note hashes to this key, forcing collisions
+const SHARED_KEY = "a".repeat(64);
+
+describe("AntiEphemeralState Collision Buckets", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let manifest: MockManifest;
+	let mockVault: MockVault;
+	let adapter: MockVaultAdapter;
+	let sharedDbPath: string;
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		mockVault = app.vault;
+		adapter = mockVault.adapter as MockVaultAdapter;
+
+		plugin.DEFAULT_SETTINGS = {
+			dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
+			lockModeEnabled: true,
+		};
+		plugin.settings = { ...plugin.DEFAULT_SETTINGS };
+		sharedDbPath = `${plugin.settings.dbDir}/${SHARED_KEY}.json`;
+
+		jest.spyOn(plugin, "getFileHash").mockResolvedValue(SHARED_KEY);
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	const readRaw = async () =>
+		JSON.parse(await adapter.read(sharedDbPath)) as Record<string, unknown>;
+
+	it("should record the owning path on every written entry", async () => {
+		await plugin.writeFileState("notes/a.md", { scroll: 1 });
+
+		expect((await readRaw()).path).toBe("notes/a.md");
+	});
+
+	it("should not return the entry of another note sharing the key", async () => {
+		await plugin.writeFileState("notes/a.md", {
+			scroll: 1,
+			viewState: { type: "markdown", file: "notes/a.md" },
+		});
+
+		expect(await plugin.readFileState("notes/b.md")).toBeNull();
+		// The foreign entry must not be "repaired" to the other path
+		expect((await readRaw()).path).toBe("notes/a.md");
+	});
+
+	it("should store both notes in a bucket instead of overwriting", async () => {
+		await plugin.writeFileState("notes/a.md", { scroll: 1 });
+		await plugin.writeFileState("notes/b.md", { scroll: 2 });
+
+		const raw = await readRaw();
+		expect(Array.isArray(raw.bucket)).toBe(true);
+		expect((await plugin.readFileState("notes/a.md"))?.scroll).toBe(1);
+		expect((await plugin.readFileState("notes/b.md"))?.scroll).toBe(2);
+
+		// Updating one member keeps the other intact
+		await plugin.writeFileState("notes/a.md", { scroll: 10 });
+		expect((await plugin.readFileState("notes/a.md"))?.scroll).toBe(10);
+		expect((await plugin.readFileState("notes/b.md"))?.scroll).toBe(2);
+	});
+
+	it("should keep the other member when one note is deleted", async () => {
+		await plugin.writeFileState("notes/a.md", { scroll: 1 });
+		await plugin.writeFileState("notes/b.md", { scroll: 2 });
+
+		await plugin.deleteFile(new TFile("notes/a.md") as TAbstractFile);
+
+		expect(await plugin.readFileState("notes/a.md")).toBeNull();
+		expect((await plugin.readFileState("notes/b.md"))?.scroll).toBe(2);
+		// A single remaining member is stored as a plain entry again
+		expect((await readRaw()).path).toBe("notes/b.md");
+	});
+
+	it("should move only the renamed note out of a bucket", async () => {
+		await plugin.writeFileState("notes/a.md", { scroll: 1 });
+		await plugin.writeFileState("notes/b.md", { scroll: 2 });
+
+		await plugin.renameFile(
+			new TFile("notes/c.md") as TAbstractFile,
+			"notes/a.md"
+		);
+
+		expect(await plugin.readFileState("notes/a.md")).toBeNull();
+		expect((await plugin.readFileState("notes/b.md"))?.scroll).toBe(2);
+		expect((await plugin.readFileState("notes/c.md"))?.scroll).toBe(1);
+	});
+
+	it("should report collisions and validate bucket members individually", async () => {
+		await adapter.write("notes/a.md", "# A");
+		await plugin.writeFileState("notes/a.md", {
+			viewState: { type: "markdown", file: "notes/a.md" },
+		});
+		await plugin.writeFileState("notes/missing.md", {
+			viewState: { type: "markdown", file: "notes/missing.md" },
+		});
+
+		const debugSpy = jest.spyOn(console, "debug");
+		await plugin.validateDatabase();
+
+		const report = debugSpy.mock.calls.find(
+			call => call[0] === "[AES] Validation report"
+		)?.[1] as Record<string, number>;
+		expect(report.collisions).toBe(1);
+		expect(report.removedMissingNote).toBe(1);
+		expect((await readRaw()).path).toBe("notes/a.md");
+	});
+});
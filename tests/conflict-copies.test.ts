@@ -0,0 +1,243 @@
+/**
+ * Tests for sync conflict copies of database files
+ * Coverage: naming patterns, merge into canonical entries, Lock Mode conflicts, validation, consolidated database
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVault,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+
+describe("AntiEphemeralState Conflict Copies", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let manifest: MockManifest;
+	let mockVault: MockVault;
+	let adapter: MockVaultAdapter;
+	const notePath = "notes/synced.md";
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		mockVault = app.vault;
+		adapter = mockVault.adapter as MockVaultAdapter;
+
+		plugin.DEFAULT_SETTINGS = { dbDir: DB_DIR, lockModeEnabled: true };
+		plugin.settings = { ...plugin.DEFAULT_SETTINGS };
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	const entry = (fields: object, updatedAt: number) => ({
+		path: notePath,
+		schemaVersion: 2,
+		protected: false,
+		timestamp: null,
+		...fields,
+		updatedAt,
+	});
+
+	// Write the canonical entry and a conflict copy named by `copyName(key)`
+	const writePair = async (
+		canonical: object,
+		copy: object,
+		copyName: (key: string) => string
+	) => {
+		const key = await plugin.getFileHash(notePath);
+		await adapter.write(`${DB_DIR}/${key}.json`, JSON.stringify(canonical));
+		const copyPath = `${DB_DIR}/${copyName(key)}`;
+		await adapter.write(copyPath, JSON.stringify(copy));
+		return copyPath;
+	};
+
+	const dbFiles = () =>
+		adapter.getAllFiles().filter(f => f.startsWith(DB_DIR + "/"));
+
+	describe("naming patterns", () => {
+		it.each([
+			["Obsidian Sync", (k: string) => `${k} (conflict 2026-01-02).json`],
+			[
+				"Syncthing",
+				(k: string) =>
+					`${k}.sync-conflict-20260102-101500-ABCDEFG.json`,
+			],
+			[
+				"Dropbox",
+				(k: string) =>
+					`${k} (Laptop's conflicted copy 2026-01-02).json`,
+			],
+		])("should merge %s copies and remove them", async (_, copyName) => {
+			const copyPath = await writePair(
+				entry({ scroll: 1 }, 100),
+				entry({ scroll: 7 }, 200),
+				copyName
+			);
+
+			const result = await plugin.resolveConflictCopies();
+
+			expect(result).toEqual({ merged: 1, lockConflicts: [] });
+			expect(await adapter.exists(copyPath)).toBe(false);
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(7);
+		});
+	});
+
+	it("should keep the canonical position when the copy is older", async () => {
+		await writePair(
+			entry({ scroll: 1 }, 300),
+			entry({ scroll: 7 }, 200),
+			k => `${k} (conflict 2026-01-02).json`
+		);
+
+		await plugin.resolveConflictCopies();
+
+		expect((await plugin.readFileState(notePath))?.scroll).toBe(1);
+	});
+
+	it("should keep a note locked when only one side locked it", async () => {
+		await writePair(
+			entry({ scroll: 1 }, 300),
+			entry({ scroll: 7, protected: true, timestamp: 1234 }, 200),
+			k => `${k} (conflict 2026-01-02).json`
+		);
+
+		const result = await plugin.resolveConflictCopies();
+
+		expect(result.lockConflicts).toEqual([notePath]);
+		expect(await plugin.readFileState(notePath)).toMatchObject({
+			scroll: 1,
+			protected: true,
+			timestamp: 1234,
+		});
+	});
+
+	it("should keep the positions of every device", async () => {
+		await writePair(
+			entry({ scroll: 1, devices: { desktop: { scroll: 1 } } }, 100),
+			entry({ scroll: 7, devices: { phone: { scroll: 7 } } }, 200),
+			k => `${k} (conflict 2026-01-02).json`
+		);
+
+		await plugin.resolveConflictCopies();
+
+		expect((await plugin.readFileState(notePath))?.devices).toEqual({
+			desktop: { scroll: 1 },
+			phone: { scroll: 7 },
+		});
+	});
+
+	it("should adopt a copy without a canonical entry", async () => {
+		const key = await plugin.getFileHash(notePath);
+		await adapter.write(
+			`${DB_DIR}/${key}.sync-conflict-20260102-101500-ABCDEFG.json`,
+			JSON.stringify(entry({ scroll: 5 }, 100))
+		);
+
+		await plugin.resolveConflictCopies();
+
+		expect(dbFiles()).toEqual([`${DB_DIR}/${key}.json`]);
+		expect((await plugin.readFileState(notePath))?.scroll).toBe(5);
+	});
+
+	it("should not list copies as entries", async () => {
+		await writePair(
+			entry({ scroll: 1 }, 100),
+			entry({ scroll: 7 }, 200),
+			k => `${k} (conflict 2026-01-02).json`
+		);
+
+		expect(await plugin.getStateStore().list()).toEqual([
+			await plugin.getFileHash(notePath),
+		]);
+	});
+
+	it("should leave copies holding entries from a newer version", async () => {
+		const copyPath = await writePair(
+			entry({ scroll: 1 }, 100),
+			{ ...entry({ scroll: 7 }, 200), schemaVersion: 99 },
+			k => `${k} (conflict 2026-01-02).json`
+		);
+
+		expect((await plugin.resolveConflictCopies()).merged).toBe(0);
+		expect(await adapter.exists(copyPath)).toBe(true);
+	});
+
+	it("should merge copies during validation and report them", async () => {
+		await adapter.write(notePath, "# Note");
+		await writePair(
+			entry({ scroll: 1 }, 100),
+			entry({ scroll: 7, protected: true, timestamp: 1 }, 200),
+			k => `${k} (conflict 2026-01-02).json`
+		);
+		const debugSpy = jest.spyOn(console, "debug");
+		debugSpy.mockClear();
+
+		await plugin.validateDatabase();
+
+		const report = debugSpy.mock.calls.find(
+			call => call[0] === "[AES] Validation report"
+		)?.[1] as Record<string, number>;
+		expect(report).toMatchObject({
+			total: 1,
+			mergedConflicts: 1,
+			lockConflicts: 1,
+		});
+		expect(dbFiles().filter(f => f.includes("conflict"))).toEqual([]);
+	});
+
+	it("should merge when a copy shows up in the database directory", async () => {
+		await plugin.getFileHash(notePath);
+		jest.useFakeTimers();
+		const resolveSpy = jest
+			.spyOn(plugin, "resolveConflictCopies")
+			.mockResolvedValue({ merged: 0, lockConflicts: [] });
+
+		plugin.onDatabaseChange(`${DB_DIR}/abc (conflict 2026-01-02).json`);
+		plugin.onDatabaseChange(`${DB_DIR}/abc.sync-conflict-1-2-X.json`);
+		jest.advanceTimersByTime(2000);
+
+		expect(resolveSpy).toHaveBeenCalledTimes(1);
+	});
+
+	it("should merge conflict copies of the consolidated database", async () => {
+		plugin.settings.storageBackend = "single-file";
+		const key = await plugin.getFileHash(notePath);
+		await plugin.writeFileState(notePath, { scroll: 1 });
+		const copyPath = `${DB_DIR}/states (conflict 2026-01-02).db`;
+		await adapter.write(
+			copyPath,
+			JSON.stringify({
+				version: 1,
+				entries: { [key]: entry({ scroll: 9 }, Date.now() + 1000) },
+			})
+		);
+
+		expect((await plugin.resolveConflictCopies()).merged).toBe(1);
+		expect(await adapter.exists(copyPath)).toBe(false);
+		expect((await plugin.readFileState(notePath))?.scroll).toBe(9);
+	});
+});
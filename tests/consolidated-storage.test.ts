@@ -0,0 +1,191 @@
+/**
+ * Tests for the single-file (consolidated) storage backend
+ * Coverage: ConsolidatedStateStore, migrateStorage, conversion commands
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVault,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+describe("AntiEphemeralState Consolidated Storage", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let manifest: MockManifest;
+	let mockVault: MockVault;
+	let adapter: MockVaultAdapter;
+	let dbFile: string;
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		mockVault = app.vault;
+		adapter = mockVault.adapter as MockVaultAdapter;
+
+		plugin.DEFAULT_SETTINGS = {
+			dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
+			lockModeEnabled: true,
+		};
+		plugin.settings = { ...plugin.DEFAULT_SETTINGS };
+		dbFile = `${plugin.settings.dbDir}/states.db`;
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	// Database files, ignoring the backups kept by atomic writes
+	const dbFiles = () =>
+		adapter
+			.getAllFiles()
+			.filter(
+				f => f.startsWith(plugin.settings.dbDir) && !f.endsWith(".bak")
+			);
+
+	describe("single-file backend", () => {
+		beforeEach(() => {
+			plugin.settings.storageBackend = "single-file";
+		});
+
+		it("should keep all entries in one keyed database file", async () => {
+			await plugin.writeFileState("a.md", { scroll: 1 });
+			await plugin.writeFileState("b.md", { scroll: 2 });
+
+			expect(dbFiles()).toEqual([dbFile]);
+			const parsed = JSON.parse(await adapter.read(dbFile));
+			expect(parsed.version).toBe(1);
+			expect(Object.keys(parsed.entries)).toHaveLength(2);
+			expect((await plugin.readFileState("b.md"))?.scroll).toBe(2);
+		});
+
+		it("should pick up external changes to the database file", async () => {
+			await plugin.writeFileState("a.md", { scroll: 1 });
+			const key = await plugin.getFileHash("a.md");
+
+			// Simulate a synced update from another device
+			await plugin.delay(5);
+			await adapter.write(
+				dbFile,
+				JSON.stringify({
+					version: 1,
+					entries: { [key]: { scroll: 9 } },
+				})
+			);
+			plugin.onDatabaseChange(dbFile);
+
+			expect((await plugin.readFileState("a.md"))?.scroll).toBe(9);
+		});
+
+		it("should not overwrite a malformed database file", async () => {
+			await adapter.write(dbFile, "{ broken");
+
+			await plugin.writeFileState("a.md", { scroll: 1 });
+
+			expect(await adapter.read(dbFile)).toBe("{ broken");
+		});
+
+		it("should validate entries with the same rules", async () => {
+			await adapter.write("kept.md", "# Kept");
+			await plugin.writeFileState("kept.md", {
+				viewState: { type: "markdown", file: "kept.md" },
+			});
+			await plugin.writeFileState("gone.md", {
+				viewState: { type: "markdown", file: "gone.md" },
+			});
+
+			await plugin.validateDatabase();
+
+			expect(await plugin.getStateStore().list()).toEqual([
+				await plugin.getFileHash("kept.md"),
+			]);
+		});
+	});
+
+	describe("migrateStorage", () => {
+		it("should convert per-note files into the consolidated file and back", async () => {
+			await plugin.writeFileState("a.md", { scroll: 1 });
+			await plugin.writeFileState("b.md", { scroll: 2 });
+
+			expect(await plugin.migrateStorage("single-file")).toBe(2);
+			expect(plugin.settings.storageBackend).toBe("single-file");
+			expect(dbFiles()).toEqual([dbFile]);
+			expect((await plugin.readFileState("a.md"))?.scroll).toBe(1);
+
+			expect(await plugin.migrateStorage("per-file")).toBe(2);
+			expect(plugin.settings.storageBackend).toBe("per-file");
+			expect(dbFiles().sort()).toEqual(
+				[
+					await plugin.getDbFilePath("a.md"),
+					await plugin.getDbFilePath("b.md"),
+				]
+					.concat(dbFile)
+					.sort()
+			);
+			expect((await plugin.readFileState("b.md"))?.scroll).toBe(2);
+		});
+
+		it("should rewrite the consolidated file once per conversion", async () => {
+			for (let i = 0; i < 20; i++) {
+				await plugin.writeFileState(`${i}.md`, { scroll: i });
+			}
+			const writeSpy = jest.spyOn(adapter, "write");
+
+			expect(await plugin.migrateStorage("single-file")).toBe(20);
+			expect(writeSpy).toHaveBeenCalledTimes(1);
+
+			writeSpy.mockClear();
+			expect(await plugin.migrateStorage("per-file")).toBe(20);
+			// One file per note, and the emptied consolidated file
+			expect(writeSpy).toHaveBeenCalledTimes(21);
+		});
+
+		it("should keep the source layout when the copy fails", async () => {
+			await plugin.writeFileState("a.md", { scroll: 1 });
+			const originalWrite = adapter.write.bind(adapter);
+			adapter.write = async (path: string, data: string) => {
+				if (path.startsWith(dbFile)) throw new Error("Disk full");
+				return originalWrite(path, data);
+			};
+
+			await expect(plugin.migrateStorage("single-file")).rejects.toThrow(
+				"Disk full"
+			);
+			adapter.write = originalWrite;
+
+			expect(plugin.settings.storageBackend).toBeUndefined();
+			expect((await plugin.readFileState("a.md"))?.scroll).toBe(1);
+		});
+	});
+
+	describe("conversion commands", () => {
+		it("should register both conversion commands on load", async () => {
+			await plugin.onload();
+			const commands = plugin as unknown as {
+				getCommand: (id: string) => unknown;
+			};
+
+			expect(commands.getCommand("convert-to-single-file")).toBeDefined();
+			expect(commands.getCommand("convert-to-per-file")).toBeDefined();
+		});
+	});
+});
@@ -44,7 +44,7 @@ describe("AntiEphemeralState Database Path Management", () => {
 				};
 			});
 
-			it("should correctly handle single level nested folders", () => {
+			it("should correctly handle single level nested folders", async () => {
 				const testCases = [
 					"notes/daily.md",
 					"projects/work.md",
@@ -52,16 +52,16 @@ describe("AntiEphemeralState Database Path Management", () => {
 					"templates/meeting.md",
 				];
 
-				testCases.forEach(filePath => {
-					const dbPath = plugin.getDbFilePath(filePath);
+				for (const filePath of testCases) {
+					const dbPath = await plugin.getDbFilePath(filePath);
 
 					expect(dbPath).toContain(plugin.settings.dbDir);
 					expect(dbPath).toMatch(/\.json$/);
 					expect(dbPath).not.toContain(filePath); // Hash should not contain original path
-				});
+				}
 			});
 
-			it("should correctly handle deeply nested folder structures", () => {
+			it("should correctly handle deeply nested folder structures", async () => {
 				const testCases = [
 					"projects/work/2024/q1/meeting-notes.md",
 					"personal/health/doctors/appointments/2024/january.md",
@@ -69,19 +69,19 @@ describe("AntiEphemeralState Database Path Management", () => {
 					"archive/2023/december/week1/monday/morning-standup.md",
 				];
 
-				testCases.forEach(filePath => {
-					const dbPath = plugin.getDbFilePath(filePath);
+				for (const filePath of testCases) {
+					const dbPath = await plugin.getDbFilePath(filePath);
 
 					expect(dbPath).toContain(plugin.settings.dbDir);
 					expect(dbPath).toMatch(/\.json$/);
 
 					// Verify that nested paths produce different hashes
-					const hash = plugin.getFileHash(filePath);
+					const hash = await plugin.getFileHash(filePath);
 					expect(dbPath).toContain(hash);
-				});
+				}
 			});
 
-			it("should generate unique paths for files with similar nested structures", () => {
+			it("should generate unique paths for files with similar nested structures", async () => {
 				const similarPaths = [
 					"projects/work/file.md",
 					"projects/work/subfolder/file.md",
@@ -89,8 +89,8 @@ describe("AntiEphemeralState Database Path Management", () => {
 					"projects/work/file2.md",
 				];
 
-				const dbPaths = similarPaths.map(path =>
-					plugin.getDbFilePath(path)
+				const dbPaths = await Promise.all(
+					similarPaths.map(path => plugin.getDbFilePath(path))
 				);
 				const uniquePaths = new Set(dbPaths);
 
@@ -105,7 +105,7 @@ describe("AntiEphemeralState Database Path Management", () => {
 				};
 			});
 
-			it("should handle spaces in folder and file names", () => {
+			it("should handle spaces in folder and file names", async () => {
 				const testCases = [
 					"my notes/daily journal.md",
 					"work projects/project alpha/meeting notes.md",
@@ -115,8 +115,8 @@ describe("AntiEphemeralState Database Path Management", () => {
 					"multiple   spaces/between   words.md",
 				];
 
-				testCases.forEach(filePath => {
-					const dbPath = plugin.getDbFilePath(filePath);
+				for (const filePath of testCases) {
+					const dbPath = await plugin.getDbFilePath(filePath);
 
 					expect(dbPath).toContain(plugin.settings.dbDir);
 					expect(dbPath).toMatch(/\.json$/);
@@ -124,10 +124,10 @@ describe("AntiEphemeralState Database Path Management", () => {
 					expect(dbPath.length).toBeGreaterThan(
 						plugin.settings.dbDir.length + 5
 					); // dbDir + hash + .json
-				});
+				}
 			});
 
-			it("should handle special punctuation characters", () => {
+			it("should handle special punctuation characters", async () => {
 				const testCases = [
 					"projects/file-with-dashes.md",
 					"notes/file_with_underscores.md",
@@ -142,8 +142,8 @@ describe("AntiEphemeralState Database Path Management", () => {
 					"scripts/file&command.md",
 				];
 
-				testCases.forEach(filePath => {
-					const dbPath = plugin.getDbFilePath(filePath);
+				for (const filePath of testCases) {
+					const dbPath = await plugin.getDbFilePath(filePath);
 
 					expect(dbPath).toContain(plugin.settings.dbDir);
 					expect(dbPath).toMatch(/\.json$/);
@@ -151,10 +151,10 @@ describe("AntiEphemeralState Database Path Management", () => {
 					// Hash should be filesystem-safe
 					const fileName = dbPath.split("/").pop();
 					expect(fileName).toMatch(/^[a-zA-Z0-9.]+\.json$/);
-				});
+				}
 			});
 
-			it("should handle unicode and international characters", () => {
+			it("should handle unicode and international characters", async () => {
 				const testCases = [
 					"заметки/русский файл.md",
 					"笔记/中文文件.md",
@@ -165,13 +165,13 @@ describe("AntiEphemeralState Database Path Management", () => {
 					"mixed/файл with mixed языки.md",
 				];
 
-				testCases.forEach(filePath => {
-					const dbPath = plugin.getDbFilePath(filePath);
+				for (const filePath of testCases) {
+					const dbPath = await plugin.getDbFilePath(filePath);
 
 					expect(dbPath).toContain(plugin.settings.dbDir);
 					expect(dbPath).toMatch(/\.json$/);
 					expect(typeof dbPath).toBe("string");
-				});
+				}
 			});
 		});
 
@@ -182,7 +182,7 @@ describe("AntiEphemeralState Database Path Management", () => {
 				};
 			});
 
-			it("should handle absolute paths correctly", () => {
+			it("should handle absolute paths correctly", async () => {
 				const testCases = [
 					"/home/user/vault/note.md",
 					"/Users/username/Documents/Obsidian/vault/project.md",
@@ -190,19 +190,19 @@ describe("AntiEphemeralState Database Path Management", () => {
 					"/c:/Users/User/Documents/vault/file.md", // Windows-style
 				];
 
-				testCases.forEach(filePath => {
-					const dbPath = plugin.getDbFilePath(filePath);
+				for (const filePath of testCases) {
+					const dbPath = await plugin.getDbFilePath(filePath);
 
 					expect(dbPath).toContain(plugin.settings.dbDir);
 					expect(dbPath).toMatch(/\.json$/);
 
 					// Should generate consistent paths
-					const dbPath2 = plugin.getDbFilePath(filePath);
+					const dbPath2 = await plugin.getDbFilePath(filePath);
 					expect(dbPath).toBe(dbPath2);
-				});
+				}
 			});
 
-			it("should handle relative paths correctly", () => {
+			it("should handle relative paths correctly", async () => {
 				const testCases = [
 					"./note.md",
 					"../parent-folder/file.md",
@@ -212,15 +212,15 @@ describe("AntiEphemeralState Database Path Management", () => {
 					"./folder/./file.md",
 				];
 
-				testCases.forEach(filePath => {
-					const dbPath = plugin.getDbFilePath(filePath);
+				for (const filePath of testCases) {
+					const dbPath = await plugin.getDbFilePath(filePath);
 
 					expect(dbPath).toContain(plugin.settings.dbDir);
 					expect(dbPath).toMatch(/\.json$/);
-				});
+				}
 			});
 
-			it("should generate different paths for different absolute paths", () => {
+			it("should generate different paths for different absolute paths", async () => {
 				const absolutePaths = [
 					"/home/user1/vault/note.md",
 					"/home/user2/vault/note.md",
@@ -228,15 +228,15 @@ describe("AntiEphemeralState Database Path Management", () => {
 					"/opt/vault2/note.md",
 				];
 
-				const dbPaths = absolutePaths.map(path =>
-					plugin.getDbFilePath(path)
+				const dbPaths = await Promise.all(
+					absolutePaths.map(path => plugin.getDbFilePath(path))
 				);
 				const uniquePaths = new Set(dbPaths);
 
 				expect(uniquePaths.size).toBe(absolutePaths.length);
 			});
 
-			it("should treat paths with different relative components as different", () => {
+			it("should treat paths with different relative components as different", async () => {
 				const relativePaths = [
 					"./note.md",
 					"../note.md",
@@ -244,8 +244,8 @@ describe("AntiEphemeralState Database Path Management", () => {
 					"./folder/note.md",
 				];
 
-				const dbPaths = relativePaths.map(path =>
-					plugin.getDbFilePath(path)
+				const dbPaths = await Promise.all(
+					relativePaths.map(path => plugin.getDbFilePath(path))
 				);
 				const uniquePaths = new Set(dbPaths);
 
@@ -254,7 +254,7 @@ describe("AntiEphemeralState Database Path Management", () => {
 		});
 
 		describe("database directory configuration", () => {
-			it("should work with different database directory configurations", () => {
+			it("should work with different database directory configurations", async () => {
 				const testConfigs = [
 					{
 						dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
@@ -284,17 +284,17 @@ describe("AntiEphemeralState Database Path Management", () => {
 
 				const filePath = "test/sample.md";
 
-				testConfigs.forEach(config => {
+				for (const config of testConfigs) {
 					plugin.settings = { dbDir: config.dbDir };
-					const dbPath = plugin.getDbFilePath(filePath);
+					const dbPath = await plugin.getDbFilePath(filePath);
 
 					expect(dbPath).toContain(config.dbDir);
 					expect(dbPath).toMatch(/\.json$/);
 					expect(dbPath.startsWith(config.dbDir + "/")).toBe(true);
-				});
+				}
 			});
 
-			it("should handle edge cases in database directory paths", () => {
+			it("should handle edge cases in database directory paths", async () => {
 				const edgeCases = [
 					{ dbDir: "/", description: "root directory" },
 					{ dbDir: "", description: "empty string" },
@@ -312,9 +312,9 @@ describe("AntiEphemeralState Database Path Management", () => {
 
 				const filePath = "test/sample.md";
 
-				edgeCases.forEach(edgeCase => {
+				for (const edgeCase of edgeCases) {
 					plugin.settings = { dbDir: edgeCase.dbDir };
-					const dbPath = plugin.getDbFilePath(filePath);
+					const dbPath = await plugin.getDbFilePath(filePath);
 
 					expect(typeof dbPath).toBe("string");
 					expect(dbPath).toMatch(/\.json$/);
@@ -322,7 +322,7 @@ describe("AntiEphemeralState Database Path Management", () => {
 					if (edgeCase.dbDir) {
 						expect(dbPath).toContain(edgeCase.dbDir);
 					}
-				});
+				}
 			});
 		});
 
@@ -333,24 +333,24 @@ describe("AntiEphemeralState Database Path Management", () => {
 				};
 			});
 
-			it("should maintain path consistency across multiple calls", () => {
+			it("should maintain path consistency across multiple calls", async () => {
 				const filePaths = [
 					"consistency/test1.md",
 					"consistency/test2.md",
 					"nested/folder/test.md",
 				];
 
-				filePaths.forEach(filePath => {
-					const dbPath1 = plugin.getDbFilePath(filePath);
-					const dbPath2 = plugin.getDbFilePath(filePath);
-					const dbPath3 = plugin.getDbFilePath(filePath);
+				for (const filePath of filePaths) {
+					const dbPath1 = await plugin.getDbFilePath(filePath);
+					const dbPath2 = await plugin.getDbFilePath(filePath);
+					const dbPath3 = await plugin.getDbFilePath(filePath);
 
 					expect(dbPath1).toBe(dbPath2);
 					expect(dbPath2).toBe(dbPath3);
-				});
+				}
 			});
 
-			it("should ensure path uniqueness for different files", () => {
+			it("should ensure path uniqueness for different files", async () => {
 				const testBatch: string[] = [];
 
 				// Generate many different file paths
@@ -360,8 +360,8 @@ describe("AntiEphemeralState Database Path Management", () => {
 					testBatch.push(`nested/folder${i}/file${i}.md`);
 				}
 
-				const dbPaths = testBatch.map(path =>
-					plugin.getDbFilePath(path)
+				const dbPaths = await Promise.all(
+					testBatch.map(path => plugin.getDbFilePath(path))
 				);
 				const uniquePaths = new Set(dbPaths);
 
@@ -369,57 +369,60 @@ describe("AntiEphemeralState Database Path Management", () => {
 				expect(uniquePaths.size).toBe(testBatch.length);
 			});
 
-			it("should handle path normalization consistently", () => {
-				// Test equivalent paths that should be treated as the same
+			it("should handle path normalization consistently", async () => {
+				// Paths that normalizePath() maps to the same vault path share one entry
 				const equivalentGroups = [
 					[
 						"folder/file.md",
 						"folder//file.md", // double slash
-						"folder/./file.md", // current dir reference
+						"/folder/file.md", // leading slash
+						"folder\\file.md", // backslash separator
 					],
-					["./current/file.md", "current/file.md"],
+					["café.md", "cafe\u0301.md"], // NFC vs NFD
 				];
 
-				equivalentGroups.forEach(group => {
-					const dbPaths = group.map(path =>
-						plugin.getDbFilePath(path)
+				for (const group of equivalentGroups) {
+					const dbPaths = await Promise.all(
+						group.map(path => plugin.getDbFilePath(path))
 					);
+					expect(new Set(dbPaths).size).toBe(1);
+					expect(dbPaths[0]).toMatch(/\.json$/);
+				}
 
-					// Note: Since we're not doing path normalization in the current implementation,
-					// these might be different. This test documents the current behavior.
-					// If path normalization is added later, this test should be updated.
-					group.forEach((path, index) => {
-						expect(typeof dbPaths[index]).toBe("string");
-						expect(dbPaths[index]).toMatch(/\.json$/);
-					});
-				});
+				// Relative components are not resolved and stay distinct
+				const relative = await Promise.all(
+					["./current/file.md", "current/file.md"].map(path =>
+						plugin.getDbFilePath(path)
+					)
+				);
+				expect(new Set(relative).size).toBe(2);
 			});
 		});
 
 		describe("error handling and edge cases", () => {
-			it("should handle empty and minimal paths", () => {
+			it("should handle empty and minimal paths", async () => {
 				plugin.settings = {
 					dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
 				};
 
 				const edgeCases = ["", " ", ".", "..", "/", "a", "a.md", ".md"];
 
-				edgeCases.forEach(filePath => {
-					const dbPath = plugin.getDbFilePath(filePath);
+				for (const filePath of edgeCases) {
+					const dbPath = await plugin.getDbFilePath(filePath);
 
 					expect(typeof dbPath).toBe("string");
 					expect(dbPath).toContain(plugin.settings.dbDir);
 					expect(dbPath).toMatch(/\.json$/);
-				});
+				}
 			});
 
-			it("should handle very long paths", () => {
+			it("should handle very long paths", async () => {
 				plugin.settings = {
 					dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
 				};
 
 				const longPath = "very/".repeat(100) + "long/path/file.md";
-				const dbPath = plugin.getDbFilePath(longPath);
+				const dbPath = await plugin.getDbFilePath(longPath);
 
 				expect(typeof dbPath).toBe("string");
 				expect(dbPath).toContain(plugin.settings.dbDir);
@@ -429,7 +432,7 @@ describe("AntiEphemeralState Database Path Management", () => {
 				expect(dbPath.length).toBeLessThan(300); // reasonable filesystem limit
 			});
 
-			it("should handle paths with filesystem-unsafe characters", () => {
+			it("should handle paths with filesystem-unsafe characters", async () => {
 				plugin.settings = {
 					dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
 				};
@@ -444,8 +447,8 @@ describe("AntiEphemeralState Database Path Management", () => {
 					"folder/file*unsafe.md",
 				];
 
-				unsafePaths.forEach(filePath => {
-					const dbPath = plugin.getDbFilePath(filePath);
+				for (const filePath of unsafePaths) {
+					const dbPath = await plugin.getDbFilePath(filePath);
 
 					expect(typeof dbPath).toBe("string");
 					expect(dbPath).toContain(plugin.settings.dbDir);
@@ -454,7 +457,7 @@ describe("AntiEphemeralState Database Path Management", () => {
 					// The resulting hash should be filesystem-safe
 					const fileName = dbPath.split("/").pop();
 					expect(fileName).toMatch(/^[a-zA-Z0-9.]+\.json$/);
-				});
+				}
 			});
 		});
 	});
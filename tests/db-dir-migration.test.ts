@@ -0,0 +1,219 @@
+/**
+ * Tests for changing the database directory
+ * Coverage: checkDbDir, changeDbDir (move/copy, merge by newest write, progress, rollback)
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVault,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const OLD_DIR = "vault/.obsidian/plugins/anti-ephemeral-state/db";
+const NEW_DIR = "vault/states";
+
+describe("AntiEphemeralState Database Directory Migration", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let manifest: MockManifest;
+	let mockVault: MockVault;
+	let adapter: MockVaultAdapter;
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		mockVault = app.vault;
+		adapter = mockVault.adapter as MockVaultAdapter;
+
+		plugin.DEFAULT_SETTINGS = { dbDir: OLD_DIR, lockModeEnabled: true };
+		plugin.settings = { ...plugin.DEFAULT_SETTINGS };
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	const filesIn = (dir: string) =>
+		adapter.getAllFiles().filter(f => f.startsWith(dir + "/"));
+
+	// Entry as another device would have written it into the destination directory
+	const writeAt = async (
+		dir: string,
+		notePath: string,
+		scroll: number,
+		updatedAt: number
+	) => {
+		const key = await plugin.getFileHash(notePath);
+		await adapter.write(
+			`${dir}/${key}.json`,
+			JSON.stringify({ scroll, path: notePath, updatedAt })
+		);
+	};
+
+	describe("checkDbDir", () => {
+		it("should accept a new directory", async () => {
+			expect(await plugin.checkDbDir(NEW_DIR)).toBeNull();
+		});
+
+		it("should reject empty, unchanged and nested directories", async () => {
+			expect(await plugin.checkDbDir("  ")).toMatch(/empty/);
+			expect(await plugin.checkDbDir(`${OLD_DIR}/`)).toMatch(/unchanged/);
+			expect(await plugin.checkDbDir(`${OLD_DIR}/inner`)).toMatch(
+				/nested/
+			);
+			expect(await plugin.checkDbDir("vault/.obsidian")).toMatch(
+				/nested/
+			);
+		});
+	});
+
+	describe("changeDbDir", () => {
+		it("should move entries and switch the setting", async () => {
+			await plugin.writeFileState("a.md", { scroll: 1 });
+			await plugin.writeFileState("b.md", { scroll: 2 });
+
+			expect(await plugin.changeDbDir(NEW_DIR, "move")).toBe(2);
+
+			expect(plugin.settings.dbDir).toBe(NEW_DIR);
+			expect(filesIn(OLD_DIR)).toEqual([]);
+			expect((await plugin.readFileState("a.md"))?.scroll).toBe(1);
+			expect((await plugin.readFileState("b.md"))?.scroll).toBe(2);
+		});
+
+		it("should keep the source entries when copying", async () => {
+			await plugin.writeFileState("a.md", { scroll: 1 });
+
+			await plugin.changeDbDir(NEW_DIR, "copy");
+
+			expect(filesIn(OLD_DIR)).toHaveLength(1);
+			expect(filesIn(NEW_DIR)).toHaveLength(1);
+		});
+
+		it("should merge with existing entries by newest write", async () => {
+			await writeAt(OLD_DIR, "newer-there.md", 1, 100);
+			await writeAt(OLD_DIR, "newer-here.md", 1, 300);
+			await writeAt(NEW_DIR, "newer-there.md", 2, 200);
+			await writeAt(NEW_DIR, "newer-here.md", 2, 200);
+			await writeAt(NEW_DIR, "only-there.md", 3, 200);
+
+			await plugin.changeDbDir(NEW_DIR, "move");
+
+			expect((await plugin.readFileState("newer-there.md"))?.scroll).toBe(
+				2
+			);
+			expect((await plugin.readFileState("newer-here.md"))?.scroll).toBe(
+				1
+			);
+			expect((await plugin.readFileState("only-there.md"))?.scroll).toBe(
+				3
+			);
+		});
+
+		it("should report progress for every entry", async () => {
+			await plugin.writeFileState("a.md", { scroll: 1 });
+			await plugin.writeFileState("b.md", { scroll: 2 });
+			const progress: Array<[number, number]> = [];
+
+			await plugin.changeDbDir(NEW_DIR, "copy", (done, total) =>
+				progress.push([done, total])
+			);
+
+			expect(progress).toEqual([
+				[1, 2],
+				[2, 2],
+			]);
+		});
+
+		it("should write pending saves into the old directory first", async () => {
+			await plugin.onload();
+			plugin.settings.dbDir = OLD_DIR;
+			plugin.saveQueue.schedule("pending.md", { scroll: 9 });
+
+			await plugin.changeDbDir(NEW_DIR, "move");
+
+			expect((await plugin.readFileState("pending.md"))?.scroll).toBe(9);
+		});
+
+		it("should roll back and keep the old directory on failure", async () => {
+			await plugin.writeFileState("a.md", { scroll: 1 });
+			await plugin.writeFileState("b.md", { scroll: 2 });
+			await writeAt(NEW_DIR, "a.md", 5, 1);
+			const existing = filesIn(NEW_DIR);
+			const before = await adapter.read(existing[0]!);
+
+			// Fail the second transfer
+			const originalWrite = adapter.write.bind(adapter);
+			let writes = 0;
+			adapter.write = async (path: string, data: string) => {
+				if (path.startsWith(NEW_DIR) && ++writes === 2) {
+					throw new Error("Disk full");
+				}
+				return originalWrite(path, data);
+			};
+
+			await expect(plugin.changeDbDir(NEW_DIR, "move")).rejects.toThrow(
+				"Disk full"
+			);
+			adapter.write = originalWrite;
+
+			expect(plugin.settings.dbDir).toBe(OLD_DIR);
+			expect(
+				filesIn(OLD_DIR).filter(f => f.endsWith(".json"))
+			).toHaveLength(2);
+			expect(filesIn(NEW_DIR).filter(f => f.endsWith(".json"))).toEqual(
+				existing
+			);
+			expect(await adapter.read(existing[0]!)).toBe(before);
+		});
+
+		it("should transfer the consolidated database", async () => {
+			plugin.settings.storageBackend = "single-file";
+			await plugin.writeFileState("a.md", { scroll: 1 });
+
+			await plugin.changeDbDir(NEW_DIR, "move");
+
+			expect(await adapter.exists(`${NEW_DIR}/states.db`)).toBe(true);
+			expect((await plugin.readFileState("a.md"))?.scroll).toBe(1);
+		});
+
+		it("should rewrite each consolidated database once", async () => {
+			plugin.settings.storageBackend = "single-file";
+			for (let i = 0; i < 20; i++) {
+				await plugin.writeFileState(`${i}.md`, { scroll: i });
+			}
+			const writeSpy = jest.spyOn(adapter, "write");
+
+			expect(await plugin.changeDbDir(NEW_DIR, "move")).toBe(20);
+
+			const writes = writeSpy.mock.calls.map(([path]) => path);
+			expect(writes.filter(p => p.startsWith(NEW_DIR))).toHaveLength(1);
+			expect(writes.filter(p => p.startsWith(OLD_DIR))).toHaveLength(1);
+		});
+
+		it("should refuse an invalid directory without changes", async () => {
+			await expect(plugin.changeDbDir("", "move")).rejects.toThrow(
+				/empty/
+			);
+			expect(plugin.settings.dbDir).toBe(OLD_DIR);
+		});
+	});
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests for the cross-device handoff prompt
+ * Coverage: findHandoff, offerHandoff notice and jump action, restore path integration
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import * as obsidian from "obsidian";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+	TFile,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+describe("AntiEphemeralState Device Handoff", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let adapter: MockVaultAdapter;
+	let notices: Array<{ message: unknown; hide: jest.Mock }>;
+	const notePath = "notes/handoff.md";
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		const manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin.settings = {
+			dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
+			lockModeEnabled: false,
+		};
+		jest.spyOn(app, "loadLocalStorage").mockReturnValue("desktop" as never);
+		jest.spyOn(app.workspace, "getActiveFile").mockReturnValue(
+			new TFile(notePath)
+		);
+
+		notices = [];
+		jest.spyOn(obsidian, "Notice").mockImplementation(((
+			message: unknown
+		) => {
+			const notice = { message, hide: jest.fn() };
+			notices.push(notice);
+			return notice;
+		}) as never);
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	const stateWith = (own: number, other: number) => ({
+		scroll: 40,
+		devices: {
+			desktop: { scroll: 1200, updatedAt: own },
+			phone: { scroll: 40, updatedAt: other },
+		},
+	});
+
+	const jumpButton = () =>
+		(notices[0]!.message as DocumentFragment).querySelector("button")!;
+
+	describe("findHandoff", () => {
+		it("should offer a newer position from another device", () => {
+			expect(plugin.findHandoff(stateWith(100, 200))).toEqual({
+				deviceId: "phone",
+				scroll: 40,
+				updatedAt: 200,
+			});
+		});
+
+		it("should not offer older positions", () => {
+			expect(plugin.findHandoff(stateWith(300, 200))).toBeNull();
+		});
+
+		it("should not offer the position this device already has", () => {
+			const state = stateWith(100, 200);
+			state.devices.phone.scroll = 1200;
+
+			expect(plugin.findHandoff(state)).toBeNull();
+		});
+
+		it("should not offer when the latest position is restored anyway", () => {
+			plugin.settings.positionRestore = "latest";
+			expect(plugin.findHandoff(stateWith(100, 200))).toBeNull();
+
+			plugin.settings.positionRestore = "device";
+			expect(
+				plugin.findHandoff({
+					devices: { phone: { scroll: 40, updatedAt: 200 } },
+				})
+			).toBeNull();
+		});
+	});
+
+	describe("offerHandoff", () => {
+		it("should jump to the other device's position on request", () => {
+			const setSpy = jest
+				.spyOn(plugin, "setTemporaryState")
+				.mockImplementation(() => {});
+
+			plugin.offerHandoff(notePath, stateWith(100, 200));
+			expect(notices).toHaveLength(1);
+			jumpButton().click();
+
+			expect(notices[0]!.hide).toHaveBeenCalled();
+			expect(setSpy).toHaveBeenCalledWith({
+				cursor: undefined,
+				scroll: 40,
+			});
+		});
+
+		it("should not jump after switching to another note", () => {
+			const setSpy = jest
+				.spyOn(plugin, "setTemporaryState")
+				.mockImplementation(() => {});
+
+			plugin.offerHandoff(notePath, stateWith(100, 200));
+			jest.spyOn(app.workspace, "getActiveFile").mockReturnValue(
+				new TFile("notes/other.md")
+			);
+			jumpButton().click();
+
+			expect(setSpy).not.toHaveBeenCalled();
+		});
+
+		it("should offer each handoff only once", () => {
+			plugin.offerHandoff(notePath, stateWith(100, 200));
+			plugin.offerHandoff(notePath, stateWith(100, 200));
+
+			expect(notices).toHaveLength(1);
+		});
+	});
+
+	it("should offer the handoff when a note is restored", async () => {
+		await plugin.writeFileState(notePath, stateWith(100, 200));
+		jest.spyOn(plugin, "setTemporaryState").mockImplementation(() => {});
+
+		await plugin.restoreTemporaryState();
+
+		expect(notices).toHaveLength(1);
+		expect((notices[0]!.message as DocumentFragment).textContent).toContain(
+			"another device"
+		);
+	});
+});
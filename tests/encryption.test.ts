@@ -0,0 +1,334 @@
+/**
+ * Tests for the encrypted state database
+ * Coverage: encrypt/decrypt commands, transparent read/write, database key per device, validation, conflict copies
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+
+describe("AntiEphemeralState Encryption", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let manifest: MockManifest;
+	let adapter: MockVaultAdapter;
+	const notePath = "notes/secret plans.md";
+
+	beforeEach(async () => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin = onDevice();
+		await adapter.write(notePath, "# Plans");
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	// Another device sharing the vault; it starts without a passphrase
+	const onDevice = () => {
+		const device = new (AntiEphemeralState as AESCtor)(app, manifest);
+		device.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+		return device;
+	};
+
+	// Another device (or this one started again) once the settings synced; it has no key yet
+	const synced = () => {
+		const device = onDevice();
+		device.settings = { ...plugin.settings };
+		return device;
+	};
+
+	const rawEntry = async () =>
+		adapter.read(`${DB_DIR}/${await plugin.getFileHash(notePath)}.json`);
+
+	describe("encryptDatabase", () => {
+		it("should encrypt existing entries and keep them readable", async () => {
+			await plugin.writeFileState(notePath, { scroll: 42 });
+
+			expect(await plugin.encryptDatabase("correct horse")).toBe(1);
+
+			const raw = await rawEntry();
+			expect(JSON.parse(raw)).toMatchObject({ encrypted: "AES-GCM" });
+			expect(raw).not.toContain("secret plans");
+			plugin.getStateCache().clear();
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(42);
+			expect(plugin.settings.encryptionEnabled).toBe(true);
+		});
+
+		it("should encrypt entries written afterwards", async () => {
+			await plugin.encryptDatabase("correct horse");
+
+			await plugin.writeFileState(notePath, { scroll: 7 });
+
+			expect(await rawEntry()).not.toContain("secret plans");
+			plugin.getStateCache().clear();
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(7);
+		});
+
+		it("should keep the derived key on this device, never the passphrase", async () => {
+			const keySpy = jest
+				.spyOn(plugin.getDatabaseKeyStore(), "save")
+				.mockResolvedValue();
+			const saveSpy = jest.spyOn(app, "saveLocalStorage");
+
+			await plugin.encryptDatabase("correct horse");
+
+			expect(keySpy).toHaveBeenCalledWith(
+				expect.objectContaining({
+					key: expect.objectContaining({ extractable: false }),
+					salt: plugin.settings.encryptionSalt,
+				})
+			);
+			expect(saveSpy).not.toHaveBeenCalled();
+			expect(JSON.stringify(plugin.settings)).not.toContain(
+				"correct horse"
+			);
+		});
+
+		it("should re-encrypt with a new passphrase", async () => {
+			await plugin.writeFileState(notePath, { scroll: 42 });
+			await plugin.encryptDatabase("old phrase");
+
+			await plugin.encryptDatabase("new phrase");
+
+			const other = synced();
+			expect(await other.unlockEncryption("old phrase")).toBe(false);
+			expect(await other.unlockEncryption("new phrase")).toBe(true);
+			expect((await other.readFileState(notePath))?.scroll).toBe(42);
+		});
+
+		it("should change nothing when entries cannot be decrypted here", async () => {
+			await plugin.writeFileState(notePath, { scroll: 42 });
+			await plugin.encryptDatabase("correct horse");
+			const before = await rawEntry();
+
+			const other = onDevice();
+			await expect(other.encryptDatabase("guess")).rejects.toThrow(
+				/no passphrase/
+			);
+
+			expect(await rawEntry()).toBe(before);
+			expect(other.settings.encryptionEnabled).toBeUndefined();
+		});
+	});
+
+	describe("other devices", () => {
+		it("should not read or overwrite entries without the passphrase", async () => {
+			await plugin.writeFileState(notePath, { scroll: 42 });
+			await plugin.encryptDatabase("correct horse");
+			const before = await rawEntry();
+			const other = synced();
+
+			expect(await other.readFileState(notePath)).toBeNull();
+			await other.writeFileState(notePath, { scroll: 1 });
+
+			expect(await rawEntry()).toBe(before);
+		});
+
+		it("should not overwrite entries after the passphrase changed elsewhere", async () => {
+			await plugin.writeFileState(notePath, { scroll: 42 });
+			await plugin.encryptDatabase("old phrase");
+			const other = synced();
+			await other.unlockEncryption("old phrase");
+			await plugin.encryptDatabase("new phrase");
+			const before = await rawEntry();
+
+			other.getStateCache().clear();
+			await other.writeFileState(notePath, { scroll: 1 });
+
+			expect(await rawEntry()).toBe(before);
+		});
+
+		it("should check the passphrase when no entry is encrypted yet", async () => {
+			await plugin.encryptDatabase("correct horse");
+			const other = synced();
+
+			expect(await other.unlockEncryption("typo")).toBe(false);
+			expect(other.getStateCipher()).toBeNull();
+			expect(await other.unlockEncryption("correct horse")).toBe(true);
+		});
+
+		it("should keep the verifier next to the salt", async () => {
+			await plugin.encryptDatabase("correct horse");
+
+			expect(plugin.settings.encryptionVerifier).toMatchObject({
+				encrypted: "AES-GCM",
+				salt: plugin.settings.encryptionSalt,
+			});
+			expect(
+				JSON.stringify(plugin.settings.encryptionVerifier)
+			).not.toContain("anti-ephemeral-state");
+		});
+
+		it("should read entries once the passphrase was entered", async () => {
+			await plugin.writeFileState(notePath, { scroll: 42 });
+			await plugin.encryptDatabase("correct horse");
+			const other = synced();
+			expect(await other.readFileState(notePath)).toBeNull();
+
+			expect(await other.unlockEncryption("correct horse")).toBe(true);
+
+			expect((await other.readFileState(notePath))?.scroll).toBe(42);
+		});
+	});
+
+	describe("decryptDatabase", () => {
+		it("should store entries as plain JSON again", async () => {
+			await plugin.writeFileState(notePath, { scroll: 42 });
+			await plugin.encryptDatabase("correct horse");
+			const keySpy = jest.spyOn(plugin.getDatabaseKeyStore(), "save");
+
+			expect(await plugin.decryptDatabase()).toBe(1);
+
+			expect(JSON.parse(await rawEntry())).toMatchObject({
+				path: notePath,
+				scroll: 42,
+			});
+			expect(plugin.settings.encryptionEnabled).toBe(false);
+			expect(plugin.settings.encryptionSalt).toBeUndefined();
+			expect(plugin.settings.encryptionVerifier).toBeUndefined();
+			expect(keySpy).toHaveBeenCalledWith(null);
+		});
+	});
+
+	describe("database key", () => {
+		it("should encrypt entries of every session with one salt", async () => {
+			await plugin.writeFileState(notePath, { scroll: 42 });
+			await plugin.encryptDatabase("correct horse");
+			const second = synced();
+			await second.unlockEncryption("correct horse");
+			await second.writeFileState("notes/other.md", { scroll: 7 });
+
+			const third = synced();
+			const deriveSpy = jest.spyOn(crypto.subtle, "deriveKey");
+			await third.unlockEncryption("correct horse");
+			expect((await third.readFileState(notePath))?.scroll).toBe(42);
+			expect((await third.readFileState("notes/other.md"))?.scroll).toBe(
+				7
+			);
+
+			expect(deriveSpy).toHaveBeenCalledTimes(1);
+			const files = (await adapter.list(DB_DIR)).files.filter(file =>
+				file.endsWith(".json")
+			);
+			expect(files).toHaveLength(2);
+			for (const file of files) {
+				expect(JSON.parse(await adapter.read(file))).toMatchObject({
+					salt: plugin.settings.encryptionSalt,
+				});
+			}
+		});
+
+		it("should read with the kept key after a restart", async () => {
+			let kept: unknown = null;
+			jest.spyOn(plugin.getDatabaseKeyStore(), "save").mockImplementation(
+				async cipher => {
+					kept = cipher;
+				}
+			);
+			await plugin.writeFileState(notePath, { scroll: 42 });
+			await plugin.encryptDatabase("correct horse");
+
+			const next = synced();
+			jest.spyOn(next.getDatabaseKeyStore(), "load").mockResolvedValue(
+				kept as never
+			);
+			await next.loadStateCipher();
+
+			expect(next.getStateCipher()).not.toBeNull();
+			expect((await next.readFileState(notePath))?.scroll).toBe(42);
+		});
+
+		it("should not use a kept key once another device changed the passphrase", async () => {
+			await plugin.encryptDatabase("old phrase");
+			const stale = synced();
+			await stale.unlockEncryption("old phrase");
+
+			await plugin.encryptDatabase("new phrase");
+			stale.settings.encryptionSalt = plugin.settings.encryptionSalt;
+
+			expect(stale.getStateCipher()).toBeNull();
+		});
+	});
+
+	describe("validation", () => {
+		it("should validate encrypted entries", async () => {
+			await plugin.writeFileState(notePath, { scroll: 42 });
+			await plugin.writeFileState("notes/gone.md", { scroll: 1 });
+			await plugin.encryptDatabase("correct horse");
+
+			await plugin.validateDatabase();
+
+			expect(await plugin.getStateStore().list()).toEqual([
+				await plugin.getFileHash(notePath),
+			]);
+			expect(await rawEntry()).not.toContain("secret plans");
+		});
+
+		it("should keep entries it cannot decrypt", async () => {
+			await plugin.writeFileState("notes/gone.md", { scroll: 1 });
+			await plugin.encryptDatabase("correct horse");
+			const other = synced();
+
+			await other.validateDatabase();
+
+			expect(await other.getStateStore().list()).toHaveLength(1);
+		});
+	});
+
+	it("should encrypt the consolidated database", async () => {
+		plugin.settings.storageBackend = "single-file";
+		await plugin.writeFileState(notePath, { scroll: 42 });
+
+		await plugin.encryptDatabase("correct horse");
+
+		const raw = await adapter.read(`${DB_DIR}/states.db`);
+		expect(raw).not.toContain("secret plans");
+		plugin.getStateCache().clear();
+		expect((await plugin.readFileState(notePath))?.scroll).toBe(42);
+	});
+
+	it("should merge encrypted conflict copies", async () => {
+		await plugin.writeFileState(notePath, { scroll: 1 });
+		await plugin.encryptDatabase("correct horse");
+		const key = await plugin.getFileHash(notePath);
+		await plugin.delay(2);
+		await plugin.writeFileState(notePath, { scroll: 9 });
+		await adapter.rename(
+			`${DB_DIR}/${key}.json`,
+			`${DB_DIR}/${key} (conflict 2026-01-02).json`
+		);
+		await adapter.rename(
+			`${DB_DIR}/${key}.json.bak`,
+			`${DB_DIR}/${key}.json`
+		);
+
+		expect((await plugin.resolveConflictCopies()).merged).toBe(1);
+
+		plugin.getStateCache().clear();
+		expect((await plugin.readFileState(notePath))?.scroll).toBe(9);
+	});
+});
@@ -189,6 +189,8 @@ describe("AntiEphemeralState Event Handlers", () => {
 		});
 
 		it("should handle file-open event with null file", async () => {
+			// The restoration started by onload retries until the active file is mocked; let it finish
+			await plugin.restorationPromise;
 			const readFileStateSpy = jest.spyOn(plugin, "readFileState");
 
 			// Trigger file-open event with null
@@ -464,13 +466,13 @@ describe("AntiEphemeralState Event Handlers", () => {
 	});
 
 	describe("Debounced Save Functionality", () => {
-		it("should initialize debounced save function", () => {
-			expect(plugin.debouncedSave).toBeDefined();
-			expect(typeof plugin.debouncedSave).toBe("function");
+		it("should initialize the save queue", () => {
+			expect(plugin.saveQueue).toBeDefined();
+			expect(typeof plugin.saveQueue.schedule).toBe("function");
 		});
 
-		it("should use debounced save in saveTemporaryState", async () => {
-			const debouncedSaveSpy = jest.spyOn(plugin, "debouncedSave");
+		it("should use the save queue in saveTemporaryState", async () => {
+			const scheduleSpy = jest.spyOn(plugin.saveQueue, "schedule");
 			const mockState = {
 				cursor: {
 					start: { col: 0, line: 0 },
@@ -483,10 +485,16 @@ describe("AntiEphemeralState Event Handlers", () => {
 
 			await plugin.saveTemporaryState(mockState);
 
-			expect(debouncedSaveSpy).toHaveBeenCalledWith(
-				mockFile.path,
-				mockState
-			);
+			expect(scheduleSpy).toHaveBeenCalledWith(mockFile.path, {
+				...mockState,
+				devices: {
+					[plugin.getDeviceId()]: {
+						cursor: mockState.cursor,
+						updatedAt: expect.any(Number),
+					},
+				},
+				fieldUpdatedAt: { cursor: expect.any(Number) },
+			});
 		});
 
 		it("should debounce multiple rapid save calls", async () => {
@@ -504,9 +512,9 @@ describe("AntiEphemeralState Event Handlers", () => {
 			plugin.lastLoadedFileName = mockFile.path;
 
 			// Make multiple rapid calls
-			plugin.debouncedSave(mockFile.path, mockState);
-			plugin.debouncedSave(mockFile.path, mockState);
-			plugin.debouncedSave(mockFile.path, mockState);
+			plugin.saveQueue.schedule(mockFile.path, mockState);
+			plugin.saveQueue.schedule(mockFile.path, mockState);
+			plugin.saveQueue.schedule(mockFile.path, mockState);
 
 			// Should not call writeFileState immediately
 			expect(writeFileStateSpy).not.toHaveBeenCalled();
@@ -518,12 +526,31 @@ describe("AntiEphemeralState Event Handlers", () => {
 			expect(writeFileStateSpy).toHaveBeenCalledTimes(1);
 		});
 
-		it("should cancel debounced save on plugin unload", () => {
-			const cancelSpy = jest.spyOn(plugin.debouncedSave, "cancel");
+		it("should keep pending saves of different notes apart", () => {
+			const writeFileStateSpy = jest
+				.spyOn(plugin, "writeFileState")
+				.mockResolvedValue();
+			const first = { scroll: 10 };
+			const second = { scroll: 20 };
+
+			plugin.saveQueue.schedule("notes/a.md", first);
+			plugin.saveQueue.schedule("notes/b.md", second);
+			jest.advanceTimersByTime(500);
+
+			expect(writeFileStateSpy).toHaveBeenCalledTimes(2);
+			expect(writeFileStateSpy).toHaveBeenCalledWith("notes/a.md", first);
+			expect(writeFileStateSpy).toHaveBeenCalledWith(
+				"notes/b.md",
+				second
+			);
+		});
+
+		it("should flush pending saves on plugin unload", () => {
+			const flushSpy = jest.spyOn(plugin.saveQueue, "flushAll");
 
 			plugin.onunload();
 
-			expect(cancelSpy).toHaveBeenCalled();
+			expect(flushSpy).toHaveBeenCalled();
 		});
 	});
 
@@ -550,6 +577,8 @@ describe("AntiEphemeralState Event Handlers", () => {
 				const removeStateSpy = jest
 					.spyOn(app.vault.adapter, "remove")
 					.mockResolvedValue();
+				// Entry keys are hashed via WebCrypto, which fake timers cannot flush
+				await plugin.getFileHash(oldPath);
 
 				// Trigger rename event
 				app.vault.trigger("rename", newFile, oldPath);
@@ -588,6 +617,8 @@ describe("AntiEphemeralState Event Handlers", () => {
 				const consoleErrorSpy = jest
 					.spyOn(console, "error")
 					.mockImplementation(() => {});
+				// Entry keys are hashed via WebCrypto, which fake timers cannot flush
+				await plugin.getFileHash(oldPath);
 
 				// Trigger rename event
 				app.vault.trigger("rename", newFile, oldPath);
@@ -613,6 +644,8 @@ describe("AntiEphemeralState Event Handlers", () => {
 				const removeSpy = jest
 					.spyOn(app.vault.adapter, "remove")
 					.mockResolvedValue();
+				// Entry keys are hashed via WebCrypto, which fake timers cannot flush
+				await plugin.getFileHash(fileToDelete.path);
 
 				// Trigger delete event
 				app.vault.trigger("delete", fileToDelete);
@@ -630,6 +663,8 @@ describe("AntiEphemeralState Event Handlers", () => {
 					.spyOn(app.vault.adapter, "exists")
 					.mockResolvedValue(false);
 				const removeSpy = jest.spyOn(app.vault.adapter, "remove");
+				// Entry keys are hashed via WebCrypto, which fake timers cannot flush
+				await plugin.getFileHash(fileToDelete.path);
 
 				// Trigger delete event
 				app.vault.trigger("delete", fileToDelete);
@@ -649,6 +684,8 @@ describe("AntiEphemeralState Event Handlers", () => {
 				const consoleErrorSpy = jest
 					.spyOn(console, "error")
 					.mockImplementation(() => {});
+				// Entry keys are hashed via WebCrypto, which fake timers cannot flush
+				await plugin.getFileHash(fileToDelete.path);
 
 				// Trigger delete event
 				app.vault.trigger("delete", fileToDelete);
@@ -0,0 +1,167 @@
+/**
+ * Tests for merging concurrent state updates field by field
+ * Coverage: per-field timestamps, last-writer-wins per field, deterministic ties, legacy entries
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+	TFile,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+
+describe("AntiEphemeralState Field Merge", () => {
+	let app: App;
+	let manifest: MockManifest;
+	let adapter: MockVaultAdapter;
+	let plugin: AntiEphemeralState;
+	const notePath = "notes/concurrent.md";
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		plugin.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+		jest.spyOn(app.workspace, "getActiveFile").mockReturnValue(
+			new TFile(notePath)
+		);
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	// Read the entry as stored on disk, bypassing the cache
+	const stored = async () => {
+		plugin.getStateCache().clear();
+		return plugin.readFileState(notePath);
+	};
+
+	it("should keep a lock made after a stale position write", async () => {
+		await plugin.writeFileState(notePath, {
+			scroll: 1,
+			fieldUpdatedAt: { scroll: 100 },
+		});
+		await plugin.writeFileState(notePath, {
+			protected: true,
+			timestamp: 500,
+			fieldUpdatedAt: { lock: 300 },
+		});
+		// A position captured before the lock arrives afterwards
+		await plugin.writeFileState(notePath, {
+			scroll: 2,
+			protected: false,
+			timestamp: null,
+			fieldUpdatedAt: { scroll: 200 },
+		});
+
+		expect(await stored()).toMatchObject({
+			scroll: 2,
+			protected: true,
+			timestamp: 500,
+		});
+	});
+
+	it("should keep the newer value of each field", async () => {
+		await plugin.writeFileState(notePath, {
+			scroll: 10,
+			cursor: { start: { col: 0, line: 1 }, end: { col: 0, line: 1 } },
+			fieldUpdatedAt: { scroll: 300, cursor: 100 },
+		});
+		await plugin.writeFileState(notePath, {
+			scroll: 20,
+			cursor: { start: { col: 0, line: 2 }, end: { col: 0, line: 2 } },
+			fieldUpdatedAt: { scroll: 200, cursor: 200 },
+		});
+
+		const state = await stored();
+		expect(state?.scroll).toBe(10);
+		expect(state?.cursor?.start.line).toBe(2);
+	});
+
+	it("should converge regardless of write order", async () => {
+		const a = { scroll: 10, fieldUpdatedAt: { scroll: 100 } };
+		const b = { scroll: 20, fieldUpdatedAt: { scroll: 100 } };
+
+		await plugin.writeFileState(notePath, a);
+		await plugin.writeFileState(notePath, b);
+		const first = (await stored())?.scroll;
+		adapter.reset();
+		plugin.getStateCache().clear();
+		await plugin.writeFileState(notePath, b);
+		await plugin.writeFileState(notePath, a);
+
+		expect((await stored())?.scroll).toBe(first);
+	});
+
+	it("should let unstamped writes replace entries without field times", async () => {
+		const key = await plugin.getFileHash(notePath);
+		await adapter.write(
+			`${DB_DIR}/${key}.json`,
+			JSON.stringify({
+				path: notePath,
+				schemaVersion: 2,
+				scroll: 5,
+				protected: true,
+				timestamp: 1,
+				updatedAt: 100,
+			})
+		);
+
+		await plugin.writeFileState(notePath, { scroll: 6 });
+
+		expect(await stored()).toMatchObject({
+			scroll: 6,
+			protected: true,
+			timestamp: 1,
+		});
+	});
+
+	it("should not expose field times on read states", async () => {
+		await plugin.writeFileState(notePath, {
+			scroll: 1,
+			fieldUpdatedAt: { scroll: 100 },
+		});
+
+		expect(await stored()).not.toHaveProperty("fieldUpdatedAt");
+	});
+
+	it("should stamp only the fields a save captured", async () => {
+		await plugin.onload();
+		plugin.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+		await plugin.lockManager!.toggleLockState(notePath);
+		plugin.lastLoadedFileName = notePath;
+
+		await plugin.saveTemporaryState({ scroll: 3 });
+		await plugin.saveQueue.flushAll();
+
+		const key = await plugin.getFileHash(notePath);
+		const raw = JSON.parse(await adapter.read(`${DB_DIR}/${key}.json`));
+		expect(Object.keys(raw.fieldUpdatedAt).sort()).toEqual([
+			"lock",
+			"scroll",
+		]);
+		expect(raw.protected).toBe(true);
+		plugin.onunload();
+	});
+});
@@ -34,26 +34,26 @@ describe("AntiEphemeralState File Hashing", () => {
 	});
 
 	describe("getFileHash", () => {
-		it("should generate consistent hashes for same file names", () => {
+		it("should generate consistent hashes for same file names", async () => {
 			const filePath = "test/example.md";
-			const hash1 = plugin.getFileHash(filePath);
-			const hash2 = plugin.getFileHash(filePath);
+			const hash1 = await plugin.getFileHash(filePath);
+			const hash2 = await plugin.getFileHash(filePath);
 
 			expect(hash1).toBe(hash2);
 			expect(typeof hash1).toBe("string");
 			expect(hash1.length).toBeGreaterThan(0);
 		});
 
-		it("should generate different hashes for different file names", () => {
+		it("should generate different hashes for different file names", async () => {
 			const filePath1 = "test/file1.md";
 			const filePath2 = "test/file2.md";
-			const hash1 = plugin.getFileHash(filePath1);
-			const hash2 = plugin.getFileHash(filePath2);
+			const hash1 = await plugin.getFileHash(filePath1);
+			const hash2 = await plugin.getFileHash(filePath2);
 
 			expect(hash1).not.toBe(hash2);
 		});
 
-		it("should handle simple file names", () => {
+		it("should handle simple file names", async () => {
 			const testCases = [
 				"note.md",
 				"file.txt",
@@ -62,14 +62,14 @@ describe("AntiEphemeralState File Hashing", () => {
 				"1.md",
 			];
 
-			testCases.forEach(fileName => {
-				const hash = plugin.getFileHash(fileName);
+			for (const fileName of testCases) {
+				const hash = await plugin.getFileHash(fileName);
 				expect(typeof hash).toBe("string");
 				expect(hash.length).toBeGreaterThan(0);
-			});
+			}
 		});
 
-		it("should handle file paths with subdirectories", () => {
+		it("should handle file paths with subdirectories", async () => {
 			const testCases = [
 				"folder/note.md",
 				"deep/nested/folder/file.md",
@@ -78,14 +78,14 @@ describe("AntiEphemeralState File Hashing", () => {
 				"very/very/very/deep/nested/structure/file.md",
 			];
 
-			testCases.forEach(filePath => {
-				const hash = plugin.getFileHash(filePath);
+			for (const filePath of testCases) {
+				const hash = await plugin.getFileHash(filePath);
 				expect(typeof hash).toBe("string");
 				expect(hash.length).toBeGreaterThan(0);
-			});
+			}
 		});
 
-		it("should handle unicode characters correctly", () => {
+		it("should handle unicode characters correctly", async () => {
 			const testCases = [
 				"русский.md",
 				"中文文件.md",
@@ -96,14 +96,14 @@ describe("AntiEphemeralState File Hashing", () => {
 				"مجلد/ملف.md",
 			];
 
-			testCases.forEach(filePath => {
-				const hash = plugin.getFileHash(filePath);
+			for (const filePath of testCases) {
+				const hash = await plugin.getFileHash(filePath);
 				expect(typeof hash).toBe("string");
 				expect(hash.length).toBeGreaterThan(0);
-			});
+			}
 		});
 
-		it("should handle special characters in file names", () => {
+		it("should handle special characters in file names", async () => {
 			const testCases = [
 				"file with spaces.md",
 				"file-with-dashes.md",
@@ -119,14 +119,14 @@ describe("AntiEphemeralState File Hashing", () => {
 				"file&ampersand.md",
 			];
 
-			testCases.forEach(filePath => {
-				const hash = plugin.getFileHash(filePath);
+			for (const filePath of testCases) {
+				const hash = await plugin.getFileHash(filePath);
 				expect(typeof hash).toBe("string");
 				expect(hash.length).toBeGreaterThan(0);
-			});
+			}
 		});
 
-		it("should handle edge cases", () => {
+		it("should handle edge cases", async () => {
 			const testCases = [
 				"", // empty string
 				"a", // single character
@@ -139,14 +139,14 @@ describe("AntiEphemeralState File Hashing", () => {
 				"\\windows\\path\\file.md", // Windows-style path
 			];
 
-			testCases.forEach(filePath => {
-				const hash = plugin.getFileHash(filePath);
+			for (const filePath of testCases) {
+				const hash = await plugin.getFileHash(filePath);
 				expect(typeof hash).toBe("string");
 				expect(hash.length).toBeGreaterThan(0);
-			});
+			}
 		});
 
-		it("should maintain low collision rate", () => {
+		it("should maintain low collision rate", async () => {
 			// Generate a set of similar file names and check for collisions
 			const testFiles: string[] = [];
 			for (let i = 0; i < 1000; i++) {
@@ -158,21 +158,21 @@ describe("AntiEphemeralState File Hashing", () => {
 			const hashes = new Set();
 			let collisions = 0;
 
-			testFiles.forEach(fileName => {
-				const hash = plugin.getFileHash(fileName);
+			for (const fileName of testFiles) {
+				const hash = await plugin.getFileHash(fileName);
 				if (hashes.has(hash)) {
 					collisions++;
 				} else {
 					hashes.add(hash);
 				}
-			});
+			}
 
 			// Collision rate should be very low (less than 1%)
 			const collisionRate = collisions / testFiles.length;
 			expect(collisionRate).toBeLessThan(0.01);
 		});
 
-		it("should handle very long file names", () => {
+		it("should handle very long file names", async () => {
 			// Test with increasingly long file names
 			const baseName = "very_long_file_name_that_keeps_getting_longer";
 			const testCases = [
@@ -183,54 +183,62 @@ describe("AntiEphemeralState File Hashing", () => {
 				baseName.repeat(50) + ".md",
 			];
 
-			testCases.forEach(fileName => {
-				const hash = plugin.getFileHash(fileName);
+			for (const fileName of testCases) {
+				const hash = await plugin.getFileHash(fileName);
 				expect(typeof hash).toBe("string");
 				expect(hash.length).toBeGreaterThan(0);
-			});
+			}
 
 			// All hashes should be different
-			const hashes = testCases.map(fileName =>
-				plugin.getFileHash(fileName)
+			const hashes = await Promise.all(
+				testCases.map(fileName => plugin.getFileHash(fileName))
 			);
 			const uniqueHashes = new Set(hashes);
 			expect(uniqueHashes.size).toBe(testCases.length);
 		});
 
-		it("should produce hashes that are valid for file names", () => {
+		it("should produce hashes that are valid for file names", async () => {
 			const testCases = [
 				"normal/file.md",
 				"file with spaces.md",
 				"специальные/символы.md",
 			];
 
-			testCases.forEach(filePath => {
-				const hash = plugin.getFileHash(filePath);
+			for (const filePath of testCases) {
+				const hash = await plugin.getFileHash(filePath);
 
 				// Hash should not contain characters that are invalid in file names
 				expect(hash).not.toMatch(/[<>:"|?*\\/]/);
 
 				// Hash should be alphanumeric with possible dots
 				expect(hash).toMatch(/^[a-zA-Z0-9.]+$/);
-			});
+			}
 		});
 
-		it("should use length as part of hash for extra uniqueness", () => {
-			// Files with same character set but different lengths should have different hashes
-			const file1 = "abc";
-			const file2 = "abcc";
-			const file3 = "abccc";
-
-			const hash1 = plugin.getFileHash(file1);
-			const hash2 = plugin.getFileHash(file2);
-			const hash3 = plugin.getFileHash(file3);
+		it("should produce a hex SHA-256 digest of the note path", async () => {
+			// SHA-256("test/example.md")
+			const expected = Array.from(
+				new Uint8Array(
+					await crypto.subtle.digest(
+						"SHA-256",
+						new TextEncoder().encode("test/example.md")
+					)
+				)
+			)
+				.map(b => b.toString(16).padStart(2, "0"))
+				.join("");
+
+			expect(await plugin.getFileHash("test/example.md")).toBe(expected);
+			expect(expected).toMatch(/^[0-9a-f]{64}$/);
+		});
 
-			expect(hash1).not.toBe(hash2);
-			expect(hash2).not.toBe(hash3);
-			expect(hash1).not.toBe(hash3);
+		it("should hash the normalized note path", async () => {
+			expect(await plugin.getFileHash("folder//note.md")).toBe(
+				await plugin.getFileHash("folder/note.md")
+			);
 		});
 
-		it("should handle boundary values for hash calculation", () => {
+		it("should handle boundary values for hash calculation", async () => {
 			// Test with characters at Unicode boundaries
 			const testCases = [
 				String.fromCharCode(0), // null character
@@ -240,30 +248,51 @@ describe("AntiEphemeralState File Hashing", () => {
 				String.fromCharCode(0x1f600), // emoji
 			];
 
-			testCases.forEach(char => {
+			for (const char of testCases) {
 				const fileName = `file${char}.md`;
-				const hash = plugin.getFileHash(fileName);
+				const hash = await plugin.getFileHash(fileName);
 				expect(typeof hash).toBe("string");
 				expect(hash.length).toBeGreaterThan(0);
-			});
+			}
+		});
+	});
+
+	describe("getLegacyFileHash", () => {
+		it("should keep producing the previous key format", () => {
+			const hash = plugin.getLegacyFileHash("test/example.md");
+
+			expect(hash).toMatch(/^[a-z0-9]+$/);
+			expect(hash).toBe(plugin.getLegacyFileHash("test/example.md"));
+			// The path length is the trailing base36 component
+			expect(hash.endsWith((15).toString(36))).toBe(true);
+		});
+
+		it("should use length as part of hash for extra uniqueness", () => {
+			const hash1 = plugin.getLegacyFileHash("abc");
+			const hash2 = plugin.getLegacyFileHash("abcc");
+			const hash3 = plugin.getLegacyFileHash("abccc");
+
+			expect(hash1).not.toBe(hash2);
+			expect(hash2).not.toBe(hash3);
+			expect(hash1).not.toBe(hash3);
 		});
 	});
 
 	describe("getDbFilePath", () => {
-		it("should generate database file paths correctly", () => {
+		it("should generate database file paths correctly", async () => {
 			// Set up plugin settings first
 			plugin.settings = {
 				dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
 			};
 
 			const filePath = "test/example.md";
-			const dbPath = plugin.getDbFilePath(filePath);
+			const dbPath = await plugin.getDbFilePath(filePath);
 
 			expect(dbPath).toContain(plugin.settings.dbDir);
 			expect(dbPath).toMatch(/\.json$/);
 		});
 
-		it("should generate different paths for different files", () => {
+		it("should generate different paths for different files", async () => {
 			// Set up plugin settings first
 			plugin.settings = {
 				dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
@@ -271,15 +300,15 @@ describe("AntiEphemeralState File Hashing", () => {
 
 			const filePath1 = "test/file1.md";
 			const filePath2 = "test/file2.md";
-			const dbPath1 = plugin.getDbFilePath(filePath1);
-			const dbPath2 = plugin.getDbFilePath(filePath2);
+			const dbPath1 = await plugin.getDbFilePath(filePath1);
+			const dbPath2 = await plugin.getDbFilePath(filePath2);
 
 			expect(dbPath1).not.toBe(dbPath2);
 			expect(dbPath1).toContain(plugin.settings.dbDir);
 			expect(dbPath2).toContain(plugin.settings.dbDir);
 		});
 
-		it("should work with various database directory paths", () => {
+		it("should work with various database directory paths", async () => {
 			const testDbDirs = [
 				"/test/.obsidian/plugins/anti-ephemeral-state/db",
 				"/custom/path/to/db",
@@ -290,16 +319,16 @@ describe("AntiEphemeralState File Hashing", () => {
 
 			const filePath = "test/file.md";
 
-			testDbDirs.forEach(dbDir => {
+			for (const dbDir of testDbDirs) {
 				plugin.settings = { dbDir };
-				const dbPath = plugin.getDbFilePath(filePath);
+				const dbPath = await plugin.getDbFilePath(filePath);
 
 				expect(dbPath).toContain(dbDir);
 				expect(dbPath).toMatch(/\.json$/);
-			});
+			}
 		});
 
-		it("should handle complex file paths correctly", () => {
+		it("should handle complex file paths correctly", async () => {
 			plugin.settings = {
 				dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
 			};
@@ -313,21 +342,21 @@ describe("AntiEphemeralState File Hashing", () => {
 				"emoji😀file.md",
 			];
 
-			testCases.forEach(filePath => {
-				const dbPath = plugin.getDbFilePath(filePath);
+			for (const filePath of testCases) {
+				const dbPath = await plugin.getDbFilePath(filePath);
 				expect(dbPath).toContain(plugin.settings.dbDir);
 				expect(dbPath).toMatch(/\.json$/);
-			});
+			}
 		});
 
-		it("should maintain consistent mapping between file and database paths", () => {
+		it("should maintain consistent mapping between file and database paths", async () => {
 			plugin.settings = {
 				dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
 			};
 
 			const filePath = "test/consistent.md";
-			const dbPath1 = plugin.getDbFilePath(filePath);
-			const dbPath2 = plugin.getDbFilePath(filePath);
+			const dbPath1 = await plugin.getDbFilePath(filePath);
+			const dbPath2 = await plugin.getDbFilePath(filePath);
 
 			expect(dbPath1).toBe(dbPath2);
 		});
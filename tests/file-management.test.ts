@@ -91,14 +91,14 @@ describe("AntiEphemeralState File Management", () => {
 			await plugin.writeFileState(oldPath, originalState);
 
 			// Verify old state exists
-			const oldDbPath = plugin.getDbFilePath(oldPath);
+			const oldDbPath = await plugin.getDbFilePath(oldPath);
 			expect(await mockVault.adapter.exists(oldDbPath)).toBe(true);
 
 			// Perform rename operation
 			await plugin.renameFile(file as TAbstractFile, oldPath);
 
 			// Verify new state file exists with correct content
-			const newDbPath = plugin.getDbFilePath(newPath);
+			const newDbPath = await plugin.getDbFilePath(newPath);
 			expect(await mockVault.adapter.exists(newDbPath)).toBe(true);
 
 			const newState = await plugin.readFileState(newPath);
@@ -122,7 +122,7 @@ describe("AntiEphemeralState File Management", () => {
 			const file = new TFile(newPath);
 
 			// Ensure no state exists for old file
-			const oldDbPath = plugin.getDbFilePath(oldPath);
+			const oldDbPath = await plugin.getDbFilePath(oldPath);
 			expect(await mockVault.adapter.exists(oldDbPath)).toBe(false);
 
 			// Perform rename operation - should not throw error
@@ -131,7 +131,7 @@ describe("AntiEphemeralState File Management", () => {
 			).resolves.toBeUndefined();
 
 			// Verify no new state file is created
-			const newDbPath = plugin.getDbFilePath(newPath);
+			const newDbPath = await plugin.getDbFilePath(newPath);
 			expect(await mockVault.adapter.exists(newDbPath)).toBe(false);
 		});
 
@@ -187,7 +187,7 @@ describe("AntiEphemeralState File Management", () => {
 			);
 
 			// Verify old file is cleaned up
-			const oldDbPath = plugin.getDbFilePath(oldPath);
+			const oldDbPath = await plugin.getDbFilePath(oldPath);
 			expect(await mockVault.adapter.exists(oldDbPath)).toBe(false);
 		});
 
@@ -212,7 +212,7 @@ describe("AntiEphemeralState File Management", () => {
 			expect(newState).toEqual(withLockDefaults(state));
 
 			// Verify cleanup
-			const oldDbPath = plugin.getDbFilePath(oldPath);
+			const oldDbPath = await plugin.getDbFilePath(oldPath);
 			expect(await mockVault.adapter.exists(oldDbPath)).toBe(false);
 		});
 
@@ -334,7 +334,7 @@ describe("AntiEphemeralState File Management", () => {
 			await plugin.writeFileState(filePath, state);
 
 			// Verify state file exists
-			const dbPath = plugin.getDbFilePath(filePath);
+			const dbPath = await plugin.getDbFilePath(filePath);
 			expect(await mockVault.adapter.exists(dbPath)).toBe(true);
 
 			// Delete the file
@@ -349,7 +349,7 @@ describe("AntiEphemeralState File Management", () => {
 			const file = new TFile(filePath);
 
 			// Ensure no state file exists
-			const dbPath = plugin.getDbFilePath(filePath);
+			const dbPath = await plugin.getDbFilePath(filePath);
 			expect(await mockVault.adapter.exists(dbPath)).toBe(false);
 
 			// Delete operation should not throw error
@@ -371,7 +371,7 @@ describe("AntiEphemeralState File Management", () => {
 
 			await plugin.writeFileState(filePath, state);
 
-			const dbPath = plugin.getDbFilePath(filePath);
+			const dbPath = await plugin.getDbFilePath(filePath);
 			expect(await mockVault.adapter.exists(dbPath)).toBe(true);
 
 			await plugin.deleteFile(file as TAbstractFile);
@@ -447,7 +447,7 @@ describe("AntiEphemeralState File Management", () => {
 
 			await plugin.writeFileState(filePath, complexState);
 
-			const dbPath = plugin.getDbFilePath(filePath);
+			const dbPath = await plugin.getDbFilePath(filePath);
 			expect(await mockVault.adapter.exists(dbPath)).toBe(true);
 
 			await plugin.deleteFile(file as TAbstractFile);
@@ -479,8 +479,8 @@ describe("AntiEphemeralState File Management", () => {
 			await plugin.writeFileState(filePath1, state1);
 			await plugin.writeFileState(filePath2, state2);
 
-			const dbPath1 = plugin.getDbFilePath(filePath1);
-			const dbPath2 = plugin.getDbFilePath(filePath2);
+			const dbPath1 = await plugin.getDbFilePath(filePath1);
+			const dbPath2 = await plugin.getDbFilePath(filePath2);
 
 			// Both should exist initially
 			expect(await mockVault.adapter.exists(dbPath1)).toBe(true);
@@ -509,7 +509,7 @@ describe("AntiEphemeralState File Management", () => {
 
 			await plugin.writeFileState(filePath, state);
 
-			const dbPath = plugin.getDbFilePath(filePath);
+			const dbPath = await plugin.getDbFilePath(filePath);
 			expect(await mockVault.adapter.exists(dbPath)).toBe(true);
 
 			await plugin.deleteFile(file as TAbstractFile);
@@ -559,8 +559,8 @@ describe("AntiEphemeralState File Management", () => {
 			await plugin.deleteFile(file as TAbstractFile);
 
 			// Verify all state files are cleaned up
-			const originalDbPath = plugin.getDbFilePath(originalPath);
-			const renamedDbPath = plugin.getDbFilePath(renamedPath);
+			const originalDbPath = await plugin.getDbFilePath(originalPath);
+			const renamedDbPath = await plugin.getDbFilePath(renamedPath);
 
 			expect(await mockVault.adapter.exists(originalDbPath)).toBe(false);
 			expect(await mockVault.adapter.exists(renamedDbPath)).toBe(false);
@@ -608,7 +608,7 @@ describe("AntiEphemeralState File Management", () => {
 
 			// Verify all states are cleaned up
 			for (const fileInfo of files) {
-				const dbPath = plugin.getDbFilePath(fileInfo.newPath);
+				const dbPath = await plugin.getDbFilePath(fileInfo.newPath);
 				expect(await mockVault.adapter.exists(dbPath)).toBe(false);
 			}
 		});
@@ -643,7 +643,7 @@ describe("AntiEphemeralState File Management", () => {
 			plugin.readFileState = originalReadFileState;
 
 			// Original state should still exist
-			const originalDbPath = plugin.getDbFilePath(filePath);
+			const originalDbPath = await plugin.getDbFilePath(filePath);
 			expect(await mockVault.adapter.exists(originalDbPath)).toBe(true);
 
 			// Clean up for next test
@@ -63,6 +63,22 @@ describe("AntiEphemeralState File State Operations", () => {
 		};
 	};
 
+	/**
+	 * Persisted entries additionally record the owning note path, the schema version and the write time
+	 */
+	const asStoredEntry = (
+		state: Record<string, unknown>,
+		filePath: string
+	) => {
+		return {
+			...withLockDefaults(state),
+			path: filePath,
+			schemaVersion: 2,
+			updatedAt: expect.any(Number),
+			fieldUpdatedAt: expect.any(Object),
+		};
+	};
+
 	afterEach(() => {
 		// Clean up mock file system
 		if (mockVault?.adapter) {
@@ -93,7 +109,7 @@ describe("AntiEphemeralState File State Operations", () => {
 			};
 
 			// Create state file manually
-			const dbFilePath = plugin.getDbFilePath(filePath);
+			const dbFilePath = await plugin.getDbFilePath(filePath);
 			await mockVault.adapter.write(
 				dbFilePath,
 				JSON.stringify(baseState)
@@ -106,7 +122,7 @@ describe("AntiEphemeralState File State Operations", () => {
 
 		it("should handle invalid JSON gracefully", async () => {
 			const filePath = "test/invalid.md";
-			const dbFilePath = plugin.getDbFilePath(filePath);
+			const dbFilePath = await plugin.getDbFilePath(filePath);
 
 			// Write invalid JSON
 			await mockVault.adapter.write(dbFilePath, "{ invalid json content");
@@ -145,7 +161,7 @@ describe("AntiEphemeralState File State Operations", () => {
 				},
 			};
 
-			const dbFilePath = plugin.getDbFilePath(filePath);
+			const dbFilePath = await plugin.getDbFilePath(filePath);
 			await mockVault.adapter.write(
 				dbFilePath,
 				JSON.stringify(incorrectState)
@@ -174,7 +190,7 @@ describe("AntiEphemeralState File State Operations", () => {
 				},
 			};
 
-			const dbFilePath = plugin.getDbFilePath(filePath);
+			const dbFilePath = await plugin.getDbFilePath(filePath);
 			await mockVault.adapter.write(dbFilePath, JSON.stringify(state));
 
 			// Mock DOM element with flashing span
@@ -202,7 +218,7 @@ describe("AntiEphemeralState File State Operations", () => {
 				scroll: 50,
 			};
 
-			const dbFilePath = plugin.getDbFilePath(filePath);
+			const dbFilePath = await plugin.getDbFilePath(filePath);
 			await mockVault.adapter.write(
 				dbFilePath,
 				JSON.stringify(baseState)
@@ -214,7 +230,7 @@ describe("AntiEphemeralState File State Operations", () => {
 
 		it("should handle empty state file", async () => {
 			const filePath = "test/empty.md";
-			const dbFilePath = plugin.getDbFilePath(filePath);
+			const dbFilePath = await plugin.getDbFilePath(filePath);
 
 			await mockVault.adapter.write(dbFilePath, "{}");
 
@@ -241,13 +257,13 @@ describe("AntiEphemeralState File State Operations", () => {
 
 			await plugin.writeFileState(filePath, state);
 
-			const dbFilePath = plugin.getDbFilePath(filePath);
+			const dbFilePath = await plugin.getDbFilePath(filePath);
 			expect(await mockVault.adapter.exists(dbFilePath)).toBe(true);
 
 			const savedContent = await mockVault.adapter.read(dbFilePath);
 			const savedState = JSON.parse(savedContent);
 			// writeFileState automatically adds Lock Mode defaults
-			expect(savedState).toEqual(withLockDefaults(state));
+			expect(savedState).toEqual(asStoredEntry(state, filePath));
 		});
 
 		it("should create database directory if it doesn't exist", async () => {
@@ -272,7 +288,7 @@ describe("AntiEphemeralState File State Operations", () => {
 			);
 
 			// File should be written
-			const dbFilePath = plugin.getDbFilePath(filePath);
+			const dbFilePath = await plugin.getDbFilePath(filePath);
 			expect(await mockVault.adapter.exists(dbFilePath)).toBe(true);
 		});
 
@@ -327,10 +343,10 @@ describe("AntiEphemeralState File State Operations", () => {
 			await plugin.writeFileState(filePath, state);
 
 			// Verify complex state is preserved
-			const dbFilePath = plugin.getDbFilePath(filePath);
+			const dbFilePath = await plugin.getDbFilePath(filePath);
 			const savedContent = await mockVault.adapter.read(dbFilePath);
 			const savedState = JSON.parse(savedContent);
-			expect(savedState).toEqual(withLockDefaults(state));
+			expect(savedState).toEqual(asStoredEntry(state, filePath));
 		});
 
 		it("should handle state with special characters in file path", async () => {
@@ -344,12 +360,12 @@ describe("AntiEphemeralState File State Operations", () => {
 
 			await plugin.writeFileState(filePath, state);
 
-			const dbFilePath = plugin.getDbFilePath(filePath);
+			const dbFilePath = await plugin.getDbFilePath(filePath);
 			expect(await mockVault.adapter.exists(dbFilePath)).toBe(true);
 
 			const savedContent = await mockVault.adapter.read(dbFilePath);
 			const savedState = JSON.parse(savedContent);
-			expect(savedState).toEqual(withLockDefaults(state));
+			expect(savedState).toEqual(asStoredEntry(state, filePath));
 		});
 
 		it("should overwrite existing state file", async () => {
@@ -375,10 +391,10 @@ describe("AntiEphemeralState File State Operations", () => {
 			await plugin.writeFileState(filePath, newState);
 
 			// Verify new state is saved
-			const dbFilePath = plugin.getDbFilePath(filePath);
+			const dbFilePath = await plugin.getDbFilePath(filePath);
 			const savedContent = await mockVault.adapter.read(dbFilePath);
 			const savedState = JSON.parse(savedContent);
-			expect(savedState).toEqual(withLockDefaults(newState));
+			expect(savedState).toEqual(asStoredEntry(newState, filePath));
 		});
 	});
 
@@ -413,8 +429,8 @@ describe("AntiEphemeralState File State Operations", () => {
 				scroll: 100,
 			};
 
-			const dbFilePath1 = plugin.getDbFilePath(filePath1);
-			const dbFilePath2 = plugin.getDbFilePath(filePath2);
+			const dbFilePath1 = await plugin.getDbFilePath(filePath1);
+			const dbFilePath2 = await plugin.getDbFilePath(filePath2);
 
 			await mockVault.adapter.write(
 				dbFilePath1,
@@ -461,8 +477,8 @@ describe("AntiEphemeralState File State Operations", () => {
 				scroll: 200,
 			};
 
-			const dbFilePathExisting = plugin.getDbFilePath(existingFile);
-			const dbFilePathMissing = plugin.getDbFilePath(missingFile);
+			const dbFilePathExisting = await plugin.getDbFilePath(existingFile);
+			const dbFilePathMissing = await plugin.getDbFilePath(missingFile);
 
 			await mockVault.adapter.write(
 				dbFilePathExisting,
@@ -504,8 +520,8 @@ describe("AntiEphemeralState File State Operations", () => {
 				},
 			};
 
-			const dbFilePathValid = plugin.getDbFilePath(validFile);
-			const dbFilePathInvalid = plugin.getDbFilePath(invalidFile);
+			const dbFilePathValid = await plugin.getDbFilePath(validFile);
+			const dbFilePathInvalid = await plugin.getDbFilePath(invalidFile);
 
 			await mockVault.adapter.write(
 				dbFilePathValid,
@@ -551,7 +567,7 @@ describe("AntiEphemeralState File State Operations", () => {
 				},
 			};
 
-			const dbFilePath = plugin.getDbFilePath(validFile);
+			const dbFilePath = await plugin.getDbFilePath(validFile);
 			await mockVault.adapter.write(
 				dbFilePath,
 				JSON.stringify(validState)
@@ -591,7 +607,7 @@ describe("AntiEphemeralState File State Operations", () => {
 				},
 			};
 
-			const dbFilePath = plugin.getDbFilePath(testFile);
+			const dbFilePath = await plugin.getDbFilePath(testFile);
 			await mockVault.adapter.write(
 				dbFilePath,
 				JSON.stringify(testState)
@@ -632,9 +648,9 @@ describe("AntiEphemeralState File State Operations", () => {
 				scroll: 200,
 			};
 
-			const dbFilePath1 = plugin.getDbFilePath("no-viewstate");
-			const dbFilePath2 = plugin.getDbFilePath("empty-viewstate");
-			const dbFilePath3 = plugin.getDbFilePath("null-file");
+			const dbFilePath1 = await plugin.getDbFilePath("no-viewstate");
+			const dbFilePath2 = await plugin.getDbFilePath("empty-viewstate");
+			const dbFilePath3 = await plugin.getDbFilePath("null-file");
 
 			await mockVault.adapter.write(
 				dbFilePath1,
@@ -690,11 +706,11 @@ describe("AntiEphemeralState File State Operations", () => {
 
 			// Write states to database
 			await mockVault.adapter.write(
-				plugin.getDbFilePath(validFile),
+				await plugin.getDbFilePath(validFile),
 				JSON.stringify(validState)
 			);
 			await mockVault.adapter.write(
-				plugin.getDbFilePath(missingFile),
+				await plugin.getDbFilePath(missingFile),
 				JSON.stringify(missingState)
 			);
 			await mockVault.adapter.write(
@@ -702,7 +718,7 @@ describe("AntiEphemeralState File State Operations", () => {
 				"{ invalid json"
 			);
 			await mockVault.adapter.write(
-				plugin.getDbFilePath(fixableFile),
+				await plugin.getDbFilePath(fixableFile),
 				JSON.stringify(fixableState)
 			);
 
@@ -751,7 +767,7 @@ describe("AntiEphemeralState File State Operations", () => {
 				},
 			};
 
-			const dbFilePath = plugin.getDbFilePath(testFile);
+			const dbFilePath = await plugin.getDbFilePath(testFile);
 			await mockVault.adapter.write(
 				dbFilePath,
 				JSON.stringify(testState)
@@ -805,7 +821,7 @@ describe("AntiEphemeralState File State Operations", () => {
 				viewState: { file: testFile },
 			};
 
-			const dbFilePath = plugin.getDbFilePath(testFile);
+			const dbFilePath = await plugin.getDbFilePath(testFile);
 			await mockVault.adapter.write(
 				dbFilePath,
 				JSON.stringify(stateWithFileButNoViewState)
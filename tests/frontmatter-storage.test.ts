@@ -0,0 +1,219 @@
+/**
+ * Tests for keeping lock status and view mode in frontmatter properties
+ * Coverage: frontmatter writes and reads, untouched notes, custom property names, integrity check, change events
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+	TFile,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+
+describe("AntiEphemeralState Frontmatter Storage", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let adapter: MockVaultAdapter;
+	const notePath = "notes/shared.md";
+
+	beforeEach(async () => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		const manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		await plugin.onload();
+		plugin.settings = {
+			dbDir: DB_DIR,
+			lockModeEnabled: true,
+			sharedStateLocation: "frontmatter",
+		};
+		await adapter.write(notePath, "# Shared");
+		// Keep the note's mtime apart from later writes
+		await plugin.delay(2);
+	});
+
+	afterEach(() => {
+		plugin.onunload();
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	const frontmatter = () => app.metadataCache.frontmatter.get(notePath);
+
+	describe("writing", () => {
+		it("should keep the lock in the note's frontmatter", async () => {
+			await plugin.lockManager!.toggleLockState(notePath);
+
+			expect(frontmatter()).toEqual({
+				"aes-locked": true,
+				"aes-lock-timestamp": expect.any(Number),
+			});
+
+			await plugin.lockManager!.toggleLockState(notePath);
+
+			expect(frontmatter()).toEqual({
+				"aes-locked": false,
+				"aes-lock-timestamp": null,
+			});
+		});
+
+		it("should not touch the note for position changes", async () => {
+			const processSpy = jest.spyOn(
+				app.fileManager,
+				"processFrontMatter"
+			);
+
+			await plugin.writeFileState(notePath, {
+				scroll: 40,
+				viewState: { type: "markdown", mode: "source" } as never,
+			});
+
+			expect(processSpy).not.toHaveBeenCalled();
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(40);
+		});
+
+		it("should record a view mode other than the default", async () => {
+			await plugin.writeFileState(notePath, {
+				viewState: { type: "markdown", mode: "preview" } as never,
+			});
+			expect(frontmatter()).toEqual({ "aes-view-mode": "preview" });
+
+			await plugin.writeFileState(notePath, {
+				viewState: { type: "markdown", mode: "source" } as never,
+			});
+			expect(frontmatter()).toEqual({ "aes-view-mode": "source" });
+		});
+
+		it("should use the configured property names", async () => {
+			plugin.settings.frontmatterProperties = { protected: "locked" };
+
+			await plugin.lockManager!.toggleLockState(notePath);
+
+			expect(frontmatter()).toEqual({
+				locked: true,
+				"aes-lock-timestamp": expect.any(Number),
+			});
+		});
+
+		it("should leave frontmatter alone in database mode", async () => {
+			plugin.settings.sharedStateLocation = "database";
+
+			await plugin.lockManager!.toggleLockState(notePath);
+
+			expect(frontmatter()).toBeUndefined();
+			expect(await plugin.lockManager!.isFileLocked(notePath)).toBe(true);
+		});
+	});
+
+	describe("reading", () => {
+		it("should take lock and view mode from the note", async () => {
+			await plugin.writeFileState(notePath, { scroll: 40 });
+			app.metadataCache.frontmatter.set(notePath, {
+				"aes-locked": true,
+				"aes-lock-timestamp": 1234,
+				"aes-view-mode": "preview",
+			});
+
+			expect(await plugin.readFileState(notePath)).toMatchObject({
+				scroll: 40,
+				protected: true,
+				timestamp: 1234,
+				viewState: { mode: "preview" },
+			});
+		});
+
+		it("should read a lock from a note without a stored state", async () => {
+			app.metadataCache.frontmatter.set(notePath, { "aes-locked": true });
+
+			expect(await plugin.readFileState(notePath)).toEqual({
+				protected: true,
+				timestamp: null,
+			});
+		});
+
+		it("should keep stored values for properties the note lacks", async () => {
+			await plugin.writeFileState(notePath, {
+				protected: true,
+				timestamp: 99,
+			});
+			app.metadataCache.frontmatter.set(notePath, { tags: ["x"] });
+
+			expect(await plugin.readFileState(notePath)).toMatchObject({
+				protected: true,
+				timestamp: 99,
+			});
+		});
+	});
+
+	describe("integrity", () => {
+		const verify = async () => {
+			const state = await plugin.readFileState(notePath);
+			return plugin
+				.getChecksumIntegrity()
+				.verifyFileIntegrity(
+					notePath,
+					state!.timestamp!,
+					state!.frontmatterMtime
+				);
+		};
+
+		it("should not report the plugin's own frontmatter write", async () => {
+			await plugin.lockManager!.toggleLockState(notePath);
+
+			expect(await verify()).toBe(true);
+		});
+
+		it("should still report later edits of a locked note", async () => {
+			await plugin.lockManager!.toggleLockState(notePath);
+			await plugin.delay(2);
+			await adapter.write(notePath, "# Edited");
+
+			expect(await verify()).toBe(false);
+		});
+
+		it("should not vouch for edits made before a frontmatter write", async () => {
+			await plugin.lockManager!.toggleLockState(notePath);
+			await plugin.delay(2);
+			await adapter.write(notePath, "# Edited");
+			await plugin.delay(2);
+
+			const locked = await plugin.readFileState(notePath);
+			await plugin.writeFileState(notePath, {
+				...locked,
+				viewState: { type: "markdown", mode: "preview" } as never,
+			});
+
+			expect(await verify()).toBe(false);
+		});
+	});
+
+	it("should check the open note when its frontmatter changes", () => {
+		const checkSpy = jest
+			.spyOn(plugin, "requestRemoteCheck")
+			.mockImplementation(() => {});
+		plugin.lastLoadedFileName = notePath;
+
+		app.metadataCache.trigger("changed", new TFile(notePath));
+		app.metadataCache.trigger("changed", new TFile("notes/other.md"));
+
+		expect(checkSpy).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,244 @@
+/**
+ * Tests for the device-local IndexedDB backend
+ * Coverage: round-trip outside the vault, per-vault scope, choice per device, rename/delete/validation, import and export
+ */
+
+import "fake-indexeddb/auto";
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+	TFile,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+
+// Every test gets its own vault so IndexedDB databases do not leak between tests
+let vaults = 0;
+
+describe("AntiEphemeralState IndexedDB Backend", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let manifest: MockManifest;
+	let adapter: MockVaultAdapter;
+	const notePath = "notes/local.md";
+
+	const inVault = (vaultApp: App, appId: string) => {
+		Object.assign(vaultApp, { appId });
+		const vaultPlugin = new (AntiEphemeralState as AESCtor)(
+			vaultApp,
+			manifest
+		);
+		vaultPlugin.settings = {
+			dbDir: DB_DIR,
+			lockModeEnabled: true,
+			storageBackend: "indexeddb",
+		};
+		return vaultPlugin;
+	};
+
+	beforeEach(async () => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin = inVault(app, `vault-${++vaults}`);
+		await adapter.write(notePath, "# Local");
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	const dbFiles = () =>
+		adapter.getAllFiles().filter(f => f.startsWith(DB_DIR + "/"));
+
+	// Write an entry into the database directory as a synced device would have
+	const writeToDbDir = async (
+		layout: "per-file" | "single-file",
+		scroll: number
+	) => {
+		plugin.settings.storageBackend = layout;
+		await plugin.writeFileState(notePath, { scroll });
+		plugin.settings.storageBackend = "indexeddb";
+		plugin.getStateCache().clear();
+	};
+
+	it("should keep states out of the vault", async () => {
+		await plugin.writeFileState(notePath, { scroll: 42 });
+		plugin.getStateCache().clear();
+
+		expect((await plugin.readFileState(notePath))?.scroll).toBe(42);
+		expect(dbFiles()).toEqual([]);
+	});
+
+	it("should keep a separate database per vault", async () => {
+		await plugin.writeFileState(notePath, { scroll: 42 });
+		const otherApp = TestUtils.createMockApp("/test/.obsidian");
+		const other = inVault(otherApp, `vault-${++vaults}`);
+
+		expect(await other.readFileState(notePath)).toBeNull();
+		expect(await other.getStateStore().list()).toEqual([]);
+	});
+
+	it("should follow renames and deletes", async () => {
+		const newPath = "notes/renamed.md";
+		await plugin.writeFileState(notePath, { scroll: 42 });
+
+		await plugin.renameFile(new TFile(newPath) as never, notePath);
+		expect((await plugin.readFileState(newPath))?.scroll).toBe(42);
+		expect(await plugin.readFileState(notePath)).toBeNull();
+
+		await plugin.deleteFile(new TFile(newPath) as never);
+		expect(await plugin.getStateStore().list()).toEqual([]);
+	});
+
+	it("should validate entries", async () => {
+		await plugin.writeFileState(notePath, { scroll: 42 });
+		await plugin.writeFileState("notes/gone.md", { scroll: 1 });
+
+		await plugin.validateDatabase();
+
+		expect(await plugin.getStateStore().list()).toEqual([
+			await plugin.getFileHash(notePath),
+		]);
+	});
+
+	it("should move entries between keys", async () => {
+		const store = plugin.getStateStore();
+		await store.put("from", '{"scroll":5}');
+
+		await store.move("from", "to");
+
+		expect(await store.get("from")).toBeNull();
+		expect(await store.get("to")).toBe('{"scroll":5}');
+	});
+
+	describe("import", () => {
+		it.each(["per-file", "single-file"] as const)(
+			"should copy %s entries and leave the files",
+			async layout => {
+				await writeToDbDir(layout, 42);
+				const files = dbFiles();
+
+				expect(await plugin.importFromDbDir()).toBe(1);
+
+				expect((await plugin.readFileState(notePath))?.scroll).toBe(42);
+				expect(dbFiles()).toEqual(files);
+			}
+		);
+
+		it("should keep the newest state per note", async () => {
+			await writeToDbDir("per-file", 1);
+			await plugin.delay(2);
+			await plugin.writeFileState(notePath, { scroll: 2 });
+
+			await plugin.importFromDbDir();
+
+			plugin.getStateCache().clear();
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(2);
+		});
+	});
+
+	describe("export", () => {
+		it("should write one file per note", async () => {
+			await plugin.writeFileState(notePath, { scroll: 42 });
+
+			expect(await plugin.exportToDbDir()).toBe(1);
+
+			plugin.settings.storageBackend = "per-file";
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(42);
+			expect(dbFiles()).toEqual([await plugin.getDbFilePath(notePath)]);
+		});
+
+		it("should use the consolidated database when the directory has one", async () => {
+			await writeToDbDir("single-file", 1);
+			await plugin.delay(2);
+			await plugin.writeFileState(notePath, { scroll: 42 });
+
+			await plugin.exportToDbDir();
+
+			plugin.settings.storageBackend = "single-file";
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(42);
+			expect(dbFiles().filter(f => f.endsWith(".json"))).toEqual([]);
+		});
+	});
+
+	it("should not transfer anything when the database directory changes", async () => {
+		await plugin.writeFileState(notePath, { scroll: 42 });
+
+		expect(await plugin.changeDbDir("vault/states", "move")).toBe(0);
+
+		expect((await plugin.readFileState(notePath))?.scroll).toBe(42);
+	});
+
+	describe("choice per device", () => {
+		// A device whose local storage (per vault, never synced) holds `stored`
+		const onDevice = (stored: Record<string, unknown>) => {
+			const device = new (AntiEphemeralState as AESCtor)(app, manifest);
+			device.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+			jest.spyOn(app, "loadLocalStorage").mockImplementation(
+				(key => stored[key as never] ?? null) as never
+			);
+			jest.spyOn(app, "saveLocalStorage").mockImplementation(((
+				key: string,
+				value: unknown
+			) => {
+				stored[key] = value;
+			}) as never);
+			return device;
+		};
+
+		it("should keep a device-local backend on this device only", async () => {
+			const device = onDevice({});
+
+			await device.setStorageBackend("indexeddb");
+
+			expect(device.getStorageBackend()).toBe("indexeddb");
+			expect(device.settings.storageBackend).toBeUndefined();
+			const other = onDevice({});
+			other.settings = { ...device.settings };
+			expect(other.getStorageBackend()).toBe("per-file");
+		});
+
+		it("should use the choice stored on this device", () => {
+			const device = onDevice({
+				"anti-ephemeral-state-storage-backend": "indexeddb",
+			});
+			device.settings.storageBackend = "single-file";
+
+			expect(device.getStorageBackend()).toBe("indexeddb");
+		});
+
+		it("should share database file layouts as the default", async () => {
+			const stored = {
+				"anti-ephemeral-state-storage-backend": "indexeddb",
+			};
+			const device = onDevice(stored);
+
+			await device.setStorageBackend("single-file");
+
+			expect(device.getStorageBackend()).toBe("single-file");
+			expect(device.settings.storageBackend).toBe("single-file");
+			expect(stored).toEqual({
+				"anti-ephemeral-state-storage-backend": null,
+			});
+		});
+	});
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for SHA-256 entry keys and migration of legacy keys
+ * Coverage: migrateLegacyKeys, legacy fallback lookup in readFileState, deleteFile
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVault,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+	TFile,
+	TAbstractFile,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+describe("AntiEphemeralState Key Migration", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let manifest: MockManifest;
+	let mockVault: MockVault;
+	let adapter: MockVaultAdapter;
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		mockVault = app.vault;
+		adapter = mockVault.adapter as MockVaultAdapter;
+
+		plugin.DEFAULT_SETTINGS = {
+			dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
+			lockModeEnabled: true,
+		};
+		plugin.settings = { ...plugin.DEFAULT_SETTINGS };
+	});
+
+	afterEach(() => {
+		adapter.reset();
+	});
+
+	// Write an entry the way previous plugin versions did
+	const writeLegacy = async (notePath: string, state: object) => {
+		const legacyPath = `${plugin.settings.dbDir}/${plugin.getLegacyFileHash(notePath)}.json`;
+		await adapter.write(legacyPath, JSON.stringify(state));
+		return legacyPath;
+	};
+
+	describe("migrateLegacyKeys", () => {
+		it("should rename legacy entries to SHA-256 keys", async () => {
+			const notePath = "notes/legacy.md";
+			const legacyPath = await writeLegacy(notePath, {
+				scroll: 12,
+				viewState: { type: "markdown", file: notePath },
+			});
+
+			expect(await plugin.migrateLegacyKeys()).toBe(1);
+
+			expect(await adapter.exists(legacyPath)).toBe(false);
+			const newPath = await plugin.getDbFilePath(notePath);
+			expect(JSON.parse(await adapter.read(newPath)).scroll).toBe(12);
+			expect(plugin.settings.legacyKeysMigrated).toBe(true);
+		});
+
+		it("should prefer an entry already stored under the new key", async () => {
+			const notePath = "notes/both.md";
+			const legacyPath = await writeLegacy(notePath, {
+				scroll: 1,
+				viewState: { type: "markdown", file: notePath },
+			});
+			await plugin.writeFileState(notePath, {
+				scroll: 2,
+				viewState: { type: "markdown", file: notePath },
+			});
+
+			await plugin.migrateLegacyKeys();
+
+			expect(await adapter.exists(legacyPath)).toBe(false);
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(2);
+		});
+
+		it("should leave entries without a note path for validation", async () => {
+			const legacyPath = await writeLegacy("notes/orphan.md", {
+				scroll: 3,
+			});
+
+			expect(await plugin.migrateLegacyKeys()).toBe(0);
+			expect(await adapter.exists(legacyPath)).toBe(true);
+		});
+
+		it("should resume after a failed entry and only finish once all succeed", async () => {
+			const first = "notes/first.md";
+			const second = "notes/second.md";
+			await writeLegacy(first, {
+				viewState: { type: "markdown", file: first },
+			});
+			await writeLegacy(second, {
+				viewState: { type: "markdown", file: second },
+			});
+
+			// Fail renaming the second entry once
+			const secondLegacy = plugin.getLegacyFileHash(second);
+			const originalRename = adapter.rename.bind(adapter);
+			adapter.rename = async (from: string, to: string) => {
+				if (from.includes(secondLegacy)) {
+					adapter.rename = originalRename;
+					throw new Error("Busy");
+				}
+				return originalRename(from, to);
+			};
+
+			expect(await plugin.migrateLegacyKeys()).toBe(1);
+			expect(plugin.settings.legacyKeysMigrated).toBeUndefined();
+
+			expect(await plugin.migrateLegacyKeys()).toBe(1);
+			expect(plugin.settings.legacyKeysMigrated).toBe(true);
+			expect(await plugin.getStateStore().list()).toEqual(
+				expect.arrayContaining([
+					await plugin.getFileHash(first),
+					await plugin.getFileHash(second),
+				])
+			);
+		});
+
+		it("should skip the scan once migration has completed", async () => {
+			plugin.settings.legacyKeysMigrated = true;
+			const notePath = "notes/late.md";
+			await writeLegacy(notePath, {
+				viewState: { type: "markdown", file: notePath },
+			});
+
+			expect(await plugin.migrateLegacyKeys()).toBe(0);
+		});
+	});
+
+	describe("fallback lookup", () => {
+		it("should read and migrate a legacy entry on first access", async () => {
+			const notePath = "notes/fallback.md";
+			const legacyPath = await writeLegacy(notePath, {
+				scroll: 77,
+				viewState: { type: "markdown", file: notePath },
+			});
+
+			const state = await plugin.readFileState(notePath);
+
+			expect(state?.scroll).toBe(77);
+			expect(await adapter.exists(legacyPath)).toBe(false);
+			expect(
+				await adapter.exists(await plugin.getDbFilePath(notePath))
+			).toBe(true);
+		});
+
+		it("should not adopt a legacy entry of another note", async () => {
+			const notePath = "notes/fallback.md";
+			const legacyPath = await writeLegacy(notePath, {
+				scroll: 77,
+				viewState: { type: "markdown", file: "notes/colliding.md" },
+			});
+
+			expect(await plugin.readFileState(notePath)).toBeNull();
+
+			expect(await adapter.exists(legacyPath)).toBe(true);
+			expect(
+				await adapter.exists(await plugin.getDbFilePath(notePath))
+			).toBe(false);
+		});
+
+		it("should delete unmigrated legacy entries with their note", async () => {
+			const notePath = "notes/deleted.md";
+			const legacyPath = await writeLegacy(notePath, {
+				viewState: { type: "markdown", file: notePath },
+			});
+
+			await plugin.deleteFile(new TFile(notePath) as TAbstractFile);
+
+			expect(await adapter.exists(legacyPath)).toBe(false);
+		});
+	});
+});
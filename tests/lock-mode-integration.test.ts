@@ -206,9 +206,10 @@ describe("Lock Mode – Integration", () => {
 		await plugin.writeFileState(file.path, nextState);
 
 		const read2 = await plugin.readFileState(file.path);
-		// writeFileState applies defaults when lock fields are omitted
-		expect(read2?.protected).toBe(false);
-		expect(read2?.timestamp).toBeNull();
+		// Omitted lock fields keep the stored lock instead of resetting it
+		expect(read2?.protected).toBe(true);
+		expect(read2?.timestamp).toBe(locked?.timestamp);
+		expect(read2?.scroll).toBe(20);
 	});
 
 	it("settings toggle: enable/disable Lock Mode updates UI", async () => {
@@ -120,7 +120,7 @@ describe("Lock Mode – Unit", () => {
 	describe("TemporaryState backward compatibility", () => {
 		it("readFileState() fills defaults for protected/timestamp and persists them", async () => {
 			const filePath = "notes/backward.md";
-			const dbFilePath = plugin.getDbFilePath(filePath);
+			const dbFilePath = await plugin.getDbFilePath(filePath);
 
 			// Simulate legacy state without Lock Mode fields
 			const legacy = {
@@ -0,0 +1,198 @@
+/**
+ * Tests for re-associating states of notes moved while the plugin was not running
+ * Coverage: matching by lock timestamp, file name and similar name, ambiguous matches, adoption, validation report
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+
+describe("AntiEphemeralState Moved Notes", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let adapter: MockVaultAdapter;
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		const manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		plugin.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	// Save a state for a note, then move the note without the plugin noticing
+	const moveBehindPlugin = async (
+		from: string,
+		to: string,
+		state: object = { scroll: 40 }
+	) => {
+		if (!(await adapter.exists(from))) {
+			await adapter.write(from, "# Note");
+		}
+		await plugin.writeFileState(from, {
+			viewState: { type: "markdown", file: from } as never,
+			...state,
+		});
+		await adapter.rename(from, to);
+	};
+
+	const moves = async () =>
+		(await plugin.planValidation()).actions
+			.filter(a => a.problem === "moved-note")
+			.map(a => [a.path, a.target]);
+
+	describe("matching", () => {
+		it("should match a note moved to another folder by file name", async () => {
+			await moveBehindPlugin("Inbox/plan.md", "Projects/plan.md");
+
+			expect(await moves()).toEqual([
+				["Inbox/plan.md", "Projects/plan.md"],
+			]);
+		});
+
+		it("should prefer the note sharing the most folders", async () => {
+			await moveBehindPlugin("Old/Projects/x.md", "New/Projects/x.md");
+			await adapter.write("Other/x.md", "# Other");
+
+			expect(await moves()).toEqual([
+				["Old/Projects/x.md", "New/Projects/x.md"],
+			]);
+		});
+
+		it("should not guess between equally likely notes", async () => {
+			await moveBehindPlugin("Inbox/x.md", "A/x.md");
+			await adapter.write("B/x.md", "# Other");
+
+			expect(await moves()).toEqual([]);
+		});
+
+		it("should not match notes that already have a state", async () => {
+			await moveBehindPlugin("Inbox/plan.md", "Projects/plan.md");
+			await plugin.writeFileState("Projects/plan.md", { scroll: 1 });
+
+			expect(await moves()).toEqual([]);
+		});
+
+		it("should match a locked note by its modification time", async () => {
+			await adapter.write("Inbox/draft.md", "# Draft");
+			const { mtime } = (await adapter.stat("Inbox/draft.md"))!;
+			await plugin.delay(2);
+			await moveBehindPlugin("Inbox/draft.md", "Essays/Final essay.md", {
+				protected: true,
+				timestamp: mtime,
+			});
+			await plugin.delay(2);
+			await adapter.write("Essays/Unrelated.md", "# Other");
+
+			expect(await moves()).toEqual([
+				["Inbox/draft.md", "Essays/Final essay.md"],
+			]);
+		});
+
+		it("should match a similar name in the same folder", async () => {
+			await moveBehindPlugin(
+				"notes/Meeting Notes.md",
+				"notes/meeting-notes.md"
+			);
+
+			expect(await moves()).toEqual([
+				["notes/Meeting Notes.md", "notes/meeting-notes.md"],
+			]);
+		});
+
+		it("should leave a note wanted by several orphans unmatched", async () => {
+			await moveBehindPlugin("A/x.md", "C/x.md");
+			await plugin.writeFileState("B/x.md", {
+				viewState: { type: "markdown", file: "B/x.md" } as never,
+			});
+
+			expect(await moves()).toEqual([]);
+		});
+	});
+
+	describe("adoption", () => {
+		it("should carry the state over to the moved note", async () => {
+			await moveBehindPlugin("Inbox/plan.md", "Projects/plan.md", {
+				scroll: 40,
+				protected: true,
+				timestamp: 1,
+			});
+			const report = await plugin.planValidation();
+
+			const outcome = await plugin.applyValidation(report.actions);
+
+			expect(outcome).toMatchObject({ adopted: 1, removed: 0 });
+			expect(
+				await plugin.readFileState("Projects/plan.md")
+			).toMatchObject({
+				scroll: 40,
+				protected: true,
+				viewState: { file: "Projects/plan.md" },
+			});
+			expect(await plugin.getStateStore().list()).toEqual([
+				await plugin.getFileHash("Projects/plan.md"),
+			]);
+			expect(
+				adapter.getAllFiles().filter(f => f.includes(".quarantine"))
+			).toEqual([]);
+		});
+
+		it("should leave the state alone when the note came back", async () => {
+			await moveBehindPlugin("Inbox/plan.md", "Projects/plan.md");
+			const report = await plugin.planValidation();
+			await adapter.write("Inbox/plan.md", "# Back");
+
+			expect((await plugin.applyValidation(report.actions)).adopted).toBe(
+				0
+			);
+
+			expect((await plugin.readFileState("Inbox/plan.md"))?.scroll).toBe(
+				40
+			);
+			expect(await plugin.readFileState("Projects/plan.md")).toBeNull();
+		});
+
+		it("should re-associate moved notes during validation", async () => {
+			await moveBehindPlugin("Inbox/plan.md", "Projects/plan.md");
+			const debugSpy = jest.spyOn(console, "debug");
+
+			await plugin.validateDatabase();
+
+			expect(debugSpy).toHaveBeenCalledWith(
+				"[AES] Validation report",
+				expect.objectContaining({
+					adoptedMovedNote: 1,
+					removedMissingNote: 0,
+				})
+			);
+			expect(
+				(await plugin.readFileState("Projects/plan.md"))?.scroll
+			).toBe(40);
+		});
+	});
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for per-device cursor and scroll positions
+ * Coverage: device id, recording device positions, restore mode setting, shared view mode and lock fields
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+	TFile,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+
+describe("AntiEphemeralState Per-Device Positions", () => {
+	let app: App;
+	let manifest: MockManifest;
+	let adapter: MockVaultAdapter;
+	const notePath = "notes/shared.md";
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		jest.spyOn(app.workspace, "getActiveFile").mockReturnValue(
+			new TFile(notePath)
+		);
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	// A plugin instance running on the device with the given id, sharing the vault's database
+	const onDevice = async (deviceId: string) => {
+		const plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		await plugin.onload();
+		plugin.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+		jest.spyOn(app, "loadLocalStorage").mockReturnValueOnce(
+			deviceId as never
+		);
+		expect(plugin.getDeviceId()).toBe(deviceId);
+		plugin.lastLoadedFileName = notePath;
+		return plugin;
+	};
+
+	// Capture a position on the given device and write it through
+	const saveOn = async (plugin: AntiEphemeralState, scroll: number) => {
+		await plugin.saveTemporaryState({
+			scroll,
+			viewState: { type: "markdown", state: { mode: "source" } },
+		});
+		await plugin.saveQueue.flushAll();
+		// The write reaches the other devices through sync
+		app.vault.trigger("raw", await plugin.getDbFilePath(notePath));
+	};
+
+	it("should generate a device id once and keep it in local storage", () => {
+		const plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		const saveSpy = jest.spyOn(app, "saveLocalStorage");
+
+		const id = plugin.getDeviceId();
+
+		expect(id).toMatch(/^[0-9a-f]{16}$/);
+		expect(plugin.getDeviceId()).toBe(id);
+		expect(saveSpy).toHaveBeenCalledTimes(1);
+		expect(saveSpy).toHaveBeenCalledWith(
+			"anti-ephemeral-state-device-id",
+			id
+		);
+	});
+
+	it("should record each device's position next to the latest one", async () => {
+		const desktop = await onDevice("desktop");
+		const phone = await onDevice("phone");
+
+		await saveOn(desktop, 1200);
+		await saveOn(phone, 40);
+
+		const state = await phone.readFileState(notePath);
+		expect(state?.scroll).toBe(40);
+		expect(state?.devices).toEqual({
+			desktop: { scroll: 1200, updatedAt: expect.any(Number) },
+			phone: { scroll: 40, updatedAt: expect.any(Number) },
+		});
+	});
+
+	it("should restore this device's position by default", async () => {
+		const desktop = await onDevice("desktop");
+		const phone = await onDevice("phone");
+		await saveOn(desktop, 1200);
+		await saveOn(phone, 40);
+
+		const state = await desktop.readFileState(notePath);
+
+		expect(desktop.positionForDevice(state!).scroll).toBe(1200);
+	});
+
+	it("should restore the most recent position when configured", async () => {
+		const desktop = await onDevice("desktop");
+		const phone = await onDevice("phone");
+		await saveOn(desktop, 1200);
+		await saveOn(phone, 40);
+		desktop.settings.positionRestore = "latest";
+
+		const state = await desktop.readFileState(notePath);
+
+		expect(desktop.positionForDevice(state!).scroll).toBe(40);
+	});
+
+	it("should fall back to the latest position on a new device", async () => {
+		const desktop = await onDevice("desktop");
+		await saveOn(desktop, 1200);
+		const tablet = await onDevice("tablet");
+
+		const state = await tablet.readFileState(notePath);
+
+		expect(tablet.positionForDevice(state!).scroll).toBe(1200);
+	});
+
+	it("should share view mode and lock state between devices", async () => {
+		const desktop = await onDevice("desktop");
+		const phone = await onDevice("phone");
+		await saveOn(desktop, 1200);
+		await phone.lockManager!.toggleLockState(notePath);
+		app.vault.trigger("raw", await phone.getDbFilePath(notePath));
+
+		const state = desktop.positionForDevice(
+			(await desktop.readFileState(notePath))!
+		);
+
+		expect(state.protected).toBe(true);
+		expect(state.viewState?.state).toEqual({ mode: "source" });
+		expect(state.scroll).toBe(1200);
+	});
+
+	it("should restore this device's position when a note opens", async () => {
+		const desktop = await onDevice("desktop");
+		const phone = await onDevice("phone");
+		await saveOn(desktop, 1200);
+		await saveOn(phone, 40);
+		const setSpy = jest
+			.spyOn(desktop, "setTemporaryState")
+			.mockImplementation(() => {});
+		desktop.lastLoadedFileName = "";
+
+		await desktop.restoreTemporaryState();
+
+		expect(setSpy).toHaveBeenCalledWith(
+			expect.objectContaining({ scroll: 1200 })
+		);
+	});
+});
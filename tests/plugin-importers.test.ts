@@ -0,0 +1,187 @@
+/**
+ * Tests for importing positions saved by other plugins
+ * Coverage: remember-cursor-position format, import preview, conflicts, writes through writeFileState
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+
+describe("AntiEphemeralState Plugin Importers", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let adapter: MockVaultAdapter;
+
+	beforeEach(async () => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		const manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		plugin.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+		jest.spyOn(app, "loadLocalStorage").mockReturnValue("desktop" as never);
+		await adapter.write("notes/a.md", "# A");
+		await adapter.write("notes/b.md", "# B");
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	// cursor-positions.json as written by obsidian-remember-cursor-position
+	const cursorPositions = (db: Record<string, unknown>) => JSON.stringify(db);
+	const saved = (line: number, scroll: number) => ({
+		cursor: { from: { ch: 2, line }, to: { ch: 5, line } },
+		scroll,
+	});
+
+	describe("remember-cursor-position", () => {
+		it("should map cursor and scroll into note states", async () => {
+			const plan = await plugin.planImport(
+				"remember-cursor-position",
+				cursorPositions({ "notes/a.md": saved(7, 120.5) })
+			);
+
+			expect(plan.create.get("notes/a.md")).toEqual({
+				cursor: {
+					start: { col: 2, line: 7 },
+					end: { col: 5, line: 7 },
+				},
+				scroll: 120.5,
+			});
+		});
+
+		it("should skip unreadable entries and missing notes", async () => {
+			const plan = await plugin.planImport(
+				"remember-cursor-position",
+				cursorPositions({
+					"notes/a.md": { cursor: { from: { ch: -1 } } },
+					"notes/b.md": "nonsense",
+					"notes/gone.md": saved(1, 1),
+				})
+			);
+
+			expect(plan.skipped).toBe(3);
+			expect(plan.create.size).toBe(0);
+		});
+
+		it("should keep a readable scroll without a cursor", async () => {
+			const plan = await plugin.planImport(
+				"remember-cursor-position",
+				cursorPositions({ "notes/a.md": { scroll: 40 } })
+			);
+
+			expect(plan.create.get("notes/a.md")).toEqual({ scroll: 40 });
+		});
+
+		it("should reject data in another format", async () => {
+			await expect(
+				plugin.planImport("remember-cursor-position", "[1, 2]")
+			).rejects.toThrow(/cursor-positions/);
+		});
+	});
+
+	it("should reject unknown importers", async () => {
+		await expect(plugin.planImport("nope", "{}")).rejects.toThrow(
+			/Unknown importer/
+		);
+	});
+
+	describe("preview", () => {
+		it("should report conflicts with stored positions", async () => {
+			await plugin.writeFileState("notes/a.md", { scroll: 10 });
+			await plugin.writeFileState("notes/b.md", {
+				protected: true,
+				timestamp: 1,
+			});
+
+			const plan = await plugin.planImport(
+				"remember-cursor-position",
+				cursorPositions({
+					"notes/a.md": saved(1, 1),
+					"notes/b.md": saved(2, 2),
+				})
+			);
+
+			expect([...plan.conflict.keys()]).toEqual(["notes/a.md"]);
+			expect([...plan.create.keys()]).toEqual(["notes/b.md"]);
+		});
+
+		it("should not write anything", async () => {
+			await plugin.planImport(
+				"remember-cursor-position",
+				cursorPositions({ "notes/a.md": saved(1, 1) })
+			);
+
+			expect(await plugin.getStateStore().list()).toEqual([]);
+		});
+	});
+
+	describe("applyImport", () => {
+		const plan = async () => {
+			await plugin.writeFileState("notes/a.md", {
+				scroll: 10,
+				protected: true,
+				timestamp: 1,
+			});
+			return plugin.planImport(
+				"remember-cursor-position",
+				cursorPositions({
+					"notes/a.md": saved(1, 99),
+					"notes/b.md": saved(2, 50),
+				})
+			);
+		};
+
+		it("should write new positions as this device's own", async () => {
+			const writeSpy = jest.spyOn(plugin, "writeFileState");
+
+			expect(await plugin.applyImport(await plan(), false)).toBe(1);
+
+			expect(writeSpy).toHaveBeenCalledWith(
+				"notes/b.md",
+				expect.objectContaining({ scroll: 50 })
+			);
+			plugin.getStateCache().clear();
+			const state = await plugin.readFileState("notes/b.md");
+			expect(state?.scroll).toBe(50);
+			expect(state?.devices?.desktop?.scroll).toBe(50);
+		});
+
+		it("should keep stored positions unless told to replace them", async () => {
+			await plugin.applyImport(await plan(), false);
+
+			expect((await plugin.readFileState("notes/a.md"))?.scroll).toBe(10);
+		});
+
+		it("should replace conflicting positions and keep the lock", async () => {
+			expect(await plugin.applyImport(await plan(), true)).toBe(2);
+
+			expect(await plugin.readFileState("notes/a.md")).toMatchObject({
+				scroll: 99,
+				protected: true,
+				timestamp: 1,
+			});
+		});
+	});
+});
@@ -85,9 +85,9 @@ describe("AntiEphemeralState Plugin Lifecycle", () => {
 			// Verify database directory created
 			expect(await vault.adapter.exists(expectedDbDir)).toBe(true);
 
-			// Verify debounced save function initialized
-			expect(plugin.debouncedSave).toBeDefined();
-			expect(typeof plugin.debouncedSave).toBe("function");
+			// Verify save queue initialized
+			expect(plugin.saveQueue).toBeDefined();
+			expect(typeof plugin.saveQueue.schedule).toBe("function");
 
 			// Verify console logging
 			expect(consoleSpy).toHaveBeenCalledWith(
@@ -174,8 +174,8 @@ describe("AntiEphemeralState Plugin Lifecycle", () => {
 
 			await plugin.onload();
 
-			// Should register multiple events (file-open, rename, delete, editor-change, layout-change, active-leaf-change)
-			expect(registerEventSpy).toHaveBeenCalledTimes(6);
+			// Should register multiple events (file-open, rename, delete, raw, metadata changed, editor-change, layout-change, active-leaf-change, quit)
+			expect(registerEventSpy).toHaveBeenCalledTimes(9);
 
 			registerEventSpy.mockRestore();
 		});
@@ -194,12 +194,12 @@ describe("AntiEphemeralState Plugin Lifecycle", () => {
 			registerDomEventSpy.mockRestore();
 		});
 
-		it("should initialize debounced save function with correct delay", async () => {
+		it("should initialize the save queue", async () => {
 			await plugin.onload();
 
-			expect(plugin.debouncedSave).toBeDefined();
-			expect(typeof plugin.debouncedSave).toBe("function");
-			expect(typeof plugin.debouncedSave.cancel).toBe("function");
+			expect(plugin.saveQueue).toBeDefined();
+			expect(typeof plugin.saveQueue.schedule).toBe("function");
+			expect(typeof plugin.saveQueue.flushAll).toBe("function");
 		});
 
 		it("should call restoreTemporaryState during onload", async () => {
@@ -235,16 +235,14 @@ describe("AntiEphemeralState Plugin Lifecycle", () => {
 			await plugin.onload();
 		});
 
-		it("should cancel debounced save function", () => {
-			// Mock the cancel method
-			const cancelSpy = jest.fn();
-			plugin.debouncedSave = Object.assign(jest.fn(), {
-				cancel: cancelSpy,
-			});
+		it("should flush pending saves instead of dropping them", () => {
+			const flushSpy = jest
+				.spyOn(plugin.saveQueue, "flushAll")
+				.mockResolvedValue();
 
 			plugin.onunload();
 
-			expect(cancelSpy).toHaveBeenCalledTimes(1);
+			expect(flushSpy).toHaveBeenCalledTimes(1);
 		});
 
 		it("should reset scrollListenersAttached flag", () => {
@@ -272,22 +270,25 @@ describe("AntiEphemeralState Plugin Lifecycle", () => {
 			parentOnunloadSpy.mockRestore();
 		});
 
-		it("should handle missing debouncedSave gracefully", () => {
-			// Remove debouncedSave
-			delete (plugin as { debouncedSave?: unknown }).debouncedSave;
+		it("should handle missing saveQueue gracefully", () => {
+			// Remove saveQueue
+			delete (plugin as { saveQueue?: unknown }).saveQueue;
 
 			// Should not throw
 			expect(() => plugin.onunload()).not.toThrow();
 		});
 
-		it("should handle debouncedSave without cancel method", () => {
-			// Set debouncedSave without cancel method
-			plugin.debouncedSave = jest.fn() as typeof plugin.debouncedSave;
+		it("should write the pending state on unload", async () => {
+			const writeSpy = jest
+				.spyOn(plugin, "writeFileState")
+				.mockResolvedValue();
+			const state = { scroll: 12 };
+			plugin.saveQueue.schedule("pending.md", state);
 
-			// Should throw because the actual implementation expects cancel method
-			expect(() => plugin.onunload()).toThrow(
-				"this.debouncedSave.cancel is not a function"
-			);
+			plugin.onunload();
+			await plugin.saveQueue.flushAll();
+
+			expect(writeSpy).toHaveBeenCalledWith("pending.md", state);
 		});
 	});
 
@@ -307,7 +308,7 @@ describe("AntiEphemeralState Plugin Lifecycle", () => {
 			expect(plugin.DEFAULT_SETTINGS).toBeDefined();
 			expect(plugin.settings).toBeDefined();
 			expect(await vault.adapter.exists(dbDir)).toBe(true);
-			expect(plugin.debouncedSave).toBeDefined();
+			expect(plugin.saveQueue).toBeDefined();
 			expect(plugin.scrollListenersAttached).toBe(false); // Will be set to true when listeners attach
 
 			// Simulate some usage
@@ -492,13 +493,13 @@ describe("AntiEphemeralState Plugin Lifecycle", () => {
 		});
 	});
 
-	describe("Debounced save initialization", () => {
-		it("should initialize debounced save with correct parameters", async () => {
+	describe("Save queue initialization", () => {
+		it("should initialize the save queue with flush support", async () => {
 			await plugin.onload();
 
-			expect(plugin.debouncedSave).toBeDefined();
-			expect(typeof plugin.debouncedSave).toBe("function");
-			expect(typeof plugin.debouncedSave.cancel).toBe("function");
+			expect(plugin.saveQueue).toBeDefined();
+			expect(typeof plugin.saveQueue.schedule).toBe("function");
+			expect(typeof plugin.saveQueue.flush).toBe("function");
 		});
 
 		it("should use debounced save for state persistence", async () => {
@@ -512,14 +513,14 @@ describe("AntiEphemeralState Plugin Lifecycle", () => {
 				.spyOn(plugin, "writeFileState")
 				.mockResolvedValue();
 
-			// Call debounced save
+			// Queue a save
 			const testState = {
 				cursor: {
 					start: { col: 0, line: 0 },
 					end: { col: 0, line: 0 },
 				},
 			};
-			plugin.debouncedSave("test.md", testState);
+			plugin.saveQueue.schedule("test.md", testState);
 
 			// Should not call immediately (debounced)
 			expect(writeStateSpy).not.toHaveBeenCalled();
@@ -0,0 +1,252 @@
+/**
+ * Tests for keeping stored positions within the current note content
+ * Coverage: clamping at restore time, dry-run detection, clamping and dropping during validation, per-device positions
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	Editor,
+	MarkdownView,
+	MockVaultAdapter,
+	TFile,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+// Three lines of 5, 2 and 9 characters
+const NOTE = "# One\nab\nlast line";
+
+describe("AntiEphemeralState Position Bounds", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let adapter: MockVaultAdapter;
+	const notePath = "notes/short.md";
+
+	beforeEach(async () => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		const manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		plugin.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+		await adapter.write(notePath, NOTE);
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	const storeState = (state: object, path = notePath) =>
+		plugin.writeFileState(path, {
+			viewState: { type: "markdown", file: path } as never,
+			...state,
+		});
+
+	const positionActions = async () =>
+		(await plugin.planValidation()).actions.filter(
+			a => a.problem === "position"
+		);
+
+	describe("restore", () => {
+		let editor: Editor;
+		let view: MarkdownView;
+
+		beforeEach(() => {
+			view = new MarkdownView(new TFile(notePath));
+			editor = view.editor;
+			editor.setValue(NOTE);
+			jest.spyOn(app.workspace, "getActiveViewOfType").mockReturnValue(
+				view
+			);
+		});
+
+		it("should move a cursor past the end to the end of the note", async () => {
+			const selectionSpy = jest.spyOn(editor, "setSelection");
+
+			plugin.setTemporaryState({
+				cursor: {
+					start: { col: 40, line: 1 },
+					end: { col: 3, line: 8 },
+				},
+			});
+			await plugin.delay(10);
+
+			expect(selectionSpy).toHaveBeenCalledWith(
+				{ ch: 2, line: 1 },
+				{ ch: 9, line: 2 }
+			);
+		});
+
+		it("should not apply a malformed cursor", async () => {
+			const selectionSpy = jest.spyOn(editor, "setSelection");
+
+			plugin.setTemporaryState({
+				cursor: {
+					start: { col: 1.5, line: 0 },
+					end: { col: 0, line: 0 },
+				},
+			});
+			await plugin.delay(10);
+
+			expect(selectionSpy).not.toHaveBeenCalled();
+		});
+
+		it("should keep the scroll position within the note", async () => {
+			const stateSpy = jest
+				.spyOn(view, "setEphemeralState")
+				.mockImplementation(() => {});
+			jest.spyOn(window, "requestAnimationFrame").mockImplementation(
+				callback => {
+					callback(0);
+					return 0;
+				}
+			);
+
+			plugin.setTemporaryState({ scroll: 120 });
+			await plugin.delay(10);
+
+			expect(stateSpy).toHaveBeenCalledWith({ scroll: 2 });
+		});
+	});
+
+	describe("planValidation", () => {
+		it("should report how many positions are outside the note", async () => {
+			await storeState({
+				cursor: {
+					start: { col: 0, line: 0 },
+					end: { col: 7, line: 1 },
+				},
+				scroll: 50,
+			});
+
+			expect(await positionActions()).toEqual([
+				expect.objectContaining({
+					kind: "fix",
+					path: notePath,
+					detail: "Positions outside the note: 2",
+				}),
+			]);
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(50);
+		});
+
+		it("should accept positions within the note", async () => {
+			await storeState({
+				cursor: {
+					start: { col: 5, line: 0 },
+					end: { col: 9, line: 2 },
+				},
+				scroll: 2,
+			});
+
+			expect(await positionActions()).toEqual([]);
+		});
+
+		it("should not check notes other than markdown", async () => {
+			await adapter.write("board.canvas", "{}");
+			await storeState({ scroll: 50 }, "board.canvas");
+
+			expect(await positionActions()).toEqual([]);
+		});
+	});
+
+	describe("applyValidation", () => {
+		it("should clamp positions to the note", async () => {
+			await storeState({
+				cursor: {
+					start: { col: 4, line: 1 },
+					end: { col: 0, line: 9 },
+				},
+				scroll: 50,
+			});
+			const report = await plugin.planValidation();
+
+			expect((await plugin.applyValidation(report.actions)).clamped).toBe(
+				2
+			);
+
+			expect(await plugin.readFileState(notePath)).toMatchObject({
+				cursor: {
+					start: { col: 2, line: 1 },
+					end: { col: 9, line: 2 },
+				},
+				scroll: 2,
+			});
+		});
+
+		it("should drop malformed positions", async () => {
+			await storeState({
+				cursor: { start: { col: -1, line: 0 } },
+				scroll: 1,
+			});
+			const report = await plugin.planValidation();
+
+			await plugin.applyValidation(report.actions);
+
+			const state = await plugin.readFileState(notePath);
+			expect(state).not.toHaveProperty("cursor");
+			expect(state?.scroll).toBe(1);
+		});
+
+		it("should clamp positions of every device", async () => {
+			await storeState({
+				scroll: 1,
+				devices: {
+					laptop: { scroll: 30, updatedAt: 1 },
+					phone: { scroll: 2, updatedAt: 2 },
+				},
+			});
+			const report = await plugin.planValidation();
+
+			expect((await plugin.applyValidation(report.actions)).clamped).toBe(
+				1
+			);
+
+			const state = await plugin.readFileState(notePath);
+			expect(state?.devices).toEqual({
+				laptop: { scroll: 2, updatedAt: 1 },
+				phone: { scroll: 2, updatedAt: 2 },
+			});
+		});
+
+		it("should check against the note as it is when applied", async () => {
+			await storeState({ scroll: 5 });
+			const report = await plugin.planValidation();
+			await adapter.write(notePath, NOTE + "\n".repeat(10));
+
+			expect((await plugin.applyValidation(report.actions)).clamped).toBe(
+				0
+			);
+
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(5);
+		});
+	});
+
+	it("should report clamped positions after validation", async () => {
+		await storeState({ scroll: 50 });
+		const debugSpy = jest.spyOn(console, "debug");
+
+		await plugin.validateDatabase();
+
+		expect(debugSpy).toHaveBeenCalledWith(
+			"[AES] Validation report",
+			expect.objectContaining({ clampedPositions: 1 })
+		);
+		expect((await plugin.readFileState(notePath))?.scroll).toBe(2);
+	});
+});
@@ -0,0 +1,244 @@
+/**
+ * Tests for the quarantine of entries removed by validation
+ * Coverage: quarantine with reason files, device-local backends, restore with re-validation, encrypted entries, purge by age
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+const QUARANTINE = `${DB_DIR}/.quarantine`;
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("AntiEphemeralState Quarantine", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let adapter: MockVaultAdapter;
+	const notePath = "notes/hidden by sync.md";
+
+	beforeEach(async () => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		const manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		plugin.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+		await adapter.write(notePath, "# Note");
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	const quarantined = () =>
+		adapter.getAllFiles().filter(f => f.startsWith(QUARANTINE + "/"));
+
+	// Lock the note, then let sync hide it while validation runs
+	const quarantineLockedNote = async () => {
+		await plugin.writeFileState(notePath, {
+			scroll: 40,
+			protected: true,
+			timestamp: 123,
+		});
+		await adapter.remove(notePath);
+		await plugin.validateDatabase();
+	};
+
+	describe("validation", () => {
+		it("should move entries of missing notes to quarantine", async () => {
+			await quarantineLockedNote();
+
+			expect(await plugin.getStateStore().list()).toEqual([]);
+			const key = await plugin.getFileHash(notePath);
+			const files = quarantined();
+			expect(files).toHaveLength(2);
+			expect(files).toEqual(
+				expect.arrayContaining([
+					expect.stringMatching(
+						new RegExp(`/\\d{4}-\\d{2}-\\d{2}/${key}\\.json$`)
+					),
+				])
+			);
+			const reason = files.find(f => f.endsWith(".reason.json"))!;
+			expect(JSON.parse(await adapter.read(reason))).toMatchObject({
+				key,
+				reasons: [{ path: notePath, problem: "missing-note" }],
+			});
+		});
+
+		it("should move unreadable entries to quarantine unchanged", async () => {
+			await adapter.write(`${DB_DIR}/broken.json`, "{truncated");
+
+			await plugin.validateDatabase();
+
+			const data = quarantined().find(f => f.endsWith("/broken.json"))!;
+			expect(await adapter.read(data)).toBe("{truncated");
+		});
+
+		it("should keep both copies of a key quarantined twice", async () => {
+			await quarantineLockedNote();
+			await adapter.write(notePath, "# Note");
+			await quarantineLockedNote();
+
+			expect(quarantined()).toHaveLength(4);
+		});
+
+		it("should not write device-local states into the vault", async () => {
+			plugin.settings.storageBackend = "memory";
+			await quarantineLockedNote();
+			await plugin.getStateStore().put("broken", "{truncated");
+
+			await plugin.validateDatabase();
+
+			expect(await plugin.getStateStore().list()).toEqual([]);
+			expect(quarantined()).toEqual([]);
+			expect(plugin.hasQuarantine()).toBe(false);
+		});
+
+		it("should not treat quarantine changes as database changes", () => {
+			const cache = plugin.getStateCache();
+			const clearSpy = jest.spyOn(cache, "clear");
+			const checkSpy = jest
+				.spyOn(plugin, "requestRemoteCheck")
+				.mockImplementation(() => {});
+
+			plugin.onDatabaseChange(`${QUARANTINE}/2026-01-01/broken.json`);
+
+			expect(clearSpy).not.toHaveBeenCalled();
+			expect(checkSpy).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("restoreQuarantine", () => {
+		it("should restore entries whose note came back", async () => {
+			await quarantineLockedNote();
+			await adapter.write(notePath, "# Note");
+
+			expect(await plugin.restoreQuarantine()).toEqual({
+				restored: 1,
+				kept: 0,
+			});
+
+			expect(await plugin.readFileState(notePath)).toMatchObject({
+				scroll: 40,
+				protected: true,
+				timestamp: 123,
+			});
+			expect(quarantined()).toEqual([]);
+			expect((await adapter.list(QUARANTINE)).folders).toEqual([]);
+		});
+
+		it("should keep entries that still fail validation", async () => {
+			await quarantineLockedNote();
+			await adapter.write(`${DB_DIR}/broken.json`, "{truncated");
+			await plugin.validateDatabase();
+			const files = quarantined();
+
+			expect(await plugin.restoreQuarantine()).toEqual({
+				restored: 0,
+				kept: 2,
+			});
+
+			expect(quarantined()).toEqual(files);
+			expect(await plugin.getStateStore().list()).toEqual([]);
+		});
+
+		it("should keep a newer state the note got meanwhile", async () => {
+			await quarantineLockedNote();
+			await adapter.write(notePath, "# Note");
+			await plugin.delay(2);
+			await plugin.writeFileState(notePath, { scroll: 80 });
+
+			await plugin.restoreQuarantine();
+
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(80);
+		});
+
+		it("should keep quarantined entries and their reasons encrypted", async () => {
+			await plugin.writeFileState(notePath, { scroll: 40 });
+			await plugin.encryptDatabase("correct horse");
+			await adapter.remove(notePath);
+			await plugin.validateDatabase();
+
+			expect(quarantined()).toHaveLength(2);
+			for (const file of quarantined()) {
+				const sealed = await adapter.read(file);
+				expect(sealed).not.toContain("hidden by sync");
+				expect(JSON.parse(sealed)).toMatchObject({
+					encrypted: "AES-GCM",
+				});
+			}
+			const reason = quarantined().find(f => f.endsWith(".reason.json"))!;
+			const store = plugin.getStateStore() as unknown as {
+				decode(data: string): Promise<string>;
+			};
+			expect(
+				JSON.parse(await store.decode(await adapter.read(reason)))
+			).toMatchObject({
+				reasons: [{ path: notePath, problem: "missing-note" }],
+			});
+
+			await adapter.write(notePath, "# Note");
+			expect((await plugin.restoreQuarantine()).restored).toBe(1);
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(40);
+			expect(quarantined()).toEqual([]);
+		});
+	});
+
+	describe("purgeQuarantine", () => {
+		const quarantineOn = async (daysAgo: number) => {
+			const day = new Date(Date.now() - daysAgo * DAY)
+				.toISOString()
+				.slice(0, 10);
+			await adapter.mkdir(`${QUARANTINE}/${day}`);
+			await adapter.write(`${QUARANTINE}/${day}/key.json`, "{}");
+			return `${QUARANTINE}/${day}`;
+		};
+
+		it("should remove quarantine folders older than the configured age", async () => {
+			plugin.settings.quarantineDays = 7;
+			const old = await quarantineOn(10);
+			const recent = await quarantineOn(2);
+
+			expect(await plugin.purgeQuarantine()).toBe(1);
+
+			expect(await adapter.exists(old)).toBe(false);
+			expect(await adapter.exists(`${old}/key.json`)).toBe(false);
+			expect(await adapter.exists(`${recent}/key.json`)).toBe(true);
+		});
+
+		it("should purge after 30 days by default", async () => {
+			await quarantineOn(20);
+			await quarantineOn(40);
+
+			expect(await plugin.purgeQuarantine()).toBe(1);
+		});
+
+		it("should keep everything when set to 0", async () => {
+			plugin.settings.quarantineDays = 0;
+			await quarantineOn(400);
+
+			expect(await plugin.purgeQuarantine()).toBe(0);
+			expect(quarantined()).toHaveLength(1);
+		});
+	});
+});
@@ -0,0 +1,261 @@
+/**
+ * Tests for following state changes made on other devices while a note is open
+ * Coverage: checkRemoteChange policies, lock icon refresh, pending save rebase, polling, raw event debounce
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import * as obsidian from "obsidian";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+	TFile,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+
+describe("AntiEphemeralState Remote Changes", () => {
+	let app: App;
+	let manifest: MockManifest;
+	let adapter: MockVaultAdapter;
+	let plugins: AntiEphemeralState[];
+	let notices: string[];
+	const notePath = "notes/live.md";
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugins = [];
+		jest.spyOn(app.workspace, "getActiveFile").mockReturnValue(
+			new TFile(notePath)
+		);
+		notices = [];
+		jest.spyOn(obsidian, "Notice").mockImplementation(((
+			message: unknown
+		) => {
+			notices.push(
+				typeof message === "string"
+					? message
+					: ((message as DocumentFragment).textContent ?? "")
+			);
+			return { hide: jest.fn() };
+		}) as never);
+	});
+
+	afterEach(() => {
+		plugins.forEach(p => p.onunload());
+		adapter.reset();
+		jest.useRealTimers();
+		jest.restoreAllMocks();
+	});
+
+	// A plugin instance running on the device with the given id, sharing the vault's database
+	const onDevice = async (deviceId: string) => {
+		const plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		plugins.push(plugin);
+		await plugin.onload();
+		plugin.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+		jest.spyOn(app, "loadLocalStorage").mockReturnValueOnce(
+			deviceId as never
+		);
+		plugin.getDeviceId();
+		jest.spyOn(plugin, "setTemporaryState").mockImplementation(() => {});
+		return plugin;
+	};
+
+	// Open the note on a device: restore its state as a file-open would
+	const openOn = async (plugin: AntiEphemeralState) => {
+		plugin.lastLoadedFileName = "";
+		await plugin.restoreTemporaryState();
+	};
+
+	// Save a position on a device and let sync deliver the write
+	const saveOn = async (plugin: AntiEphemeralState, scroll: number) => {
+		// Keep device timestamps apart
+		await plugin.delay(2);
+		plugin.lastLoadedFileName = notePath;
+		await plugin.saveTemporaryState({ scroll });
+		await plugin.saveQueue.flushAll();
+		app.vault.trigger("raw", await plugin.getDbFilePath(notePath));
+	};
+
+	const setup = async () => {
+		const desktop = await onDevice("desktop");
+		const phone = await onDevice("phone");
+		await saveOn(desktop, 1200);
+		await openOn(desktop);
+		notices = [];
+		return { desktop, phone };
+	};
+
+	describe("position changes", () => {
+		it("should notify about a position changed on another device", async () => {
+			const { desktop, phone } = await setup();
+
+			await saveOn(phone, 40);
+			await desktop.checkRemoteChange();
+
+			expect(notices).toEqual([
+				"This note's position was changed on another device.Jump to position",
+			]);
+			expect(desktop.setTemporaryState).not.toHaveBeenCalledWith(
+				expect.objectContaining({ scroll: 40 })
+			);
+		});
+
+		it("should follow the other device when configured", async () => {
+			const { desktop, phone } = await setup();
+			desktop.settings.remoteChangePolicy = "follow";
+			desktop.saveQueue.schedule(notePath, { scroll: 1300 });
+
+			await saveOn(phone, 40);
+			await desktop.checkRemoteChange();
+
+			expect(desktop.setTemporaryState).toHaveBeenCalledWith({
+				cursor: undefined,
+				scroll: 40,
+			});
+			expect(desktop.lastTemporaryState?.scroll).toBe(40);
+			expect(desktop.saveQueue.hasPending(notePath)).toBe(false);
+		});
+
+		it("should do nothing when ignoring remote changes", async () => {
+			const { desktop, phone } = await setup();
+			desktop.settings.remoteChangePolicy = "ignore";
+
+			await saveOn(phone, 40);
+			await desktop.checkRemoteChange();
+
+			expect(notices).toEqual([]);
+		});
+
+		it("should handle each remote change once", async () => {
+			const { desktop, phone } = await setup();
+
+			await saveOn(phone, 40);
+			await desktop.checkRemoteChange();
+			await desktop.checkRemoteChange();
+
+			expect(notices).toHaveLength(1);
+		});
+
+		it("should not react to this device's own writes", async () => {
+			const { desktop } = await setup();
+
+			await saveOn(desktop, 1300);
+			await desktop.checkRemoteChange();
+
+			expect(notices).toEqual([]);
+		});
+	});
+
+	describe("lock changes", () => {
+		it("should refresh the lock icon in every policy", async () => {
+			const { desktop, phone } = await setup();
+			desktop.settings.remoteChangePolicy = "ignore";
+			const iconSpy = jest.spyOn(
+				desktop.getLockStatusBar()!,
+				"updateIcon"
+			);
+
+			await phone.lockManager!.toggleLockState(notePath);
+			app.vault.trigger("raw", await phone.getDbFilePath(notePath));
+			await desktop.checkRemoteChange();
+
+			expect(iconSpy).toHaveBeenCalledWith("locked");
+			expect(desktop.lastTemporaryState?.protected).toBe(true);
+		});
+
+		it("should keep remote changes when a local save is pending", async () => {
+			const { desktop, phone } = await setup();
+			desktop.lastLoadedFileName = notePath;
+			await desktop.saveTemporaryState({ scroll: 1300 });
+
+			await phone.lockManager!.toggleLockState(notePath);
+			await saveOn(phone, 40);
+			await desktop.checkRemoteChange();
+			await desktop.saveQueue.flushAll();
+			desktop.getStateCache().clear();
+
+			// The phone's later scroll wins over the older pending one
+			const stored = await desktop.readFileState(notePath);
+			expect(stored?.scroll).toBe(40);
+			expect(stored?.protected).toBe(true);
+			expect(Object.keys(stored?.devices ?? {}).sort()).toEqual([
+				"desktop",
+				"phone",
+			]);
+		});
+	});
+
+	describe("change detection", () => {
+		it("should poll the open note's database file for changes", async () => {
+			const { desktop, phone } = await setup();
+			const changeSpy = jest.spyOn(desktop, "onDatabaseChange");
+
+			await desktop.pollDatabase();
+			await desktop.delay(5);
+			await saveOn(phone, 40);
+			changeSpy.mockClear();
+			await desktop.pollDatabase();
+
+			expect(changeSpy).toHaveBeenCalledWith(
+				await desktop.getDbFilePath(notePath)
+			);
+		});
+
+		it("should only poll where raw vault events are missing", async () => {
+			// Intervals registered by a freshly loaded plugin on the current platform
+			const intervalsOnLoad = async (isMobile: boolean) => {
+				Object.assign(obsidian.Platform, { isMobile });
+				try {
+					const plugin = new (AntiEphemeralState as AESCtor)(
+						app,
+						manifest
+					);
+					plugins.push(plugin);
+					const intervalSpy = jest.spyOn(plugin, "registerInterval");
+					await plugin.onload();
+					return intervalSpy.mock.calls.length;
+				} finally {
+					Object.assign(obsidian.Platform, { isMobile: false });
+				}
+			};
+
+			expect(await intervalsOnLoad(false)).toBe(0);
+			expect(await intervalsOnLoad(true)).toBe(1);
+		});
+
+		it("should check once after a burst of database events", async () => {
+			const { desktop } = await setup();
+			const checkSpy = jest
+				.spyOn(desktop, "checkRemoteChange")
+				.mockResolvedValue();
+			const dbPath = await desktop.getDbFilePath(notePath);
+			jest.useFakeTimers();
+
+			desktop.onDatabaseChange(`${dbPath}.tmp`);
+			desktop.onDatabaseChange(`${dbPath}.bak`);
+			desktop.onDatabaseChange(dbPath);
+			jest.advanceTimersByTime(300);
+
+			expect(checkSpy).toHaveBeenCalledTimes(1);
+		});
+	});
+});
@@ -0,0 +1,283 @@
+/**
+ * Tests for the retention policy and stale state collection
+ * Coverage: last-open stamps, position retention, entry cap, locked notes, startup throttling, batching
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import * as obsidian from "obsidian";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("AntiEphemeralState Retention", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let adapter: MockVaultAdapter;
+	let notices: string[];
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		const manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		plugin.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+		notices = [];
+		jest.spyOn(obsidian, "Notice").mockImplementation(((
+			message: string
+		) => {
+			notices.push(message);
+			return { hide: jest.fn() };
+		}) as never);
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	// Store an entry last used the given number of days ago
+	const storeEntry = async (
+		path: string,
+		daysAgo: number,
+		fields: Record<string, unknown> = {}
+	) => {
+		await plugin.getStateStore().put(
+			await plugin.getFileHash(path),
+			JSON.stringify({
+				path,
+				schemaVersion: 2,
+				scroll: 10,
+				cursor: {
+					start: { col: 0, line: 3 },
+					end: { col: 0, line: 3 },
+				},
+				viewState: { type: "markdown", mode: "preview", file: path },
+				protected: false,
+				timestamp: null,
+				updatedAt: Date.now() - daysAgo * DAY,
+				...fields,
+			})
+		);
+	};
+
+	const rawEntry = async (path: string) => {
+		const raw = await plugin
+			.getStateStore()
+			.get(await plugin.getFileHash(path));
+		return raw === null ? null : JSON.parse(raw);
+	};
+
+	describe("recordOpen", () => {
+		it("should stamp when a note was opened", async () => {
+			await storeEntry("a.md", 10);
+
+			await plugin.recordOpen("a.md");
+
+			expect((await rawEntry("a.md")).openedAt).toBeGreaterThan(
+				Date.now() - 1000
+			);
+			expect(await plugin.readFileState("a.md")).not.toHaveProperty(
+				"openedAt"
+			);
+		});
+
+		it("should not write for notes used recently", async () => {
+			await storeEntry("a.md", 10);
+			await plugin.recordOpen("a.md");
+			const putSpy = jest.spyOn(plugin.getStateStore(), "put");
+
+			await plugin.recordOpen("a.md");
+			await storeEntry("b.md", 0);
+			putSpy.mockClear();
+			await plugin.recordOpen("b.md");
+
+			expect(putSpy).not.toHaveBeenCalled();
+		});
+
+		it("should not create states for notes without one", async () => {
+			await plugin.recordOpen("a.md");
+
+			expect(await plugin.getStateStore().list()).toEqual([]);
+		});
+
+		it("should keep the stamp when the state is saved", async () => {
+			await storeEntry("a.md", 10);
+			await plugin.recordOpen("a.md");
+			const { openedAt } = await rawEntry("a.md");
+
+			await plugin.writeFileState("a.md", { scroll: 20 });
+
+			expect((await rawEntry("a.md")).openedAt).toBe(openedAt);
+		});
+	});
+
+	describe("collectStaleStates", () => {
+		it("should do nothing without retention settings", async () => {
+			await storeEntry("a.md", 1000);
+
+			expect(await plugin.collectStaleStates()).toEqual({
+				examined: 0,
+				trimmed: 0,
+				removed: 0,
+			});
+			expect((await rawEntry("a.md")).scroll).toBe(10);
+		});
+
+		it("should drop positions of notes not opened within the retention period", async () => {
+			plugin.settings.retentionDays = 30;
+			await storeEntry("old.md", 40, {
+				devices: { phone: { scroll: 5, updatedAt: 1 } },
+				fieldUpdatedAt: { scroll: 1, cursor: 1, viewState: 1 },
+			});
+			await storeEntry("recent.md", 5);
+			await storeEntry("reopened.md", 40, {
+				openedAt: Date.now() - 2 * DAY,
+			});
+
+			expect(await plugin.collectStaleStates()).toEqual({
+				examined: 3,
+				trimmed: 1,
+				removed: 0,
+			});
+
+			const old = await rawEntry("old.md");
+			expect(old).not.toHaveProperty("scroll");
+			expect(old).not.toHaveProperty("cursor");
+			expect(old).not.toHaveProperty("devices");
+			expect(old.fieldUpdatedAt).toEqual({ viewState: 1 });
+			expect(old.viewState.mode).toBe("preview");
+			expect((await rawEntry("recent.md")).scroll).toBe(10);
+			expect((await rawEntry("reopened.md")).scroll).toBe(10);
+		});
+
+		it("should forget the least recently used states above the cap", async () => {
+			plugin.settings.maxEntries = 2;
+			await storeEntry("a.md", 3);
+			await storeEntry("b.md", 1);
+			await storeEntry("c.md", 2);
+			await storeEntry("d.md", 10, { openedAt: Date.now() });
+
+			expect((await plugin.collectStaleStates()).removed).toBe(2);
+
+			expect(await rawEntry("a.md")).toBeNull();
+			expect(await rawEntry("c.md")).toBeNull();
+			expect(await rawEntry("b.md")).not.toBeNull();
+			expect(await rawEntry("d.md")).not.toBeNull();
+		});
+
+		it("should never collect locked notes", async () => {
+			plugin.settings.retentionDays = 1;
+			plugin.settings.maxEntries = 1;
+			await storeEntry("locked.md", 100, {
+				protected: true,
+				timestamp: 1,
+			});
+			await storeEntry("old-locked.md", 200, {
+				protected: true,
+				timestamp: 1,
+			});
+			await storeEntry("open.md", 50);
+
+			expect(await plugin.collectStaleStates()).toMatchObject({
+				trimmed: 1,
+				removed: 1,
+			});
+
+			expect((await rawEntry("locked.md")).scroll).toBe(10);
+			expect((await rawEntry("old-locked.md")).scroll).toBe(10);
+			expect(await rawEntry("open.md")).toBeNull();
+		});
+
+		it("should leave the open note alone", async () => {
+			plugin.settings.retentionDays = 1;
+			plugin.lastLoadedFileName = "open.md";
+			await storeEntry("open.md", 50);
+
+			await plugin.collectStaleStates();
+
+			expect((await rawEntry("open.md")).scroll).toBe(10);
+		});
+
+		it("should drop cached states it changed", async () => {
+			plugin.settings.retentionDays = 1;
+			await storeEntry("old.md", 50);
+			expect((await plugin.readFileState("old.md"))?.scroll).toBe(10);
+
+			await plugin.collectStaleStates();
+
+			expect(await plugin.readFileState("old.md")).not.toHaveProperty(
+				"scroll"
+			);
+		});
+
+		it("should pause between batches", async () => {
+			plugin.settings.maxEntries = 1000;
+			for (let i = 0; i < 120; i++) {
+				await plugin.getStateStore().put(`key-${i}`, "{}");
+			}
+			const delaySpy = jest
+				.spyOn(plugin, "delay")
+				.mockResolvedValue(undefined);
+
+			await plugin.collectStaleStates();
+
+			expect(delaySpy).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("runStaleStateCollection", () => {
+		it("should stay quiet on startup when nothing was collected", async () => {
+			plugin.settings.retentionDays = 30;
+			await storeEntry("a.md", 1);
+
+			await plugin.runStaleStateCollection(true);
+
+			expect(notices).toEqual([]);
+		});
+
+		it("should report what startup collected", async () => {
+			plugin.settings.retentionDays = 30;
+			await storeEntry("a.md", 40);
+
+			await plugin.runStaleStateCollection(true);
+
+			expect(notices).toEqual([
+				"[AES] Stale states collected. Checked: 1, positions dropped: 1, removed: 0",
+			]);
+		});
+
+		it("should run on startup at most once a day", async () => {
+			plugin.settings.retentionDays = 30;
+			jest.spyOn(app, "loadLocalStorage").mockReturnValue(
+				(Date.now() - DAY / 2) as never
+			);
+			const collectSpy = jest.spyOn(plugin, "collectStaleStates");
+
+			await plugin.runStaleStateCollection(true);
+			await plugin.runStaleStateCollection();
+
+			expect(collectSpy).toHaveBeenCalledTimes(1);
+			expect(notices).toHaveLength(1);
+		});
+	});
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for the per-note save queue
+ * Coverage: SaveQueue coalescing, flush on note switch, unload and window close
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVault,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+describe("AntiEphemeralState Save Queue", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let manifest: MockManifest;
+	let mockVault: MockVault;
+	let writeSpy: jest.SpiedFunction<AntiEphemeralState["writeFileState"]>;
+
+	beforeEach(async () => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		mockVault = app.vault;
+
+		await plugin.onload();
+		plugin.settings.lockModeEnabled = false;
+		writeSpy = jest.spyOn(plugin, "writeFileState").mockResolvedValue();
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+		jest.restoreAllMocks();
+		(mockVault.adapter as MockVaultAdapter).reset();
+	});
+
+	it("should coalesce rapid saves of one note into the latest state", () => {
+		plugin.saveQueue.schedule("a.md", { scroll: 1 });
+		plugin.saveQueue.schedule("a.md", { scroll: 2 });
+		plugin.saveQueue.schedule("a.md", { scroll: 3 });
+
+		jest.advanceTimersByTime(500);
+
+		expect(writeSpy).toHaveBeenCalledTimes(1);
+		expect(writeSpy).toHaveBeenCalledWith("a.md", { scroll: 3 });
+		expect(plugin.saveQueue.hasPending()).toBe(false);
+	});
+
+	it("should write the outgoing note when another note is opened", () => {
+		plugin.saveQueue.schedule("a.md", { scroll: 1 });
+
+		app.workspace.trigger("file-open", TestUtils.createMockFile("b.md"));
+
+		expect(writeSpy).toHaveBeenCalledWith("a.md", { scroll: 1 });
+	});
+
+	it("should keep the pending save of the note being opened", () => {
+		plugin.saveQueue.schedule("b.md", { scroll: 1 });
+
+		app.workspace.trigger("file-open", TestUtils.createMockFile("b.md"));
+
+		expect(writeSpy).not.toHaveBeenCalled();
+		expect(plugin.saveQueue.hasPending("b.md")).toBe(true);
+	});
+
+	it("should write the outgoing note on active leaf change", () => {
+		jest.spyOn(app.workspace, "getActiveFile").mockReturnValue(
+			TestUtils.createMockFile("b.md")
+		);
+		plugin.saveQueue.schedule("a.md", { scroll: 1 });
+
+		plugin.onActiveLeafChange();
+
+		expect(writeSpy).toHaveBeenCalledWith("a.md", { scroll: 1 });
+	});
+
+	it("should wait for in-progress writes when flushing everything", async () => {
+		let finishWrite: () => void = () => {};
+		writeSpy.mockImplementation(
+			() =>
+				new Promise<void>(resolve => {
+					finishWrite = resolve;
+				})
+		);
+		plugin.saveQueue.schedule("a.md", { scroll: 1 });
+		jest.advanceTimersByTime(500);
+
+		let flushed = false;
+		const flushing = plugin.saveQueue.flushAll().then(() => {
+			flushed = true;
+		});
+		await Promise.resolve();
+		expect(flushed).toBe(false);
+
+		finishWrite();
+		await flushing;
+		expect(flushed).toBe(true);
+	});
+
+	it("should register a quit task that writes pending saves", async () => {
+		const tasks: Array<() => Promise<unknown>> = [];
+		plugin.saveQueue.schedule("a.md", { scroll: 1 });
+
+		app.workspace.trigger("quit", {
+			add: (task: () => Promise<unknown>) => tasks.push(task),
+		});
+		expect(tasks).toHaveLength(1);
+		await tasks[0]!();
+
+		expect(writeSpy).toHaveBeenCalledWith("a.md", { scroll: 1 });
+	});
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for the versioned entry schema
+ * Coverage: migration on read and in validateDatabase, entries written by newer plugin versions
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVault,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+	TFile,
+	TAbstractFile,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+describe("AntiEphemeralState Schema Migration", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let manifest: MockManifest;
+	let mockVault: MockVault;
+	let adapter: MockVaultAdapter;
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		mockVault = app.vault;
+		adapter = mockVault.adapter as MockVaultAdapter;
+
+		plugin.DEFAULT_SETTINGS = {
+			dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
+			lockModeEnabled: true,
+		};
+		plugin.settings = { ...plugin.DEFAULT_SETTINGS };
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	const writeRaw = async (notePath: string, entry: object) => {
+		const dbPath = await plugin.getDbFilePath(notePath);
+		const raw = JSON.stringify(entry);
+		await adapter.write(dbPath, raw);
+		return { dbPath, raw };
+	};
+
+	// Run validation and return the report it logs
+	const validate = async () => {
+		const debugSpy = jest.spyOn(console, "debug");
+		debugSpy.mockClear();
+		await plugin.validateDatabase();
+		return debugSpy.mock.calls.find(
+			call => call[0] === "[AES] Validation report"
+		)?.[1] as Record<string, number>;
+	};
+
+	// An entry from a future version with a field this version does not know
+	const newerEntry = (notePath: string) => ({
+		schemaVersion: 99,
+		path: notePath,
+		scroll: 5,
+		futureField: { kept: true },
+		viewState: { type: "markdown", file: notePath },
+	});
+
+	describe("current entries", () => {
+		it("should stamp the schema version on write and strip it on read", async () => {
+			const notePath = "notes/current.md";
+			await plugin.writeFileState(notePath, { scroll: 3 });
+
+			const stored = JSON.parse(
+				await adapter.read(await plugin.getDbFilePath(notePath))
+			);
+			expect(stored.schemaVersion).toBe(2);
+			expect(await plugin.readFileState(notePath)).toEqual({
+				scroll: 3,
+				protected: false,
+				timestamp: null,
+			});
+		});
+	});
+
+	describe("unversioned entries", () => {
+		it("should be migrated and persisted on read", async () => {
+			const notePath = "notes/old.md";
+			const { dbPath } = await writeRaw(notePath, {
+				scroll: 8,
+				viewState: { type: "markdown", file: notePath },
+			});
+
+			const state = await plugin.readFileState(notePath);
+
+			expect(state).toMatchObject({ protected: false, timestamp: null });
+			const stored = JSON.parse(await adapter.read(dbPath));
+			expect(stored.schemaVersion).toBe(2);
+			expect(stored.protected).toBe(false);
+		});
+
+		it("should be migrated by validation", async () => {
+			const notePath = "notes/validated.md";
+			await adapter.write(notePath, "# Note");
+			const { dbPath } = await writeRaw(notePath, {
+				viewState: { type: "markdown", file: notePath },
+			});
+			const report = await validate();
+			expect(report.migratedSchema).toBe(1);
+			expect(JSON.parse(await adapter.read(dbPath))).toMatchObject({
+				schemaVersion: 2,
+				protected: false,
+				timestamp: null,
+			});
+		});
+	});
+
+	describe("entries from newer versions", () => {
+		it("should be read without being rewritten", async () => {
+			const notePath = "notes/newer.md";
+			const { dbPath, raw } = await writeRaw(notePath, {
+				...newerEntry(notePath),
+				viewState: { type: "markdown", file: "elsewhere.md" },
+			});
+
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(5);
+			expect(await adapter.read(dbPath)).toBe(raw);
+		});
+
+		it("should not be overwritten by writes", async () => {
+			const notePath = "notes/newer.md";
+			const { dbPath, raw } = await writeRaw(
+				notePath,
+				newerEntry(notePath)
+			);
+
+			await plugin.writeFileState(notePath, { scroll: 1 });
+
+			expect(await adapter.read(dbPath)).toBe(raw);
+		});
+
+		it("should be skipped by validation", async () => {
+			const notePath = "notes/missing-newer.md";
+			const { dbPath, raw } = await writeRaw(
+				notePath,
+				newerEntry(notePath)
+			);
+			const report = await validate();
+			expect(report.skippedNewer).toBe(1);
+			expect(report.removedMissingNote).toBe(0);
+			expect(await adapter.read(dbPath)).toBe(raw);
+		});
+
+		it("should keep unknown fields when the note is renamed", async () => {
+			const oldPath = "notes/newer.md";
+			const newPath = "notes/renamed.md";
+			await writeRaw(oldPath, newerEntry(oldPath));
+
+			await plugin.renameFile(
+				new TFile(newPath) as TAbstractFile,
+				oldPath
+			);
+
+			expect(
+				await adapter.exists(await plugin.getDbFilePath(oldPath))
+			).toBe(false);
+			const moved = JSON.parse(
+				await adapter.read(await plugin.getDbFilePath(newPath))
+			);
+			expect(moved).toMatchObject({
+				schemaVersion: 99,
+				path: newPath,
+				futureField: { kept: true },
+			});
+		});
+	});
+});
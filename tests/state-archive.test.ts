@@ -0,0 +1,260 @@
+/**
+ * Tests for exporting and importing the state database as a portable archive
+ * Coverage: archive contents, archive file, merge/overwrite/skip imports, path remapping, invalid archives
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+
+describe("AntiEphemeralState State Archive", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let adapter: MockVaultAdapter;
+
+	beforeEach(async () => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		const manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.2.3",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		plugin.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+		await adapter.write("Projects/plan.md", "# Plan");
+		await adapter.write("Projects/notes.md", "# Notes");
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	// Export, then start over with an empty database and the given notes
+	const exportAndRebuild = async (notes: string[]) => {
+		const data = JSON.stringify(await plugin.exportArchive());
+		adapter.reset();
+		plugin.getStateCache().clear();
+		for (const note of notes) {
+			await adapter.write(note, "# Note");
+		}
+		return data;
+	};
+
+	describe("exportArchive", () => {
+		it("should key states by note path", async () => {
+			await plugin.writeFileState("Projects/plan.md", {
+				scroll: 40,
+				protected: true,
+				timestamp: 123,
+			});
+
+			const archive = await plugin.exportArchive();
+
+			expect(archive).toMatchObject({
+				format: "anti-ephemeral-state-archive",
+				pluginVersion: "1.2.3",
+				schemaVersion: 2,
+			});
+			expect(archive.states).toEqual({
+				"Projects/plan.md": {
+					scroll: 40,
+					protected: true,
+					timestamp: 123,
+					fieldUpdatedAt: {
+						scroll: expect.any(Number),
+						lock: expect.any(Number),
+					},
+				},
+			});
+		});
+
+		it("should leave out entries from a newer plugin version", async () => {
+			await plugin.getStateStore().put(
+				await plugin.getFileHash("Projects/plan.md"),
+				JSON.stringify({
+					path: "Projects/plan.md",
+					schemaVersion: 99,
+					scroll: 1,
+				})
+			);
+
+			expect((await plugin.exportArchive()).states).toEqual({});
+		});
+
+		it("should write the archive to the vault root", async () => {
+			await plugin.writeFileState("Projects/plan.md", { scroll: 40 });
+
+			const { path, count } = await plugin.exportArchiveFile();
+
+			expect(path).toMatch(
+				/^anti-ephemeral-state-\d{4}-\d{2}-\d{2}\.json$/
+			);
+			expect(count).toBe(1);
+			expect(JSON.parse(await adapter.read(path)).states).toHaveProperty([
+				"Projects/plan.md",
+			]);
+		});
+
+		it("should keep an earlier archive of the same day", async () => {
+			const first = await plugin.exportArchiveFile();
+			const before = await adapter.read(first.path);
+			await plugin.writeFileState("Projects/plan.md", { scroll: 40 });
+
+			const second = await plugin.exportArchiveFile();
+
+			expect(second.path).toBe(first.path.replace(".json", " 1.json"));
+			expect(await adapter.read(first.path)).toBe(before);
+			expect(second.count).toBe(1);
+		});
+	});
+
+	describe("importArchive", () => {
+		it("should restore states into a rebuilt vault", async () => {
+			await plugin.writeFileState("Projects/plan.md", {
+				scroll: 40,
+				protected: true,
+				timestamp: 123,
+			});
+			const data = await exportAndRebuild(["Projects/plan.md"]);
+
+			expect(await plugin.importArchive(data, "merge")).toEqual({
+				imported: 1,
+				skipped: 0,
+				missing: 0,
+			});
+
+			expect(await plugin.readFileState("Projects/plan.md")).toEqual({
+				scroll: 40,
+				protected: true,
+				timestamp: 123,
+			});
+		});
+
+		it("should remap path prefixes", async () => {
+			await plugin.writeFileState("Projects/plan.md", {
+				scroll: 40,
+				viewState: {
+					type: "markdown",
+					file: "Projects/plan.md",
+				} as never,
+			});
+			const data = await exportAndRebuild(["Archive/2026/plan.md"]);
+
+			await plugin.importArchive(data, "merge", [
+				{ from: "Projects/", to: "Archive/2026/" },
+			]);
+
+			const state = await plugin.readFileState("Archive/2026/plan.md");
+			expect(state?.scroll).toBe(40);
+			expect(state?.viewState).toMatchObject({
+				file: "Archive/2026/plan.md",
+			});
+		});
+
+		it("should count notes missing from the vault", async () => {
+			await plugin.writeFileState("Projects/plan.md", { scroll: 40 });
+			await plugin.writeFileState("Projects/notes.md", { scroll: 2 });
+			const data = await exportAndRebuild(["Projects/plan.md"]);
+
+			expect((await plugin.importArchive(data, "merge")).missing).toBe(1);
+			expect(await plugin.getStateStore().list()).toHaveLength(1);
+		});
+
+		it("should keep the newest values when merging", async () => {
+			await plugin.writeFileState("Projects/plan.md", {
+				scroll: 40,
+				cursor: {
+					start: { col: 0, line: 1 },
+					end: { col: 0, line: 1 },
+				},
+			});
+			const data = JSON.stringify(await plugin.exportArchive());
+			await plugin.delay(2);
+			await plugin.writeFileState("Projects/plan.md", { scroll: 80 });
+
+			await plugin.importArchive(data, "merge");
+
+			const state = await plugin.readFileState("Projects/plan.md");
+			expect(state?.scroll).toBe(80);
+			expect(state?.cursor?.start.line).toBe(1);
+		});
+
+		it("should replace existing states when overwriting", async () => {
+			await plugin.writeFileState("Projects/plan.md", { scroll: 40 });
+			const data = JSON.stringify(await plugin.exportArchive());
+			await plugin.delay(2);
+			await plugin.writeFileState("Projects/plan.md", {
+				scroll: 80,
+				cursor: {
+					start: { col: 0, line: 9 },
+					end: { col: 0, line: 9 },
+				},
+			});
+
+			await plugin.importArchive(data, "overwrite");
+
+			const state = await plugin.readFileState("Projects/plan.md");
+			expect(state?.scroll).toBe(40);
+			expect(state).not.toHaveProperty("cursor");
+		});
+
+		it("should leave existing states alone when skipping", async () => {
+			await plugin.writeFileState("Projects/plan.md", { scroll: 40 });
+			await plugin.writeFileState("Projects/notes.md", { scroll: 2 });
+			const data = JSON.stringify(await plugin.exportArchive());
+			await plugin.deleteFile({ path: "Projects/notes.md" } as never);
+			await plugin.writeFileState("Projects/plan.md", { scroll: 80 });
+
+			expect(await plugin.importArchive(data, "skip")).toEqual({
+				imported: 1,
+				skipped: 1,
+				missing: 0,
+			});
+
+			expect(
+				(await plugin.readFileState("Projects/plan.md"))?.scroll
+			).toBe(80);
+			expect(
+				(await plugin.readFileState("Projects/notes.md"))?.scroll
+			).toBe(2);
+		});
+
+		it("should reject files that are not archives", async () => {
+			await expect(
+				plugin.importArchive('{"states":{}}', "merge")
+			).rejects.toThrow(/Not a state archive/);
+			await expect(
+				plugin.importArchive("nope", "merge")
+			).rejects.toThrow();
+		});
+
+		it("should reject archives from a newer plugin version", async () => {
+			const archive = await plugin.exportArchive();
+
+			await expect(
+				plugin.importArchive(
+					JSON.stringify({ ...archive, schemaVersion: 99 }),
+					"merge"
+				)
+			).rejects.toThrow(/newer plugin version/);
+		});
+	});
+});
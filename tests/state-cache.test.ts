@@ -0,0 +1,167 @@
+/**
+ * Tests for the in-memory state cache
+ * Coverage: cache hits/misses, write-through, skipped writes, invalidation, counters
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVault,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+describe("AntiEphemeralState State Cache", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let manifest: MockManifest;
+	let mockVault: MockVault;
+	let adapter: MockVaultAdapter;
+	const notePath = "notes/cached.md";
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		mockVault = app.vault;
+		adapter = mockVault.adapter as MockVaultAdapter;
+
+		plugin.DEFAULT_SETTINGS = {
+			dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
+			lockModeEnabled: true,
+		};
+		plugin.settings = { ...plugin.DEFAULT_SETTINGS };
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	it("should serve repeated reads without touching the adapter", async () => {
+		await plugin.writeFileState(notePath, { scroll: 4 });
+		const readSpy = jest.spyOn(adapter, "read");
+
+		for (let i = 0; i < 5; i++) {
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(4);
+		}
+
+		expect(readSpy).not.toHaveBeenCalled();
+		expect(plugin.getStateCache().hits).toBe(5);
+	});
+
+	it("should cache notes without a saved state", async () => {
+		const existsSpy = jest.spyOn(adapter, "exists");
+
+		expect(await plugin.readFileState(notePath)).toBeNull();
+		const calls = existsSpy.mock.calls.length;
+		expect(await plugin.readFileState(notePath)).toBeNull();
+
+		expect(existsSpy.mock.calls.length).toBe(calls);
+		expect(plugin.getStateCache().misses).toBe(1);
+	});
+
+	it("should hand out copies of cached states", async () => {
+		await plugin.writeFileState(notePath, { scroll: 4 });
+
+		const state = await plugin.readFileState(notePath);
+		state!.scroll = 99;
+
+		expect((await plugin.readFileState(notePath))?.scroll).toBe(4);
+	});
+
+	it("should skip writes that would not change the stored state", async () => {
+		await plugin.writeFileState(notePath, { scroll: 4 });
+		const writeSpy = jest.spyOn(adapter, "write");
+
+		await plugin.writeFileState(notePath, { scroll: 4 });
+
+		expect(writeSpy).not.toHaveBeenCalled();
+		const cache = plugin.getStateCache();
+		expect(cache.writes).toBe(1);
+		expect(cache.skippedWrites).toBe(1);
+	});
+
+	it("should keep Lock Mode checks off the adapter", async () => {
+		await adapter.write(notePath, "# Note");
+		await plugin.onload();
+		await plugin.lockManager!.toggleLockState(notePath);
+		const readSpy = jest.spyOn(adapter, "read");
+
+		for (let i = 0; i < 3; i++) {
+			expect(await plugin.lockManager!.isFileLocked(notePath)).toBe(true);
+		}
+
+		expect(readSpy).not.toHaveBeenCalled();
+	});
+
+	describe("invalidation", () => {
+		it("should reload an entry after its database file changed", async () => {
+			await plugin.writeFileState(notePath, { scroll: 4 });
+			const dbPath = await plugin.getDbFilePath(notePath);
+			await adapter.write(dbPath, JSON.stringify({ scroll: 8 }));
+
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(4);
+			plugin.onDatabaseChange(dbPath);
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(8);
+		});
+
+		it("should ignore changes outside the database directory", async () => {
+			await plugin.writeFileState(notePath, { scroll: 4 });
+
+			plugin.onDatabaseChange(notePath);
+			await plugin.readFileState(notePath);
+
+			expect(plugin.getStateCache().hits).toBe(1);
+		});
+
+		it("should react to raw vault events once loaded", async () => {
+			await plugin.onload();
+			await plugin.writeFileState(notePath, { scroll: 4 });
+			const dbPath = await plugin.getDbFilePath(notePath);
+			await adapter.write(dbPath, JSON.stringify({ scroll: 8 }));
+
+			app.vault.trigger("raw", dbPath);
+
+			expect((await plugin.readFileState(notePath))?.scroll).toBe(8);
+		});
+
+		it("should start over when the database directory changes", async () => {
+			await plugin.writeFileState(notePath, { scroll: 4 });
+
+			plugin.settings.dbDir = "/test/.obsidian/other-db";
+
+			expect(await plugin.readFileState(notePath)).toBeNull();
+		});
+	});
+
+	it("should reset its counters", async () => {
+		await plugin.writeFileState(notePath, { scroll: 4 });
+		await plugin.readFileState(notePath);
+		const cache = plugin.getStateCache();
+
+		cache.resetCounters();
+
+		expect([
+			cache.hits,
+			cache.misses,
+			cache.writes,
+			cache.skippedWrites,
+		]).toEqual([0, 0, 0, 0]);
+	});
+});
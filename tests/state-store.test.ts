@@ -0,0 +1,174 @@
+/**
+ * Tests for pluggable state store backends
+ * Coverage: getStateStore, per-file and in-memory backends, store-agnostic operations
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVault,
+	TestUtils,
+	MockManifest,
+	MockVaultAdapter,
+	TFile,
+	TAbstractFile,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+describe("AntiEphemeralState State Store", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let manifest: MockManifest;
+	let mockVault: MockVault;
+	let adapter: MockVaultAdapter;
+
+	beforeEach(() => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		mockVault = app.vault;
+		adapter = mockVault.adapter as MockVaultAdapter;
+
+		plugin.DEFAULT_SETTINGS = {
+			dbDir: "/test/.obsidian/plugins/anti-ephemeral-state/db",
+			lockModeEnabled: true,
+		};
+		plugin.settings = { ...plugin.DEFAULT_SETTINGS };
+	});
+
+	afterEach(() => {
+		if (mockVault?.adapter) {
+			mockVault.adapter.reset();
+		}
+	});
+
+	describe("getStateStore", () => {
+		it("should default to the per-file backend", async () => {
+			const store = plugin.getStateStore();
+			await store.put("abc", '{"scroll":1}');
+
+			expect(
+				await mockVault.adapter.exists(
+					`${plugin.settings.dbDir}/abc.json`
+				)
+			).toBe(true);
+			expect(await store.list()).toEqual(["abc"]);
+		});
+
+		it("should reuse the store while the backend is unchanged", () => {
+			expect(plugin.getStateStore()).toBe(plugin.getStateStore());
+		});
+
+		it("should recreate the store when the backend setting changes", () => {
+			const perFile = plugin.getStateStore();
+			plugin.settings.storageBackend = "memory";
+			const memory = plugin.getStateStore();
+
+			expect(memory).not.toBe(perFile);
+		});
+	});
+
+	describe("per-file backend", () => {
+		it("should ignore non-JSON files when listing", async () => {
+			const store = plugin.getStateStore();
+			await store.put("one", "{}");
+			await mockVault.adapter.write(
+				`${plugin.settings.dbDir}/notes.txt`,
+				"text"
+			);
+
+			expect(await store.list()).toEqual(["one"]);
+		});
+
+		it("should list nothing when database directory is missing", async () => {
+			expect(await plugin.getStateStore().list()).toEqual([]);
+		});
+
+		it("should move entries between keys", async () => {
+			const store = plugin.getStateStore();
+			await store.put("from", '{"scroll":5}');
+			await store.move("from", "to");
+
+			expect(await store.get("from")).toBeNull();
+			expect(await store.get("to")).toBe('{"scroll":5}');
+		});
+	});
+
+	describe("memory backend", () => {
+		beforeEach(() => {
+			plugin.settings.storageBackend = "memory";
+		});
+
+		it("should round-trip states without touching the vault adapter", async () => {
+			const filePath = "notes/memory.md";
+			const state = {
+				scroll: 42,
+				viewState: { type: "markdown", file: filePath },
+			};
+
+			await plugin.writeFileState(filePath, state);
+
+			expect(adapter.getAllFiles()).toEqual([]);
+			expect(await plugin.readFileState(filePath)).toEqual({
+				...state,
+				protected: false,
+				timestamp: null,
+			});
+		});
+
+		it("should support rename and delete", async () => {
+			const oldPath = "notes/old.md";
+			const newPath = "notes/new.md";
+			await plugin.writeFileState(oldPath, { scroll: 7 });
+
+			await plugin.renameFile(
+				new TFile(newPath) as TAbstractFile,
+				oldPath
+			);
+			expect(await plugin.readFileState(oldPath)).toBeNull();
+			expect((await plugin.readFileState(newPath))?.scroll).toBe(7);
+
+			await plugin.deleteFile(new TFile(newPath) as TAbstractFile);
+			expect(await plugin.readFileState(newPath)).toBeNull();
+		});
+
+		it("should validate entries for missing notes", async () => {
+			const kept = "notes/kept.md";
+			const missing = "notes/missing.md";
+			await mockVault.adapter.write(kept, "# Kept");
+			await plugin.writeFileState(kept, {
+				viewState: { type: "markdown", file: kept },
+			});
+			await plugin.writeFileState(missing, {
+				viewState: { type: "markdown", file: missing },
+			});
+
+			await plugin.validateDatabase();
+
+			expect(await plugin.readFileState(kept)).not.toBeNull();
+			expect(await plugin.readFileState(missing)).toBeNull();
+		});
+
+		it("should keep Lock Mode working", async () => {
+			const filePath = "notes/locked.md";
+			await mockVault.adapter.write(filePath, "# Locked");
+			await plugin.onload();
+			plugin.settings.storageBackend = "memory";
+
+			await plugin.lockManager!.toggleLockState(filePath);
+
+			expect(await plugin.lockManager!.isFileLocked(filePath)).toBe(true);
+			expect(
+				adapter
+					.getAllFiles()
+					.filter(f => f.startsWith(plugin.settings.dbDir))
+			).toEqual([]);
+		});
+	});
+});
@@ -55,6 +55,8 @@ describe("AntiEphemeralState Temporary State Operations", () => {
 		// Create mock view and editor
 		mockView = new MarkdownView(new TFile("test.md"));
 		mockEditor = new Editor();
+		// Restored positions are clamped to the note, so give it 400 lines of 100 characters
+		mockEditor.setValue(Array(400).fill("x".repeat(100)).join("\n"));
 
 		// Set up workspace to return our mock view
 		jest.spyOn(mockWorkspace, "getActiveViewOfType").mockReturnValue(
@@ -535,7 +537,7 @@ describe("AntiEphemeralState Temporary State Operations", () => {
 				);
 			});
 
-			it("should handle large cursor positions", async () => {
+			it("should clamp cursor positions past the end of the note", async () => {
 				const state = {
 					cursor: {
 						start: { col: 500, line: 1000 },
@@ -550,10 +552,10 @@ describe("AntiEphemeralState Temporary State Operations", () => {
 				// Wait for layout ready callback
 				await new Promise(resolve => setTimeout(resolve, 10));
 
-				// Verify large positions were set correctly
+				// Both ends move to the end of the last line
 				expect(setSelectionSpy).toHaveBeenCalledWith(
-					{ ch: 500, line: 1000 },
-					{ ch: 750, line: 1005 }
+					{ ch: 100, line: 399 },
+					{ ch: 100, line: 399 }
 				);
 			});
 
@@ -613,7 +615,7 @@ describe("AntiEphemeralState Temporary State Operations", () => {
 				expect(setEphemeralStateSpy).toHaveBeenCalledWith(state);
 			});
 
-			it("should handle large scroll positions", async () => {
+			it("should clamp scroll positions past the end of the note", async () => {
 				const state = {
 					scroll: 9999.9999,
 				};
@@ -627,7 +629,9 @@ describe("AntiEphemeralState Temporary State Operations", () => {
 				// Wait for layout ready and requestAnimationFrame
 				await new Promise(resolve => setTimeout(resolve, 20));
 
-				expect(setEphemeralStateSpy).toHaveBeenCalledWith(state);
+				expect(setEphemeralStateSpy).toHaveBeenCalledWith({
+					scroll: 399,
+				});
 			});
 
 			it("should skip scroll restoration when no view available", async () => {
@@ -791,11 +795,8 @@ describe("AntiEphemeralState Temporary State Operations", () => {
 				// Wait for layout ready callback
 				await new Promise(resolve => setTimeout(resolve, 20));
 
-				// Verify cursor was set (even with invalid values)
-				expect(setSelectionSpy).toHaveBeenCalledWith(
-					{ ch: -1, line: -1 },
-					{ ch: NaN, line: Infinity }
-				);
+				// Invalid positions are dropped rather than applied
+				expect(setSelectionSpy).not.toHaveBeenCalled();
 			});
 
 			it("should handle state with complete cursor structure", async () => {
@@ -835,8 +836,8 @@ describe("AntiEphemeralState Temporary State Operations", () => {
 				// Wait for layout ready and requestAnimationFrame
 				await new Promise(resolve => setTimeout(resolve, 20));
 
-				// Should still call setEphemeralState even with invalid scroll
-				expect(setEphemeralStateSpy).toHaveBeenCalledWith(state);
+				// Invalid scroll positions are dropped rather than applied
+				expect(setEphemeralStateSpy).not.toHaveBeenCalled();
 			});
 
 			it("should handle state with invalid viewState data", () => {
@@ -0,0 +1,277 @@
+/**
+ * Tests for reviewing validation before it is applied
+ * Coverage: dry-run report, applying selected actions, changes since the dry run, conflict copies, markdown export
+ */
+
+import {
+	describe,
+	it,
+	expect,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import AntiEphemeralState from "../main";
+import {
+	App,
+	MockVaultAdapter,
+	TestUtils,
+	MockManifest,
+} from "./__mocks__/obsidian";
+
+type AESCtor = new (app: App, manifest: MockManifest) => AntiEphemeralState;
+
+const DB_DIR = "/test/.obsidian/plugins/anti-ephemeral-state/db";
+
+describe("AntiEphemeralState Validation Review", () => {
+	let plugin: AntiEphemeralState;
+	let app: App;
+	let adapter: MockVaultAdapter;
+
+	beforeEach(async () => {
+		app = TestUtils.createMockApp("/test/.obsidian");
+		const manifest = TestUtils.createMockManifest({
+			id: "anti-ephemeral-state",
+			name: "Anti-Ephemeral State",
+			version: "1.0.0",
+		});
+		adapter = app.vault.adapter as MockVaultAdapter;
+		plugin = new (AntiEphemeralState as AESCtor)(app, manifest);
+		plugin.settings = { dbDir: DB_DIR, lockModeEnabled: true };
+		// Long enough for the stored scroll positions
+		await adapter.write("notes/kept.md", "# Kept" + "\n".repeat(20));
+	});
+
+	afterEach(() => {
+		adapter.reset();
+		jest.restoreAllMocks();
+	});
+
+	// Write a raw database file for the given note, bypassing the store's checks
+	const storeRaw = async (path: string, value: unknown) => {
+		const key = await plugin.getFileHash(path);
+		await adapter.write(
+			`${DB_DIR}/${key}.json`,
+			typeof value === "string" ? value : JSON.stringify(value)
+		);
+		return key;
+	};
+
+	const rawEntry = async (path: string) => {
+		const raw = await plugin
+			.getStateStore()
+			.get(await plugin.getFileHash(path));
+		return raw === null ? null : JSON.parse(raw);
+	};
+
+	// One entry per kind of problem
+	const storeProblems = async () => {
+		await storeRaw("notes/kept.md", {
+			path: "notes/kept.md",
+			viewState: { type: "markdown", file: "wrong.md" },
+			scroll: 5,
+		});
+		await storeRaw("notes/gone.md", {
+			path: "notes/gone.md",
+			schemaVersion: 2,
+			scroll: 1,
+		});
+		await storeRaw("notes/broken.md", "{not json");
+		await storeRaw("notes/future.md", {
+			path: "notes/future.md",
+			schemaVersion: 99,
+		});
+	};
+
+	describe("planValidation", () => {
+		it("should propose fixes, removals and kept entries", async () => {
+			await storeProblems();
+
+			const report = await plugin.planValidation();
+
+			expect(report.total).toBe(4);
+			expect(report.errors).toBe(0);
+			expect(report.actions).toEqual(
+				expect.arrayContaining([
+					expect.objectContaining({
+						kind: "fix",
+						problem: "repair",
+						path: "notes/kept.md",
+						repairs: ["schema", "viewStateFile"],
+					}),
+					expect.objectContaining({
+						kind: "remove",
+						problem: "missing-note",
+						path: "notes/gone.md",
+					}),
+					expect.objectContaining({
+						kind: "remove",
+						problem: "unreadable",
+						key: await plugin.getFileHash("notes/broken.md"),
+					}),
+					expect.objectContaining({
+						kind: "keep",
+						problem: "newer",
+						path: "notes/future.md",
+					}),
+				])
+			);
+			expect(report.actions).toHaveLength(4);
+		});
+
+		it("should not change anything", async () => {
+			await storeProblems();
+			const putSpy = jest.spyOn(plugin.getStateStore(), "put");
+			const deleteSpy = jest.spyOn(plugin.getStateStore(), "delete");
+
+			await plugin.planValidation();
+
+			expect(putSpy).not.toHaveBeenCalled();
+			expect(deleteSpy).not.toHaveBeenCalled();
+			expect(await rawEntry("notes/gone.md")).not.toBeNull();
+		});
+
+		it("should report nothing for a healthy database", async () => {
+			await plugin.writeFileState("notes/kept.md", {
+				scroll: 5,
+				viewState: { type: "markdown", file: "notes/kept.md" } as never,
+			});
+
+			expect((await plugin.planValidation()).actions).toEqual([]);
+		});
+
+		it("should propose merging sync conflict copies", async () => {
+			const key = await storeRaw("notes/kept.md", {
+				path: "notes/kept.md",
+				schemaVersion: 2,
+				viewState: { type: "markdown", file: "notes/kept.md" },
+				scroll: 5,
+			});
+			await adapter.write(
+				`${DB_DIR}/${key} (conflict 2026-01-01).json`,
+				JSON.stringify({
+					path: "notes/kept.md",
+					schemaVersion: 2,
+					scroll: 9,
+				})
+			);
+
+			expect((await plugin.planValidation()).actions).toEqual([
+				expect.objectContaining({
+					kind: "fix",
+					problem: "conflict-copy",
+					key: `${key} (conflict 2026-01-01).json`,
+				}),
+			]);
+		});
+	});
+
+	describe("applyValidation", () => {
+		it("should apply only the selected actions", async () => {
+			await storeProblems();
+			const report = await plugin.planValidation();
+
+			const outcome = await plugin.applyValidation(
+				report.actions.filter(a => a.problem === "repair")
+			);
+
+			expect(outcome).toMatchObject({ fixed: 1, removed: 0, errors: 0 });
+			expect(await rawEntry("notes/kept.md")).toMatchObject({
+				path: "notes/kept.md",
+				schemaVersion: 2,
+				viewState: { file: "notes/kept.md" },
+			});
+			expect(await rawEntry("notes/gone.md")).not.toBeNull();
+			expect(
+				await plugin
+					.getStateStore()
+					.get(await plugin.getFileHash("notes/broken.md"))
+			).toBe("{not json");
+		});
+
+		it("should apply every proposed change", async () => {
+			await storeProblems();
+			const report = await plugin.planValidation();
+
+			const outcome = await plugin.applyValidation(report.actions);
+
+			expect(outcome).toMatchObject({ fixed: 1, removed: 2 });
+			expect(await plugin.getStateStore().list()).toHaveLength(2);
+			expect(await rawEntry("notes/future.md")).toEqual({
+				path: "notes/future.md",
+				schemaVersion: 99,
+			});
+		});
+
+		it("should keep states of notes that reappeared since the dry run", async () => {
+			await storeProblems();
+			const report = await plugin.planValidation();
+			await adapter.write("notes/gone.md", "# Back");
+
+			await plugin.applyValidation(report.actions);
+
+			expect((await rawEntry("notes/gone.md")).scroll).toBe(1);
+		});
+
+		it("should keep states rewritten since the dry run", async () => {
+			await storeRaw("notes/broken.md", "{not json");
+			const report = await plugin.planValidation();
+			await adapter.write("notes/broken.md", "# Fixed");
+			await plugin.writeFileState("notes/broken.md", { scroll: 3 });
+
+			await plugin.applyValidation(report.actions);
+
+			expect((await rawEntry("notes/broken.md")).scroll).toBe(3);
+		});
+
+		it("should merge only the selected conflict copies", async () => {
+			const resolveSpy = jest
+				.spyOn(plugin, "resolveConflictCopies")
+				.mockResolvedValue({ merged: 1, lockConflicts: [] });
+
+			const outcome = await plugin.applyValidation([
+				{
+					kind: "fix",
+					problem: "conflict-copy",
+					key: "copy.json",
+					detail: "",
+				},
+			]);
+
+			expect(resolveSpy).toHaveBeenCalledWith(new Set(["copy.json"]));
+			expect(outcome.mergedConflicts).toBe(1);
+		});
+	});
+
+	it("should export the report as a note", async () => {
+		await storeProblems();
+		const report = await plugin.planValidation();
+		const selected = report.actions.filter(a => a.kind === "remove");
+
+		const path = await plugin.exportValidationReport(report, selected);
+
+		expect(path).toMatch(/^Validation report \d{4}-\d{2}-\d{2}\.md$/);
+		const note = await adapter.read(path);
+		expect(note).toContain("## Fix");
+		expect(note).toContain("- [ ] `notes/kept.md`");
+		expect(note).toContain(
+			"- [x] `notes/gone.md`: The note no longer exists"
+		);
+		expect(note).toContain("- `notes/future.md`");
+	});
+
+	it("should not replace an existing note with the report", async () => {
+		const report = await plugin.planValidation();
+		const date = new Date(report.createdAt).toISOString().slice(0, 10);
+		await adapter.write(`Validation report ${date}.md`, "# Mine");
+
+		const first = await plugin.exportValidationReport(report, []);
+		const second = await plugin.exportValidationReport(report, []);
+
+		expect(first).toBe(`Validation report ${date} 1.md`);
+		expect(second).toBe(`Validation report ${date} 2.md`);
+		expect(await adapter.read(`Validation report ${date}.md`)).toBe(
+			"# Mine"
+		);
+	});
+});